@@ -0,0 +1,16 @@
+// Deploy-time configuration. Overrides the VITE_* build variables so the same
+// bundle can point at staging, local or production backends.
+//
+// window.__APP_CONFIG__ = {
+//   backendUrl: 'https://cv-parser-backend-q0mn.onrender.com',
+//   requestTimeoutMs: 10000,
+//   searchTimeoutMs: 15000,
+//   uploadTimeoutMs: 0,
+//   mockBackend: false,
+//   mockLatencyMs: 400,
+//   idleTimeoutMinutes: 30,
+//   idleWarningSeconds: 60,
+//   sessionMaxAgeHours: 12,
+//   uploadConcurrency: 3,
+//   uploadMaxRetries: 3,
+// };
@@ -1,37 +1,34 @@
 import React from 'react';
-import { useState, useEffect } from 'react';
+import { BrowserRouter, Navigate, Outlet, Route, Routes, useLocation } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { NotificationProvider } from './contexts/NotificationContext';
+import { SUPPORTED_FORMATS_LABEL } from './services/fileFormats';
+import { useUploadHistory } from './hooks/useUploadHistory';
+import { useSavedSearchScheduler } from './hooks/useSavedSearchScheduler';
 import LoginPage from './components/LoginPage';
 import Header from './components/Header';
 import FileUpload from './components/FileUpload';
 import SearchPage from './components/SearchPage';
-import StatsCard from './components/StatsCard';
-import { FileText, Users, Clock, CheckCircle } from 'lucide-react';
+import JobMatchPage from './components/JobMatchPage';
+import CandidatePage from './components/CandidatePage';
+import ListsPage from './components/ListsPage';
+import SettingsPage from './components/SettingsPage';
+import SessionTimeoutDialog from './components/SessionTimeoutDialog';
+import PermissionGate from './components/PermissionGate';
+import { Lock } from 'lucide-react';
 
 
 const Dashboard: React.FC = () => {
-  const [currentPage, setCurrentPage] = useState('upload');
-
-  useEffect(() => {
-    const handleHashChange = () => {
-      const hash = window.location.hash.slice(1);
-      setCurrentPage(hash || 'upload');
-    };
-
-    handleHashChange();
-    window.addEventListener('hashchange', handleHashChange);
-    return () => window.removeEventListener('hashchange', handleHashChange);
-  }, []);
-
-  const renderPage = () => {
-    switch (currentPage) {
-      case 'search':
-        return <SearchPage />;
-      case 'upload':
-      default:
-        return <UploadPage />;
-    }
-  };
+  const location = useLocation();
+  const { user } = useAuth();
+  useUploadHistory(user?.username);
+  useSavedSearchScheduler(user?.username);
+
+  // Links from before the router used `#search` / `#upload`
+  const legacyPage = location.hash.slice(1);
+  if (location.pathname === '/' && (legacyPage === 'search' || legacyPage === 'upload')) {
+    return <Navigate to={`/${legacyPage}`} replace />;
+  }
 
   return (
    <div className="min-h-screen flex flex-col">
@@ -39,7 +36,7 @@ const Dashboard: React.FC = () => {
         <Header />
       </div>
       <div className="flex-grow">
-        {renderPage()}
+        <Outlet />
       </div>
     </div>
   );
@@ -52,7 +49,7 @@ const UploadPage: React.FC = () => {
       <div className="mb-8">
         <h2 className="text-3xl font-bold text-gray-900">Upload Candidate Resumes</h2>
         <p className="text-gray-600 mt-2">
-          Upload and manage candidate resume files. Supported formats include PDF, DOC, and DOCX.
+          Upload and manage candidate resume files. Supported formats include {SUPPORTED_FORMATS_LABEL}.
         </p>
       </div>
 
@@ -102,7 +99,19 @@ const UploadPage: React.FC = () => {
             </p>
           </div>
 
-          <FileUpload />
+          <PermissionGate
+            permission="resumes:upload"
+            fallback={
+              <div className="flex items-center space-x-3 p-4 bg-gray-50 rounded-lg border border-gray-200 text-gray-600">
+                <Lock className="w-5 h-5 flex-shrink-0" />
+                <span className="text-sm">
+                  Your account has read-only access. Ask an admin for recruiter access to upload resumes.
+                </span>
+              </div>
+            }
+          >
+            <FileUpload />
+          </PermissionGate>
         </div>
 
         {/* Recent Activity */}
@@ -165,20 +174,46 @@ const UploadPage: React.FC = () => {
 };
 
 const AppContent: React.FC = () => {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, idleRemainingMs, stayActive, logout } = useAuth();
 
   if (!isAuthenticated) {
     return <LoginPage />;
   }
 
-  return <Dashboard />;
+  return (
+    <>
+      <Routes>
+        <Route element={<Dashboard />}>
+          <Route index element={<Navigate to="/upload" replace />} />
+          <Route path="upload" element={<UploadPage />} />
+          <Route path="search" element={<SearchPage />} />
+          <Route path="search/job" element={<JobMatchPage />} />
+          <Route path="candidates/:contactId" element={<CandidatePage />} />
+          <Route path="lists" element={<ListsPage />} />
+          <Route path="settings" element={<SettingsPage />} />
+          <Route path="*" element={<Navigate to="/upload" replace />} />
+        </Route>
+      </Routes>
+      {idleRemainingMs !== null && (
+        <SessionTimeoutDialog
+          remainingMs={idleRemainingMs}
+          onStay={stayActive}
+          onLogout={logout}
+        />
+      )}
+    </>
+  );
 };
 
 function App() {
   return (
-    <AuthProvider>
-      <AppContent />
-    </AuthProvider>
+    <BrowserRouter>
+      <AuthProvider>
+        <NotificationProvider>
+          <AppContent />
+        </NotificationProvider>
+      </AuthProvider>
+    </BrowserRouter>
   );
 }
 
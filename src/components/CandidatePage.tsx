@@ -0,0 +1,124 @@
+import React from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, ExternalLink, FileText, Mail, Briefcase, UserX } from 'lucide-react';
+import { getCachedCandidate } from '../services/candidateCache';
+import { hubSpotContactUrl } from '../utils/hubspot';
+import type { SearchResult } from '../types/api';
+
+const CandidatePage: React.FC = () => {
+  const { contactId = '' } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const candidate: SearchResult | undefined =
+    (location.state as { candidate?: SearchResult } | null)?.candidate ?? getCachedCandidate(contactId);
+
+  // Only go "back" when we arrived from inside the app
+  const goBack = () => (location.key !== 'default' ? navigate(-1) : navigate('/search'));
+
+  if (!candidate) {
+    return (
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+        <UserX className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Candidate not loaded</h2>
+        <p className="text-gray-600 mb-6">
+          Candidate {contactId} isn't in your recent search results. Run a search to find them again.
+        </p>
+        <Link to="/search" className="text-blue-600 hover:text-blue-800 font-medium">
+          Go to search
+        </Link>
+      </main>
+    );
+  }
+
+  const skills = candidate.skills
+    ? candidate.skills.split(',').map((skill) => skill.trim()).filter(Boolean)
+    : [];
+
+  return (
+    <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <button
+        onClick={goBack}
+        className="inline-flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900 mb-6"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span>Back to results</span>
+      </button>
+
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+        <div className="p-6 border-b border-gray-200 flex items-start justify-between">
+          <div className="flex items-center space-x-4">
+            <div className="w-14 h-14 bg-blue-100 rounded-full flex items-center justify-center">
+              <span className="text-blue-600 font-semibold text-xl">
+                {candidate.name ? candidate.name.charAt(0).toUpperCase() : 'N'}
+              </span>
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">{candidate.name || 'N/A'}</h2>
+              <p className="text-sm text-gray-500">ID: {candidate.contact_id}</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-4 text-sm font-medium">
+            {candidate.cv_url_link && (
+              <a
+                href={candidate.cv_url_link}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-900"
+              >
+                <FileText className="w-4 h-4" />
+                <span>View CV</span>
+              </a>
+            )}
+            <a
+              href={hubSpotContactUrl(candidate.contact_id)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-900"
+            >
+              <ExternalLink className="w-4 h-4" />
+              <span>View Contact</span>
+            </a>
+          </div>
+        </div>
+
+        <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <div className="flex items-center space-x-2 text-gray-700">
+            <Mail className="w-4 h-4 text-gray-400" />
+            <span>{candidate.email || 'N/A'}</span>
+          </div>
+          <div className="flex items-center space-x-2 text-gray-700">
+            <Briefcase className="w-4 h-4 text-gray-400" />
+            <span>{candidate.job_title || 'N/A'}</span>
+          </div>
+        </div>
+
+        {skills.length > 0 && (
+          <div className="px-6 pb-6">
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Skills</h3>
+            <div className="flex flex-wrap gap-2">
+              {skills.map((skill) => (
+                <span
+                  key={skill}
+                  className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                >
+                  {skill}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {candidate.full_text && (
+          <div className="px-6 pb-6">
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Resume Text</h3>
+            <p className="text-sm text-gray-600 whitespace-pre-line bg-gray-50 rounded-lg border border-gray-200 p-4 max-h-[32rem] overflow-y-auto">
+              {candidate.full_text}
+            </p>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default CandidatePage;
@@ -0,0 +1,52 @@
+import React, { useEffect, useMemo } from 'react';
+import { X } from 'lucide-react';
+import { termPattern } from '../utils/highlight';
+import DocumentViewer, { toolbarButton } from './DocumentViewer';
+
+interface DocumentPreviewProps {
+  /** An uploaded file, or a link to the CV. */
+  source: File | string;
+  title: string;
+  /** Highlighted wherever they appear in the document text. */
+  highlightTerms?: string[];
+  onClose: () => void;
+}
+
+const NO_TERMS: string[] = [];
+
+/** Shows a PDF or DOCX in a dialog, with page navigation, zoom and search term highlighting. */
+const DocumentPreview: React.FC<DocumentPreviewProps> = ({ source, title, highlightTerms = NO_TERMS, onClose }) => {
+  const pattern = useMemo(() => termPattern(highlightTerms), [highlightTerms]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label={`Preview of ${title}`}
+        className="bg-white rounded-xl w-full max-w-5xl h-[90vh] shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <DocumentViewer
+          source={source}
+          title={title}
+          pattern={pattern}
+          actions={
+            <button onClick={onClose} className={toolbarButton} title="Close preview">
+              <X className="w-5 h-5" />
+            </button>
+          }
+        />
+      </div>
+    </div>
+  );
+};
+
+export default DocumentPreview;
@@ -0,0 +1,231 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink,
+  FileText,
+  Loader2,
+  Search,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react';
+import { getErrorMessage } from '../services/api';
+import { loadDocument, previewKindOf, type LoadedDocument, type PageMatches } from '../services/documentPreview';
+import PdfPreview from './PdfPreview';
+import DocxPreview from './DocxPreview';
+
+interface DocumentViewerProps {
+  /** An uploaded file, or a link to the CV. */
+  source: File | string;
+  title: string;
+  /** Text to highlight in the document. */
+  pattern: RegExp | null;
+  /**
+   * Keep highlights in view: go to the page with matches (`preferredPage`
+   * when it has some) and scroll to the first one.
+   */
+  followMatches?: boolean;
+  preferredPage?: number;
+  /** Extra toolbar buttons, e.g. to close the viewer. */
+  actions?: React.ReactNode;
+}
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+const DEFAULT_ZOOM_INDEX = 2;
+
+export const toolbarButton = 'p-1.5 rounded-md text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent';
+
+/** Renders a PDF or DOCX with a toolbar for page navigation, zoom and highlighted matches. */
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ source, title, pattern, followMatches, preferredPage, actions }) => {
+  const [loaded, setLoaded] = useState<LoadedDocument | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [pageCount, setPageCount] = useState(1);
+  const [zoomIndex, setZoomIndex] = useState(DEFAULT_ZOOM_INDEX);
+  const [matches, setMatches] = useState<PageMatches[]>([]);
+
+  const kind = loaded?.format ? previewKindOf(loaded.format.mimeType) : null;
+  const matchCount = matches.reduce((sum, entry) => sum + entry.count, 0);
+  const zoom = ZOOM_LEVELS[zoomIndex];
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoaded(null);
+    setError(null);
+    setPage(1);
+    setPageCount(1);
+    setMatches([]);
+    loadDocument(source)
+      .then((result) => {
+        if (!cancelled) setLoaded(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(getErrorMessage(err, 'The CV could not be loaded.'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  // Only PDFs are paged here; DOCX pages all stay rendered and scroll to their highlights
+  useEffect(() => {
+    if (!followMatches || kind !== 'pdf' || matches.length === 0) return;
+    setPage((current) => {
+      if (matches.some((entry) => entry.page === preferredPage)) return preferredPage!;
+      return matches.some((entry) => entry.page === current) ? current : matches[0].page;
+    });
+  }, [matches, followMatches, preferredPage, kind]);
+
+  const goToPage = (number: number) => setPage(Math.min(pageCount, Math.max(1, number)));
+
+  // Wraps around to the first page with matches after the last one
+  const goToNextMatch = () => {
+    const next = matches.find((entry) => entry.page > page) ?? matches[0];
+    if (next) setPage(next.page);
+  };
+
+  const handleError = useCallback((message: string) => setError(message), []);
+
+  const renderBody = () => {
+    if (error) {
+      return (
+        <div className="flex flex-col items-center justify-center h-full text-center px-6">
+          <AlertCircle className="w-10 h-10 text-red-400 mb-3" />
+          <p className="text-sm text-gray-700 max-w-md">{error}</p>
+        </div>
+      );
+    }
+    if (!loaded) {
+      return (
+        <div className="flex items-center justify-center h-full text-gray-500">
+          <Loader2 className="w-6 h-6 animate-spin mr-2" />
+          <span className="text-sm">Loading CV…</span>
+        </div>
+      );
+    }
+    if (kind === 'pdf') {
+      return (
+        <div className="h-full overflow-auto p-4">
+          <PdfPreview
+            bytes={loaded.bytes}
+            page={page}
+            zoom={zoom}
+            pattern={pattern}
+            scrollToMatch={followMatches}
+            onPageCount={setPageCount}
+            onMatches={setMatches}
+            onError={handleError}
+          />
+        </div>
+      );
+    }
+    if (kind === 'docx') {
+      return (
+        <DocxPreview
+          bytes={loaded.bytes}
+          page={page}
+          zoom={zoom}
+          pattern={pattern}
+          scrollToMatch={followMatches}
+          onPageChange={setPage}
+          onPageCount={setPageCount}
+          onMatches={setMatches}
+          onError={handleError}
+        />
+      );
+    }
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-center px-6">
+        <FileText className="w-10 h-10 text-gray-400 mb-3" />
+        <p className="text-sm text-gray-700">
+          {loaded.format ? `${loaded.format.label} files` : 'Files of this type'} can't be previewed here yet.
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b border-gray-200">
+        <div className="flex-1 min-w-0">
+          <h3 className="text-sm font-semibold text-gray-900 truncate">{title}</h3>
+          {loaded && <p className="text-xs text-gray-500 truncate">{loaded.name}</p>}
+        </div>
+
+        {kind && !error && (
+          <>
+            <div className="flex items-center space-x-1">
+              <button onClick={() => goToPage(page - 1)} disabled={page <= 1} className={toolbarButton} title="Previous page">
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="text-xs text-gray-600 whitespace-nowrap">
+                Page {page} of {pageCount}
+              </span>
+              <button onClick={() => goToPage(page + 1)} disabled={page >= pageCount} className={toolbarButton} title="Next page">
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={() => setZoomIndex((index) => index - 1)}
+                disabled={zoomIndex === 0}
+                className={toolbarButton}
+                title="Zoom out"
+              >
+                <ZoomOut className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setZoomIndex(DEFAULT_ZOOM_INDEX)}
+                className="text-xs text-gray-600 w-12 text-center hover:text-gray-900"
+                title="Reset zoom"
+              >
+                {Math.round(zoom * 100)}%
+              </button>
+              <button
+                onClick={() => setZoomIndex((index) => index + 1)}
+                disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+                className={toolbarButton}
+                title="Zoom in"
+              >
+                <ZoomIn className="w-4 h-4" />
+              </button>
+            </div>
+
+            {pattern && (
+              <button
+                onClick={goToNextMatch}
+                disabled={matchCount === 0}
+                className="inline-flex items-center space-x-1 px-2 py-1 text-xs rounded-md bg-yellow-50 text-yellow-800 border border-yellow-200 hover:bg-yellow-100 disabled:opacity-60"
+                title="Go to the next page with matches"
+              >
+                <Search className="w-3 h-3" />
+                <span>{matchCount === 1 ? '1 match' : `${matchCount} matches`}</span>
+              </button>
+            )}
+          </>
+        )}
+
+        <div className="flex items-center space-x-1">
+          {typeof source === 'string' && (
+            <a
+              href={source}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={toolbarButton}
+              title="Open in a new tab"
+            >
+              <ExternalLink className="w-4 h-4" />
+            </a>
+          )}
+          {actions}
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 bg-gray-100">{renderBody()}</div>
+    </div>
+  );
+};
+
+export default DocumentViewer;
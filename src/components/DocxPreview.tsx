@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { loadDocxRenderer, type PageMatches } from '../services/documentPreview';
+import { highlightElement, removeHighlights } from '../utils/highlight';
+
+interface DocxPreviewProps {
+  bytes: Uint8Array;
+  page: number;
+  zoom: number;
+  pattern: RegExp | null;
+  /** Scroll the first highlight into view. */
+  scrollToMatch?: boolean;
+  onPageChange: (page: number) => void;
+  onPageCount: (count: number) => void;
+  onMatches: (matches: PageMatches[]) => void;
+  onError: (message: string) => void;
+}
+
+// docx-preview renders each page (as far as Word's page breaks tell) as a <section>
+const PAGE_SELECTOR = 'section.docx';
+
+/**
+ * All pages of a Word document, one below the other. The page number follows
+ * scrolling, and setting it scrolls to that page.
+ */
+const DocxPreview: React.FC<DocxPreviewProps> = ({
+  bytes,
+  page,
+  zoom,
+  pattern,
+  scrollToMatch,
+  onPageChange,
+  onPageCount,
+  onMatches,
+  onError,
+}) => {
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const pagesRef = useRef<HTMLElement[]>([]);
+  const [isRendered, setIsRendered] = useState(false);
+  // The page the user scrolled to, which shouldn't be scrolled to again
+  const scrolledTo = useRef(1);
+
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    let cancelled = false;
+    setIsRendered(false);
+    body.replaceChildren();
+    loadDocxRenderer()
+      .then(({ renderAsync }) =>
+        renderAsync(bytes, body, undefined, { className: 'docx', breakPages: true, ignoreLastRenderedPageBreak: false })
+      )
+      .then(() => {
+        if (cancelled) return;
+        pagesRef.current = Array.from(body.querySelectorAll<HTMLElement>(PAGE_SELECTOR));
+        onPageCount(Math.max(1, pagesRef.current.length));
+        setIsRendered(true);
+      })
+      .catch((err) => {
+        console.error('Failed to render DOCX:', err);
+        if (!cancelled) onError('This Word document could not be displayed. It may be damaged.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [bytes, onPageCount, onError]);
+
+  // Separate from rendering, so changing the terms doesn't re-render the document
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body || !isRendered) return;
+    const marks = highlightElement(body, pattern);
+
+    const counts = new Map<number, number>();
+    for (const mark of marks) {
+      const section = mark.closest<HTMLElement>(PAGE_SELECTOR);
+      const number = section ? pagesRef.current.indexOf(section) + 1 : 1;
+      counts.set(number, (counts.get(number) ?? 0) + 1);
+    }
+    onMatches(Array.from(counts, ([number, count]) => ({ page: number, count })).sort((a, b) => a.page - b.page));
+    if (scrollToMatch) marks[0]?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    return () => removeHighlights(marks);
+  }, [pattern, isRendered, scrollToMatch, onMatches]);
+
+  useEffect(() => {
+    if (page === scrolledTo.current) return;
+    scrolledTo.current = page;
+    pagesRef.current[page - 1]?.scrollIntoView({ block: 'start' });
+  }, [page]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const top = e.currentTarget.getBoundingClientRect().top;
+    // The last page whose top has scrolled past the upper third of the view
+    const threshold = top + e.currentTarget.clientHeight / 3;
+    let current = 1;
+    pagesRef.current.forEach((section, index) => {
+      if (section.getBoundingClientRect().top <= threshold) current = index + 1;
+    });
+    if (current !== scrolledTo.current) {
+      scrolledTo.current = current;
+      onPageChange(current);
+    }
+  };
+
+  return (
+    <div onScroll={handleScroll} className="h-full overflow-auto">
+      <div ref={bodyRef} className="docx-preview" style={{ zoom }} />
+    </div>
+  );
+};
+
+export default DocxPreview;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Loader2, Users } from 'lucide-react';
+import { getErrorMessage, resolveDuplicate } from '../services/api';
+import { useNotifications } from '../hooks/useNotifications';
+import type { CandidateMatch, DuplicateAction, ParsedResume } from '../types/api';
+
+interface DuplicateCandidatePromptProps {
+  data: ParsedResume;
+  matches: CandidateMatch[];
+  /** Called with the candidate record that remains, or nothing to keep both. */
+  onResolved: (data?: ParsedResume) => void;
+}
+
+const FIELD_LABELS: Record<CandidateMatch['matched_on'][number], string> = {
+  email: 'email',
+  phone: 'phone',
+  name: 'name',
+};
+
+const RESOLVED_MESSAGES: Record<DuplicateAction, string> = {
+  merge: 'Merged this CV into',
+  replace: 'Replaced the record of',
+  skip: 'Discarded this CV and kept',
+};
+
+const actionButton = 'px-2 py-1 text-xs font-medium rounded-md border transition-colors disabled:opacity-50';
+
+const DuplicateCandidatePrompt: React.FC<DuplicateCandidatePromptProps> = ({ data, matches, onResolved }) => {
+  const [pending, setPending] = useState<{ contactId: string; action: DuplicateAction } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { notify } = useNotifications();
+
+  const resolve = async (match: CandidateMatch, action: DuplicateAction) => {
+    // Without its own backend record the upload has nothing to merge or discard
+    if (!data.contact_id) {
+      onResolved();
+      return;
+    }
+    setPending({ contactId: match.contact_id, action });
+    setError(null);
+    try {
+      const resolved = await resolveDuplicate(data.contact_id, { target_contact_id: match.contact_id, action });
+      onResolved(resolved);
+      notify({ type: 'success', message: `${RESOLVED_MESSAGES[action]} ${match.name || 'the existing candidate'}` });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to resolve duplicate'));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const renderAction = (match: CandidateMatch, action: DuplicateAction, label: string, title: string, style: string) => (
+    <button
+      onClick={() => resolve(match, action)}
+      disabled={pending !== null}
+      title={title}
+      className={`${actionButton} ${style}`}
+    >
+      {pending?.contactId === match.contact_id && pending.action === action ? (
+        <Loader2 className="w-3 h-3 animate-spin" />
+      ) : (
+        label
+      )}
+    </button>
+  );
+
+  return (
+    <div className="mt-3 p-3 rounded-lg border bg-orange-50 border-orange-200">
+      <div className="flex items-center space-x-2 mb-2">
+        <Users className="w-4 h-4 text-orange-600" />
+        <h5 className="text-sm font-medium text-orange-800">
+          {matches.length === 1 ? 'This candidate may already exist' : `${matches.length} existing candidates look similar`}
+        </h5>
+      </div>
+
+      <ul className="space-y-2">
+        {matches.map((match) => (
+          <li key={match.contact_id} className="flex flex-wrap items-center justify-between gap-2 bg-white rounded-md border border-orange-100 p-2">
+            <div className="text-xs min-w-0">
+              <p className="font-medium text-gray-900 truncate">
+                {match.name || 'Unnamed candidate'}
+                {match.job_title && <span className="font-normal text-gray-500"> · {match.job_title}</span>}
+              </p>
+              <p className="text-gray-500 truncate">{[match.email, match.phone].filter(Boolean).join(' · ')}</p>
+              <p className="text-orange-700">
+                Same {match.matched_on.map((field) => FIELD_LABELS[field]).join(', ')}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              {renderAction(match, 'merge', 'Merge', 'Fill gaps in the existing candidate from this CV', 'border-blue-200 text-blue-700 bg-blue-50 hover:bg-blue-100')}
+              {renderAction(match, 'replace', 'Replace', 'Overwrite the existing candidate with this CV', 'border-orange-200 text-orange-700 bg-white hover:bg-orange-50')}
+              {renderAction(match, 'skip', 'Skip', 'Keep the existing candidate and discard this CV', 'border-gray-300 text-gray-700 bg-white hover:bg-gray-100')}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-between mt-2">
+        {error ? <p className="text-xs text-red-600">{error}</p> : <span />}
+        <button
+          onClick={() => onResolved()}
+          disabled={pending !== null}
+          className="text-xs text-gray-600 hover:text-gray-900 underline disabled:opacity-50"
+        >
+          Not a duplicate, keep both
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateCandidatePrompt;
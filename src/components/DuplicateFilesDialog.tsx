@@ -0,0 +1,78 @@
+import React from 'react';
+import { Copy } from 'lucide-react';
+import type { DuplicateFile } from '../services/duplicates';
+import { formatTimestamp } from '../utils/format';
+
+interface DuplicateFilesDialogProps {
+  duplicates: DuplicateFile[];
+  onSkip: () => void;
+  onReplace: () => void;
+  onUploadAnyway: () => void;
+}
+
+const describePrevious = ({ previous }: DuplicateFile) => {
+  const [latest] = previous;
+  const parsedAs = latest.parsedData?.name ? ` as ${latest.parsedData.name}` : '';
+  return `Uploaded ${formatTimestamp(latest.createdAt)}${parsedAs}`;
+};
+
+const DuplicateFilesDialog: React.FC<DuplicateFilesDialogProps> = ({ duplicates, onSkip, onReplace, onUploadAnyway }) => {
+  const count = duplicates.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div
+        role="dialog"
+        aria-labelledby="duplicate-files-title"
+        className="bg-white rounded-xl max-w-lg w-full p-6 shadow-2xl"
+      >
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="bg-orange-100 p-2 rounded-lg">
+            <Copy className="w-5 h-5 text-orange-600" />
+          </div>
+          <h3 id="duplicate-files-title" className="text-lg font-semibold text-gray-900">
+            {count === 1 ? 'This file was uploaded before' : `${count} files were uploaded before`}
+          </h3>
+        </div>
+
+        <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg mb-4">
+          {duplicates.map((duplicate) => (
+            <li key={duplicate.contentHash + duplicate.file.name} className="px-3 py-2">
+              <p className="text-sm font-medium text-gray-900 truncate">{duplicate.file.name}</p>
+              <p className="text-xs text-gray-500">{describePrevious(duplicate)}</p>
+            </li>
+          ))}
+        </ul>
+
+        <p className="text-sm text-gray-600 mb-6">
+          Uploading the same CV again creates a second candidate record. Replacing removes the earlier
+          upload from your history first.
+        </p>
+
+        <div className="flex flex-wrap justify-end gap-3">
+          <button
+            onClick={onUploadAnyway}
+            className="px-4 py-2 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors font-medium"
+          >
+            Upload anyway
+          </button>
+          <button
+            onClick={onReplace}
+            className="px-4 py-2 text-sm text-orange-700 bg-orange-50 border border-orange-200 hover:bg-orange-100 rounded-lg transition-colors font-medium"
+          >
+            Replace
+          </button>
+          <button
+            onClick={onSkip}
+            autoFocus
+            className="px-4 py-2 text-sm text-white font-medium bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            Skip {count === 1 ? 'it' : 'them'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateFilesDialog;
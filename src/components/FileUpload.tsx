@@ -1,136 +1,132 @@
-import React, { useCallback, useState } from 'react';
-import { Upload, File, X, CheckCircle, AlertCircle } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Upload, Search, FolderOpen } from 'lucide-react';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import UploadListItem from './UploadListItem';
+import UploadSummaryBar from './UploadSummaryBar';
+import DuplicateFilesDialog from './DuplicateFilesDialog';
+import UploadSourceSummary from './UploadSourceSummary';
+import { useNotifications } from '../hooks/useNotifications';
+import { getErrorMessage } from '../services/api';
+import { checkUploadHistory, type DuplicateFile } from '../services/duplicates';
+import { expandFiles, fromDataTransfer, fromFileList, type PickedFile, type SourceSummary } from '../services/fileSources';
+import {
+  ACCEPT_ATTRIBUTE,
+  ARCHIVE_FORMATS_LABEL,
+  groupRejections,
+  MAX_FILE_SIZE,
+  REJECTION_LABELS,
+  type RejectionReason,
+  SUPPORTED_FORMATS_LABEL,
+} from '../services/fileFormats';
+import type { UploadItem } from '../services/uploadQueue';
 
-interface UploadedFile {
-  id: string;
-  file: File;
-  status: 'uploading' | 'success' | 'error';
-  progress: number;
-  parsedData?: any;
-  errorMessage?: string;
-}
+type StatusFilter = 'all' | 'success' | 'error' | 'active' | 'cancelled';
+type DateFilter = 'today' | 'week' | 'all';
 
-const BACKEND_URL = 'https://cv-parser-backend-q0mn.onrender.com';
-
-const FileUpload: React.FC = () => {
-  const [files, setFiles] = useState<UploadedFile[]>([]);
-  const [isDragOver, setIsDragOver] = useState(false);
-
-  const acceptedTypes = ['.pdf', '.doc', '.docx'];
-  const maxFileSize = 10 * 1024 * 1024; // 10MB
+const matchesStatus = (item: UploadItem, filter: StatusFilter) => {
+  switch (filter) {
+    case 'all':
+      return true;
+    case 'active':
+      return item.status !== 'success' && item.status !== 'error' && item.status !== 'cancelled';
+    default:
+      return item.status === filter;
+  }
+};
 
-  const validateFile = (file: File): boolean => {
-    const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
-    if (!acceptedTypes.includes(fileExtension)) {
-      alert(`File type not supported. Please upload ${acceptedTypes.join(', ')} files only.`);
-      return false;
-    }
-    if (file.size > maxFileSize) {
-      alert('File size too large. Please upload files smaller than 10MB.');
-      return false;
-    }
-    return true;
-  };
+const dateCutoff = (filter: DateFilter) => {
+  if (filter === 'all') return 0;
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  if (filter === 'week') start.setDate(start.getDate() - 6);
+  return start.getTime();
+};
 
-  const uploadToBackend = async (fileId: string, file: File) => {
-    try {
-      const formData = new FormData();
-      formData.append('file', file); // rename to "file", matching FastAPI parameter
+const matchesQuery = (item: UploadItem, query: string) => {
+  if (!query) return true;
+  const { name = '', email = '' } = item.parsedData ?? {};
+  return [item.file.name, name, email].some((value) => value.toLowerCase().includes(query));
+};
 
-      const xhr = new XMLHttpRequest();
+const FileUpload: React.FC = () => {
+  const { items: files, summary, queue } = useUploadQueue();
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [dateFilter, setDateFilter] = useState<DateFilter>('all');
+  const [query, setQuery] = useState('');
+  const [pendingDuplicates, setPendingDuplicates] = useState<DuplicateFile[]>([]);
+  const [sourceSummaries, setSourceSummaries] = useState<SourceSummary[]>([]);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const { notify } = useNotifications();
 
-      xhr.upload.addEventListener('progress', (event) => {
-        if (event.lengthComputable) {
-          const progress = (event.loaded / event.total) * 100;
-          setFiles(prev => prev.map(f =>
-            f.id === fileId ? { ...f, progress } : f
-          ));
-        }
-      });
+  // Not a standard React attribute, so it's set on the element directly
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
 
-      xhr.addEventListener('load', () => {
-        if (xhr.status === 200) {
-          try {
-            const response = JSON.parse(xhr.responseText);
-            setFiles(prev => prev.map(f =>
-              f.id === fileId ? {
-                ...f,
-                status: 'success',
-                progress: 100,
-                parsedData: response // directly JSON object
-              } : f
-            ));
-          } catch {
-            setFiles(prev => prev.map(f =>
-              f.id === fileId ? {
-                ...f,
-                status: 'error',
-                errorMessage: 'Failed to parse server response'
-              } : f
-            ));
-          }
-        } else {
-          setFiles(prev => prev.map(f =>
-            f.id === fileId ? {
-              ...f,
-              status: 'error',
-              errorMessage: `Upload failed: ${xhr.statusText}`
-            } : f
-          ));
-        }
-      });
+  const visibleFiles = useMemo(() => {
+    const cutoff = dateCutoff(dateFilter);
+    const normalizedQuery = query.trim().toLowerCase();
+    // Newest first, so today's uploads sit on top of older history
+    return files
+      .filter((item) => item.createdAt >= cutoff && matchesStatus(item, statusFilter) && matchesQuery(item, normalizedQuery))
+      .reverse();
+  }, [files, statusFilter, dateFilter, query]);
 
-      xhr.addEventListener('error', () => {
-        setFiles(prev => prev.map(f =>
-          f.id === fileId ? {
-            ...f,
-            status: 'error',
-            errorMessage: 'Network error occurred'
-          } : f
-        ));
-      });
+  // e.g. a folder the browser can't read, a file deleted after it was picked, or a corrupt ZIP
+  const reportReadError = (err: unknown) =>
+    notify({ type: 'error', message: getErrorMessage(err, 'The selected files could not be read. Please try again.') });
 
-      xhr.open(
-        "POST",
-        `${BACKEND_URL}/parse_resume/`
-      );
-      xhr.send(formData);
+  const handleFiles = async (picked: PickedFile[]) => {
+    try {
+      const { resumes: validFiles, rejected, sources } = await expandFiles(picked);
+      if (sources.length > 0) {
+        setSourceSummaries((prev) => [...sources, ...prev]);
+      }
 
-    } catch {
-      setFiles(prev => prev.map(f =>
-        f.id === fileId ? {
-          ...f,
-          status: 'error',
-          errorMessage: 'Upload failed'
-        } : f
-      ));
+      const { fresh, duplicates, repeated } = await checkUploadHistory(validFiles, queue.getItems());
+      reportRejections([
+        ...rejected.map(({ file, reason }) => ({ name: file.name, reason })),
+        ...repeated.map((file) => ({ name: file.name, reason: 'duplicate' as const })),
+      ]);
+      if (fresh.length > 0) {
+        queue.add(fresh.map((entry) => entry.file), fresh.map((entry) => entry.contentHash));
+      }
+      if (duplicates.length > 0) {
+        setPendingDuplicates((prev) => [...prev, ...duplicates]);
+      }
+    } catch (err) {
+      reportReadError(err);
     }
   };
 
+  // One report per selection instead of one message per file
+  const reportRejections = (rejected: Array<{ name: string; reason: RejectionReason }>) => {
+    if (rejected.length === 0) return;
+    const groups = groupRejections(rejected);
+    notify({
+      type: 'warning',
+      title: rejected.length === 1 ? '1 file was not added' : `${rejected.length} files were not added`,
+      message: `Only ${SUPPORTED_FORMATS_LABEL} files up to ${MAX_FILE_SIZE / 1024 / 1024}MB can be uploaded.`,
+      details: groups.map(({ reason, names }) => `${REJECTION_LABELS[reason]} (${names.length}): ${names.join(', ')}`),
+    });
+  };
 
-  const handleFiles = (fileList: FileList) => {
-    const validFiles = Array.from(fileList).filter(validateFile);
-    
-    const newFiles: UploadedFile[] = validFiles.map(file => ({
-      id: Date.now() + Math.random().toString(),
-      file,
-      status: 'uploading',
-      progress: 0
-    }));
-
-    setFiles(prev => [...prev, ...newFiles]);
+  const addDuplicates = (duplicates: DuplicateFile[]) => {
+    queue.add(duplicates.map((entry) => entry.file), duplicates.map((entry) => entry.contentHash));
+    setPendingDuplicates([]);
+  };
 
-    // Upload each file to backend
-    newFiles.forEach(uploadedFile => {
-      uploadToBackend(uploadedFile.id, uploadedFile.file);
-    });
+  const replaceDuplicates = () => {
+    pendingDuplicates.forEach((entry) => entry.previous.forEach((item) => queue.remove(item.id)));
+    addDuplicates(pendingDuplicates);
   };
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
-    handleFiles(e.dataTransfer.files);
-  }, []);
+    fromDataTransfer(e.dataTransfer).then(handleFiles, reportReadError);
+  };
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -144,20 +140,10 @@ const FileUpload: React.FC = () => {
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      handleFiles(e.target.files);
+      handleFiles(fromFileList(e.target.files));
     }
-  };
-
-  const removeFile = (id: string) => {
-    setFiles(prev => prev.filter(f => f.id !== id));
-  };
-
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+    // Allow picking the same file again after removing it
+    e.target.value = '';
   };
 
   return (
@@ -176,7 +162,7 @@ const FileUpload: React.FC = () => {
         <input
           type="file"
           multiple
-          accept={acceptedTypes.join(',')}
+          accept={ACCEPT_ATTRIBUTE}
           onChange={handleFileInput}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
         />
@@ -198,115 +184,90 @@ const FileUpload: React.FC = () => {
           </div>
           
           <div className="text-sm text-gray-500">
-            <p>Supported formats: PDF, DOC, DOCX</p>
-            <p>Maximum file size: 10MB</p>
+            <p>Supported formats: {SUPPORTED_FORMATS_LABEL}, or a {ARCHIVE_FORMATS_LABEL} of them</p>
+            <p>Maximum file size: {MAX_FILE_SIZE / 1024 / 1024}MB</p>
           </div>
         </div>
       </div>
 
+      <div className="mt-3 text-center text-sm text-gray-600">
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          onChange={handleFileInput}
+          className="hidden"
+        />
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-800 font-medium"
+        >
+          <FolderOpen className="w-4 h-4" />
+          <span>Upload a whole folder</span>
+        </button>
+      </div>
+
+      {sourceSummaries.length > 0 && (
+        <UploadSourceSummary summaries={sourceSummaries} onDismiss={() => setSourceSummaries([])} />
+      )}
+
+      {pendingDuplicates.length > 0 && (
+        <DuplicateFilesDialog
+          duplicates={pendingDuplicates}
+          onSkip={() => setPendingDuplicates([])}
+          onReplace={replaceDuplicates}
+          onUploadAnyway={() => addDuplicates(pendingDuplicates)}
+        />
+      )}
+
       {/* File List */}
       {files.length > 0 && (
         <div className="mt-8 space-y-4">
-          <h4 className="text-lg font-semibold text-gray-900">Uploaded Files</h4>
-          
-          <div className="space-y-3">
-            {files.map((uploadedFile) => (
-              <div
-                key={uploadedFile.id}
-                className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm hover:shadow-md transition-shadow"
-              >
-                <div className="flex items-center justify-between mb-3">
-                  <div className="flex items-center space-x-3 flex-1 min-w-0">
-                    <div className={`p-2 rounded-lg ${
-                      uploadedFile.status === 'success' ? 'bg-green-100' :
-                      uploadedFile.status === 'error' ? 'bg-red-100' : 'bg-blue-100'
-                    }`}>
-                      {uploadedFile.status === 'success' ? (
-                        <CheckCircle className="w-5 h-5 text-green-600" />
-                      ) : uploadedFile.status === 'error' ? (
-                        <AlertCircle className="w-5 h-5 text-red-600" />
-                      ) : (
-                        <File className="w-5 h-5 text-blue-600" />
-                      )}
-                    </div>
-                    
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium text-gray-900 truncate">
-                        {uploadedFile.file.name}
-                      </p>
-                      <p className="text-xs text-gray-500">
-                        {formatFileSize(uploadedFile.file.size)}
-                      </p>
-                    </div>
-                  </div>
-                  
-                  <div className="flex items-center space-x-3">
-                    {uploadedFile.status === 'uploading' && (
-                      <div className="flex items-center space-x-2">
-                        <div className="w-24 bg-gray-200 rounded-full h-2">
-                          <div
-                            className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                            style={{ width: `${uploadedFile.progress}%` }}
-                          />
-                        </div>
-                        <span className="text-xs text-gray-500 w-10">
-                          {Math.round(uploadedFile.progress)}%
-                        </span>
-                      </div>
-                    )}
-                    
-                    {uploadedFile.status === 'success' && (
-                      <span className="text-xs text-green-600 font-medium">Parsed</span>
-                    )}
-                    
-                    {uploadedFile.status === 'error' && (
-                      <span className="text-xs text-red-600 font-medium">Failed</span>
-                    )}
-                    
-                    <button
-                      onClick={() => removeFile(uploadedFile.id)}
-                      className="p-1 text-gray-400 hover:text-red-500 transition-colors"
-                    >
-                      <X className="w-4 h-4" />
-                    </button>
-                  </div>
-                </div>
+          <h4 className="text-lg font-semibold text-gray-900">Upload History</h4>
 
-                {/* Show parsed data for successful uploads */}
-                {uploadedFile.status === 'success' && uploadedFile.parsedData && (
-                  <div className="mt-3 p-3 bg-green-50 rounded-lg border border-green-200">
-                    <h5 className="text-sm font-medium text-green-800 mb-2">Parsed Information:</h5>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
-                      <div><span className="font-medium">Name:</span> {uploadedFile.parsedData.name}</div>
-                      <div><span className="font-medium">Email:</span> {uploadedFile.parsedData.email}</div>
-                      <div><span className="font-medium">Phone:</span> {uploadedFile.parsedData.phone}</div>
-                      <div><span className="font-medium">Job Title:</span> {uploadedFile.parsedData.job_title}</div>
-                    </div>
-                    {uploadedFile.parsedData.skills && (
-                      <div className="mt-2">
-                        <span className="font-medium text-xs">Skills:</span>
-                        <p className="text-xs text-gray-600 mt-1">{uploadedFile.parsedData.skills}</p>
-                      </div>
-                    )}
-                    {uploadedFile.parsedData.experience && (
-                      <div className="mt-2">
-                        <span className="font-medium text-xs">Experience:</span>
-                        <p className="text-xs text-gray-600 mt-1">{uploadedFile.parsedData.experience}</p>
-                      </div>
-                    )}
-                  </div>
-                )}
+          <UploadSummaryBar summary={summary} queue={queue} />
 
-                {/* Show error message for failed uploads */}
-                {uploadedFile.status === 'error' && uploadedFile.errorMessage && (
-                  <div className="mt-3 p-3 bg-red-50 rounded-lg border border-red-200">
-                    <p className="text-sm text-red-800">
-                      <span className="font-medium">Error:</span> {uploadedFile.errorMessage}
-                    </p>
-                  </div>
-                )}
-              </div>
+          {/* History filters */}
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="relative flex-1 min-w-[200px]">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search by file name, candidate or email..."
+                className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              />
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="all">All statuses</option>
+              <option value="success">Parsed</option>
+              <option value="error">Failed</option>
+              <option value="active">In progress / paused</option>
+              <option value="cancelled">Cancelled</option>
+            </select>
+            <select
+              value={dateFilter}
+              onChange={(e) => setDateFilter(e.target.value as DateFilter)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="today">Today</option>
+              <option value="week">Last 7 days</option>
+              <option value="all">All time</option>
+            </select>
+          </div>
+
+          <div className="space-y-3">
+            {visibleFiles.map((uploadedFile) => (
+              <UploadListItem key={uploadedFile.id} item={uploadedFile} queue={queue} />
             ))}
+            {visibleFiles.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-6">No uploads match these filters.</p>
+            )}
           </div>
         </div>
       )}
@@ -314,4 +275,4 @@ const FileUpload: React.FC = () => {
   );
 };
 
-export default FileUpload;
\ No newline at end of file
+export default FileUpload;
@@ -1,6 +1,16 @@
 import React from "react";
-import { Users, LogOut, Search } from "lucide-react";
+import { NavLink, Link } from "react-router-dom";
+import { Users, LogOut, Search, Upload, List, Settings } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
+import { config } from "../config";
+import { ROLE_LABELS, rolesOf } from "../services/permissions";
+
+const navItems = [
+  { to: "/upload", label: "Upload Resumes", icon: Upload },
+  { to: "/search", label: "Search Candidates", icon: Search },
+  { to: "/lists", label: "Lists", icon: List },
+  { to: "/settings", label: "Settings", icon: Settings },
+];
 
 const Header: React.FC = () => {
   const { logout, user } = useAuth();
@@ -14,12 +24,8 @@ const Header: React.FC = () => {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center py-6">
           <div className="flex items-center space-x-3">
-            <a 
-              href="#"
-              onClick={(e) => {
-                e.preventDefault();
-                window.location.hash = "upload";
-              }} 
+            <Link
+              to="/upload"
               className="flex items-center space-x-3 cursor-pointer">
               <div className="bg-blue-600 p-2 rounded-lg">
                 <Users className="w-6 h-6 text-white" />
@@ -30,25 +36,26 @@ const Header: React.FC = () => {
                   Candidate Management System
                 </p>
               </div>
-            </a>
+            </Link>
           </div>
 
-          <nav className="hidden md:flex items-center space-x-8">
-            <a
-              href="#"
-              onClick={(e) => {
-                e.preventDefault();
-                window.location.hash = "search";
-              }}
-              className={`font-medium flex items-center space-x-1 transition-colors ${
-                window.location.hash === "#search"
-                  ? "text-blue-800"
-                  : "text-gray-600 hover:text-gray-900"
-              }`}
-            >
-              <Search className="w-4 h-4" />
-              <span>Search Candidates</span>
-            </a>
+          <nav className="hidden md:flex items-center space-x-6">
+            {navItems.map(({ to, label, icon: Icon }) => (
+              <NavLink
+                key={to}
+                to={to}
+                className={({ isActive }) =>
+                  `font-medium flex items-center space-x-1 transition-colors ${
+                    isActive
+                      ? "text-blue-800"
+                      : "text-gray-600 hover:text-gray-900"
+                  }`
+                }
+              >
+                <Icon className="w-4 h-4" />
+                <span>{label}</span>
+              </NavLink>
+            ))}
             {/* <a
               href="#"
               className="text-gray-600 hover:text-gray-900 transition-colors"
@@ -77,11 +84,27 @@ const Header: React.FC = () => {
           </nav>
 
           <div className="flex items-center space-x-4">
+            {config.mockBackend && (
+              <span
+                className="px-2 py-1 text-xs font-medium rounded-full bg-amber-100 text-amber-800"
+                title="API calls are served from built-in demo data"
+              >
+                Mock backend
+              </span>
+            )}
             <div className="hidden md:block">
               <span className="text-sm text-gray-600">Welcome, </span>
               <span className="text-sm font-medium text-gray-900">
                 {user?.username}
               </span>
+              {rolesOf(user).map((role) => (
+                <span
+                  key={role}
+                  className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700"
+                >
+                  {ROLE_LABELS[role]}
+                </span>
+              ))}
             </div>
             <button
               onClick={handleLogout}
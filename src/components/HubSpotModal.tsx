@@ -1,10 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { X, Loader2 } from 'lucide-react';
-
-interface HubSpotList {
-  listId: string;
-  name: string;
-}
+import type { HubSpotList } from '../types/api';
 
 interface HubSpotModalProps {
   mode: 'create' | 'existing';
@@ -0,0 +1,439 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, Briefcase, Check, Loader2, Plus, Search, Upload, Users, Wand2, X } from 'lucide-react';
+import SearchTabs from './SearchTabs';
+import { getErrorMessage } from '../services/api';
+import { rememberCandidates } from '../services/candidateCache';
+import { extractDocumentText, TEXT_DOCUMENT_ACCEPT } from '../services/documentText';
+import {
+  MAX_JOB_CANDIDATES,
+  findJobMatches,
+  loadJobMatchDraft,
+  saveJobMatchDraft,
+  type JobMatchResults,
+} from '../services/jobMatch';
+import { loadSearchHistory } from '../services/searchHistory';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotifications } from '../hooks/useNotifications';
+import { useSkillTaxonomy } from '../hooks/useSkillTaxonomy';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import {
+  COMMON_SKILLS,
+  EMPTY_REQUIREMENTS,
+  SENIORITY_LEVELS,
+  extractJobRequirements,
+  type JobRequirements,
+  type Seniority,
+} from '../utils/jobDescription';
+
+type SkillKind = 'required' | 'niceToHave';
+
+const SKILL_LISTS: Array<{ kind: SkillKind; label: string; hint: string }> = [
+  { kind: 'required', label: 'Required skills', hint: 'Weigh three times as much as nice-to-have ones' },
+  { kind: 'niceToHave', label: 'Nice to have', hint: 'Raise the score, but are not expected' },
+];
+
+// Rows must be exactly this tall for the virtualized list to line up
+const ROW_HEIGHT = 96;
+
+// The requirements a ranking was computed for, which may since have been edited
+interface Ranking extends JobMatchResults {
+  requirements: JobRequirements;
+}
+
+const scoreColor = (score: number) => (score >= 75 ? 'bg-green-500' : score >= 40 ? 'bg-yellow-500' : 'bg-gray-400');
+
+const JobMatchPage: React.FC = () => {
+  const { user } = useAuth();
+  const owner = user?.username;
+  const { notify } = useNotifications();
+  const taxonomy = useSkillTaxonomy();
+
+  const [draft] = useState(() => (owner ? loadJobMatchDraft(owner) : null));
+  const [description, setDescription] = useState(draft?.description ?? '');
+  const [requirements, setRequirements] = useState<JobRequirements>(draft?.requirements ?? EMPTY_REQUIREMENTS);
+  const [newSkills, setNewSkills] = useState<Record<SkillKind, string>>({ required: '', niceToHave: '' });
+  const [isReading, setIsReading] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasSearched, setHasSearched] = useState(false);
+  const [error, setError] = useState('');
+  const [ranking, setRanking] = useState<Ranking | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const hasRequirements =
+    requirements.title.trim() !== '' || requirements.required.length > 0 || requirements.niceToHave.length > 0;
+
+  const matches = ranking?.matches ?? [];
+  const virtualRows = useVirtualRows({ count: matches.length, rowHeight: ROW_HEIGHT });
+
+  useEffect(() => {
+    if (owner) saveJobMatchDraft(owner, { description, requirements, searched: hasSearched });
+  }, [owner, description, requirements, hasSearched]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const findCandidates = useCallback(
+    async (job: JobRequirements) => {
+      if (!owner) return;
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      setIsLoading(true);
+      setError('');
+      setHasSearched(true);
+      try {
+        const found = await findJobMatches(job, controller.signal);
+        if (controller.signal.aborted) return;
+        setRanking({ ...found, requirements: job });
+        rememberCandidates(found.matches.map((match) => match.result));
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(getErrorMessage(err, 'Search failed. Please try again.'));
+        setRanking(null);
+      } finally {
+        if (abortRef.current === controller) setIsLoading(false);
+      }
+    },
+    [owner]
+  );
+
+  // Coming back from a candidate's page shows the same ranking again
+  useEffect(() => {
+    if (draft?.searched && owner) findCandidates(draft.requirements);
+  }, [draft, owner, findCandidates]);
+
+  const handleExtract = (text = description) => {
+    // Skills seen in earlier results are recognised too, not just the common ones
+    const seen = owner ? loadSearchHistory(owner).skills.map((skill) => skill.value) : [];
+    const extracted = extractJobRequirements(text, taxonomy, [...COMMON_SKILLS, ...seen]);
+    setRequirements(extracted);
+    if (extracted.required.length === 0 && extracted.niceToHave.length === 0) {
+      notify({ type: 'warning', message: 'No known skills found in the job description. Add them below.' });
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const text = await extractDocumentText(file);
+      setDescription(text);
+      handleExtract(text);
+    } catch (err) {
+      notify({ type: 'error', message: getErrorMessage(err, `Could not read ${file.name}`) });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const addSkill = (kind: SkillKind) => {
+    const skill = newSkills[kind].trim();
+    if (!skill) return;
+    setRequirements((current) => {
+      const other: SkillKind = kind === 'required' ? 'niceToHave' : 'required';
+      const has = (list: string[]) => list.some((value) => value.toLowerCase() === skill.toLowerCase());
+      return has(current[kind])
+        ? current
+        : // Listed once: adding a nice-to-have skill as required moves it
+          { ...current, [kind]: [...current[kind], skill], [other]: current[other].filter((value) => !has([value])) };
+    });
+    setNewSkills((current) => ({ ...current, [kind]: '' }));
+  };
+
+  const removeSkill = (kind: SkillKind, skill: string) =>
+    setRequirements((current) => ({ ...current, [kind]: current[kind].filter((value) => value !== skill) }));
+
+  const handleSeniorityChange = (value: string) => {
+    const level = SENIORITY_LEVELS.find((candidate) => candidate.id === value);
+    setRequirements((current) => ({ ...current, seniority: level?.id as Seniority | undefined, minYears: level?.minYears }));
+  };
+
+  const handleMinYearsChange = (value: string) =>
+    setRequirements((current) => ({ ...current, minYears: value === '' ? undefined : Math.max(0, Number(value)) }));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <div className="flex items-center space-x-3 mb-4">
+            <div className="bg-blue-600 p-2 rounded-lg">
+              <Search className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-3xl font-bold text-gray-900">Search Candidates</h2>
+              <p className="text-gray-600 mt-1">
+                Paste a job description to rank candidates by the skills it asks for
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <SearchTabs />
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+          {/* Job description */}
+          <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm flex flex-col">
+            <div className="flex items-center justify-between mb-3">
+              <label htmlFor="job-description" className="text-sm font-medium text-gray-700">
+                Job description
+              </label>
+              <label className="inline-flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                {isReading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                <span>Upload file</span>
+                <input
+                  type="file"
+                  accept={TEXT_DOCUMENT_ACCEPT}
+                  onChange={handleFile}
+                  disabled={isReading}
+                  className="hidden"
+                />
+              </label>
+            </div>
+            <textarea
+              id="job-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={14}
+              placeholder="Paste the job description here, or upload it as a TXT, Markdown, PDF, DOCX or HTML file..."
+              className="flex-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              onClick={() => handleExtract()}
+              disabled={!description.trim() || isReading}
+              className="mt-4 inline-flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Wand2 className="w-4 h-4" />
+              <span>Extract requirements</span>
+            </button>
+          </div>
+
+          {/* Requirements */}
+          <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+            <h3 className="text-sm font-medium text-gray-700 mb-3">Requirements</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+              <label className="sm:col-span-3 text-xs text-gray-500">
+                Job title
+                <input
+                  type="text"
+                  value={requirements.title}
+                  onChange={(e) => setRequirements((current) => ({ ...current, title: e.target.value }))}
+                  placeholder="e.g. Frontend Developer"
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </label>
+              <label className="sm:col-span-2 text-xs text-gray-500">
+                Seniority
+                <select
+                  value={requirements.seniority ?? ''}
+                  onChange={(e) => handleSeniorityChange(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Any</option>
+                  {SENIORITY_LEVELS.map((level) => (
+                    <option key={level.id} value={level.id}>
+                      {level.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs text-gray-500">
+                Min. years
+                <input
+                  type="number"
+                  min={0}
+                  value={requirements.minYears ?? ''}
+                  onChange={(e) => handleMinYearsChange(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </label>
+            </div>
+
+            {SKILL_LISTS.map(({ kind, label, hint }) => (
+              <div key={kind} className="mb-4">
+                <p className="text-xs text-gray-500 mb-2">
+                  <span className="font-medium text-gray-700">{label}</span> · {hint}
+                </p>
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {requirements[kind].length === 0 && <span className="text-sm text-gray-400">None</span>}
+                  {requirements[kind].map((skill) => (
+                    <span
+                      key={skill}
+                      className={`inline-flex items-center px-2.5 py-1 rounded-full text-sm ${
+                        kind === 'required' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {skill}
+                      <button
+                        onClick={() => removeSkill(kind, skill)}
+                        className="ml-1 hover:text-red-600"
+                        aria-label={`Remove ${skill}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    addSkill(kind);
+                  }}
+                  className="flex space-x-2"
+                >
+                  <input
+                    type="text"
+                    value={newSkills[kind]}
+                    onChange={(e) => setNewSkills((current) => ({ ...current, [kind]: e.target.value }))}
+                    placeholder="Add a skill..."
+                    className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!newSkills[kind].trim()}
+                    className="inline-flex items-center px-3 py-1.5 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </form>
+              </div>
+            ))}
+
+            <button
+              onClick={() => findCandidates(requirements)}
+              disabled={!hasRequirements || isLoading}
+              className="w-full inline-flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Users className="w-4 h-4" />}
+              <span>Find candidates</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Ranked candidates */}
+        {error && (
+          <div className="mb-6 flex items-center space-x-2 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {hasSearched && !error && (
+          <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center space-x-2">
+              <Briefcase className="w-5 h-5 text-gray-500" />
+              <h3 className="text-lg font-semibold text-gray-900">
+                {isLoading ? 'Matching candidates...' : `${matches.length} candidate${matches.length === 1 ? '' : 's'} ranked`}
+              </h3>
+            </div>
+
+            {!isLoading && ranking?.truncated && (
+              <p className="px-6 py-2 text-sm text-amber-700 bg-amber-50 border-b border-amber-100">
+                Only the first {MAX_JOB_CANDIDATES} candidates found are ranked, those with every required skill first.
+                Add required skills to narrow the search.
+              </p>
+            )}
+
+            {!isLoading && ranking && matches.length === 0 && (
+              <p className="px-6 py-12 text-center text-gray-500">
+                No candidates have any of the skills or the job title. Try fewer or more common skills.
+              </p>
+            )}
+
+            {!isLoading && ranking && matches.length > 0 && (
+              <ul ref={virtualRows.ref} onScroll={virtualRows.onScroll} className="overflow-auto max-h-[70vh] divide-y divide-gray-200">
+                {virtualRows.paddingTop > 0 && <li aria-hidden style={{ height: virtualRows.paddingTop }} />}
+                {matches.slice(virtualRows.start, virtualRows.end).map((match) => {
+                  const covered = [...match.covered.required, ...match.covered.niceToHave];
+                  const missing = [...match.missing.required, ...match.missing.niceToHave];
+                  return (
+                    <li
+                      key={match.result.contact_id}
+                      style={{ height: ROW_HEIGHT }}
+                      className="px-6 py-3 flex items-start gap-4 overflow-hidden"
+                    >
+                      <div className="w-64 flex-shrink-0 min-w-0">
+                        <Link
+                          to={`/candidates/${match.result.contact_id}`}
+                          className="block truncate font-medium text-blue-600 hover:text-blue-800"
+                        >
+                          {match.result.name}
+                        </Link>
+                        <p className="truncate text-sm text-gray-600">
+                          {match.result.job_title}
+                          {match.titleMatch && <Check className="inline w-4 h-4 ml-1 text-green-600" aria-label="Title matches" />}
+                        </p>
+                        {match.result.years_of_experience !== undefined && (
+                          <p className={`text-xs ${match.seniorityMatch === false ? 'text-red-600' : 'text-gray-500'}`}>
+                            {match.result.years_of_experience} years of experience
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="w-40 flex-shrink-0">
+                        <div className="flex items-center justify-between text-sm mb-1">
+                          <span className="text-gray-500">Match</span>
+                          <span className="font-semibold text-gray-900">{match.score}%</span>
+                        </div>
+                        <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                          <div className={`h-full ${scoreColor(match.score)}`} style={{ width: `${match.score}%` }} />
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {match.covered.required.length} of {ranking.requirements.required.length} required
+                        </p>
+                      </div>
+
+                      {/* One line each, so every row has the same height */}
+                      <div className="flex-1 min-w-0 space-y-1.5">
+                        <div className="flex gap-1.5 overflow-hidden" title={covered.length > 0 ? `Has ${covered.join(', ')}` : undefined}>
+                          {match.covered.required.map((skill) => (
+                            <span key={`covered-${skill}`} className="flex-shrink-0 px-2 py-0.5 rounded text-xs bg-green-100 text-green-800">
+                              {skill}
+                            </span>
+                          ))}
+                          {match.covered.niceToHave.map((skill) => (
+                            <span
+                              key={`bonus-${skill}`}
+                              className="flex-shrink-0 px-2 py-0.5 rounded text-xs bg-green-50 text-green-700 border border-green-200"
+                            >
+                              {skill}
+                            </span>
+                          ))}
+                        </div>
+                        <div className="flex gap-1.5 overflow-hidden" title={missing.length > 0 ? `Missing ${missing.join(', ')}` : undefined}>
+                          {match.missing.required.map((skill) => (
+                            <span
+                              key={`missing-${skill}`}
+                              className="flex-shrink-0 px-2 py-0.5 rounded text-xs bg-red-50 text-red-700 line-through"
+                              title="Required, not found"
+                            >
+                              {skill}
+                            </span>
+                          ))}
+                          {match.missing.niceToHave.map((skill) => (
+                            <span
+                              key={`lacking-${skill}`}
+                              className="flex-shrink-0 px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-500 line-through"
+                              title="Nice to have, not found"
+                            >
+                              {skill}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    </li>
+                  );
+                })}
+                {virtualRows.paddingBottom > 0 && <li aria-hidden style={{ height: virtualRows.paddingBottom }} />}
+              </ul>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default JobMatchPage;
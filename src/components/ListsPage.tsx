@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, List, Loader2, Plus, RefreshCw } from 'lucide-react';
+import { createHubSpotList, getErrorMessage, searchHubSpotLists } from '../services/api';
+import { usePermission } from '../hooks/usePermission';
+import { useNotifications } from '../hooks/useNotifications';
+import type { HubSpotList } from '../types/api';
+
+const ListsPage: React.FC = () => {
+  const canCreateLists = usePermission('hubspot:create_lists');
+  const { notify } = useNotifications();
+  const [lists, setLists] = useState<HubSpotList[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [newListName, setNewListName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadLists = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const data = await searchHubSpotLists();
+      setLists(data.lists || []);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load HubSpot lists'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLists();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newListName.trim();
+    if (!name) return;
+
+    if (lists.some((list) => list.name.toLowerCase() === name.toLowerCase())) {
+      setError('A list with this name already exists. Please choose a unique name.');
+      return;
+    }
+
+    setIsCreating(true);
+    setError('');
+    try {
+      await createHubSpotList({ name });
+      notify({ type: 'success', message: `Created list "${name}"` });
+      setNewListName('');
+      await loadLists();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create list'));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">HubSpot Lists</h2>
+          <p className="text-gray-600 mt-2">Lists you can add candidates to from the search results.</p>
+        </div>
+        <button
+          onClick={loadLists}
+          disabled={isLoading}
+          className="inline-flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      {canCreateLists && (
+        <form onSubmit={handleCreate} className="mb-6 flex space-x-3">
+          <input
+            type="text"
+            value={newListName}
+            onChange={(e) => setNewListName(e.target.value)}
+            placeholder="New list name..."
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            disabled={isCreating}
+          />
+          <button
+            type="submit"
+            disabled={isCreating || !newListName.trim()}
+            className="inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium px-4 py-2 rounded-lg transition-colors disabled:cursor-not-allowed"
+          >
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            <span>Create List</span>
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <div className="mb-6 flex items-center space-x-2 text-red-600 bg-red-50 p-3 rounded-lg border border-red-200">
+          <AlertCircle className="h-5 w-5 flex-shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm divide-y divide-gray-100">
+        {isLoading && lists.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            <span className="ml-2 text-sm text-gray-600">Loading lists...</span>
+          </div>
+        ) : lists.length === 0 ? (
+          <div className="p-8 text-center text-sm text-gray-500">No lists found</div>
+        ) : (
+          lists.map((list) => (
+            <div key={list.listId} className="flex items-center justify-between px-6 py-4">
+              <div className="flex items-center space-x-3">
+                <List className="w-4 h-4 text-gray-400" />
+                <span className="text-sm font-medium text-gray-900">{list.name}</span>
+              </div>
+              <span className="text-xs text-gray-500">ID: {list.listId}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default ListsPage;
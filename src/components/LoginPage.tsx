@@ -1,6 +1,14 @@
 import React, { useState } from "react";
-import { Lock, User, Eye, EyeOff, Shield, AlertCircle } from "lucide-react";
-import { useAuth } from "../contexts/AuthContext";
+import { Lock, User, Eye, EyeOff, Shield, AlertCircle, Info } from "lucide-react";
+import { useAuth, type LogoutReason } from "../contexts/AuthContext";
+import { config } from "../config";
+import { ApiError, getErrorMessage } from "../services/api";
+
+const logoutMessages: Partial<Record<LogoutReason, string>> = {
+  idle: "You were signed out after a period of inactivity.",
+  expired: "Your session has expired. Please sign in again.",
+  "other-tab": "You were signed out in another tab.",
+};
 
 const LoginPage: React.FC = () => {
   const [username, setUsername] = useState("");
@@ -8,20 +16,22 @@ const LoginPage: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const { login } = useAuth();
+  const { login, logoutReason } = useAuth();
+  const logoutMessage = logoutReason ? logoutMessages[logoutReason] : undefined;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
     setIsLoading(true);
 
-    // Simulate loading delay for better UX
-    await new Promise((resolve) => setTimeout(resolve, 800));
-
-    const success = login(username, password);
-
-    if (!success) {
-      setError("Invalid username or password");
+    try {
+      await login(username, password);
+    } catch (err) {
+      setError(
+        err instanceof ApiError && err.status === 401
+          ? "Invalid username or password"
+          : getErrorMessage(err, "Sign in failed. Please try again.")
+      );
       setIsLoading(false);
     }
   };
@@ -43,6 +53,14 @@ const LoginPage: React.FC = () => {
         {/* Login Form */}
         <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8">
           <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Why the previous session ended */}
+            {logoutMessage && !error && (
+              <div className="flex items-center space-x-2 text-blue-700 bg-blue-50 p-3 rounded-lg border border-blue-200">
+                <Info className="h-5 w-5 flex-shrink-0" />
+                <span className="text-sm">{logoutMessage}</span>
+              </div>
+            )}
+
             {/* Username Field */}
             <div>
               <label
@@ -128,25 +146,27 @@ const LoginPage: React.FC = () => {
           </form>
 
           {/* Demo Credentials */}
-          <div className="mt-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
-            <p className="text-sm text-gray-600 mb-2 font-medium">
-              Demo Credentials:
-            </p>
-            <div className="text-sm text-gray-500 space-y-1">
-              <p>
-                <span className="font-mono bg-gray-200 px-2 py-1 rounded">
-                  Username:
-                </span>{" "}
-                Timo
-              </p>
-              <p>
-                <span className="font-mono bg-gray-200 px-2 py-1 rounded">
-                  Password:
-                </span>{" "}
-                Timo@123
+          {config.mockBackend && (
+            <div className="mt-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
+              <p className="text-sm text-gray-600 mb-2 font-medium">
+                Demo Credentials:
               </p>
+              <div className="text-sm text-gray-500 space-y-1">
+                <p>
+                  <span className="font-mono bg-gray-200 px-2 py-1 rounded">
+                    Username:
+                  </span>{" "}
+                  Timo
+                </p>
+                <p>
+                  <span className="font-mono bg-gray-200 px-2 py-1 rounded">
+                    Password:
+                  </span>{" "}
+                  Timo@123
+                </p>
+              </div>
             </div>
-          </div>
+          )}
         </div>
 
         {/* Footer */}
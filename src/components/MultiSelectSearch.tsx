@@ -1,25 +1,83 @@
-import React, { useState, KeyboardEvent, useRef } from 'react';
-import { X, Search } from 'lucide-react';
+import React, { useState, KeyboardEvent, ClipboardEvent, useRef, useEffect } from 'react';
+import { X, Search, History } from 'lucide-react';
+import { formatQuery, parseQuery, splitQueryList, type QueryNode, type QuerySyntaxError } from '../utils/searchQuery';
+import type { SuggestionSource, TermSuggestion } from '../services/searchHistory';
 
 interface MultiSelectSearchProps {
+  /**
+   * Query clauses to show as chips, e.g. from the URL. Local edits are kept
+   * until this changes. Each is a query of its own, like `(React OR Vue)`.
+   */
+  terms?: string[];
   onSearch: (terms: string[]) => void;
   onTermsChange: (terms: string[]) => void;
   isLoading?: boolean;
   placeholder?: string;
+  /** Autocomplete for what's typed; `exclude` are the chips already added. */
+  getSuggestions?: (input: string, exclude: string[]) => TermSuggestion[];
+  /** Offered under the suggestions when given, to forget the search history. */
+  onClearHistory?: () => void;
 }
 
+const sourceLabels: Record<SuggestionSource, string> = {
+  history: 'Recent',
+  skill: 'Skill',
+  title: 'Job title',
+};
+
+const clauseStyle = (query: QueryNode) => {
+  if (query.type === 'term') return query.field ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800';
+  return query.type === 'not' ? 'bg-red-100 text-red-800' : 'bg-indigo-100 text-indigo-800';
+};
+
+const chipStyle = (term: string) => {
+  const parsed = parseQuery(term);
+  return parsed.ok ? clauseStyle(parsed.query) : 'bg-blue-100 text-blue-800';
+};
+
 const MultiSelectSearch: React.FC<MultiSelectSearchProps> = ({
+  terms,
   onSearch,
   onTermsChange,
   isLoading = false,
-  placeholder = "Type keywords and press Enter to add..."
+  placeholder = "Type keywords and press Enter to add...",
+  getSuggestions,
+  onClearHistory,
 }) => {
-  const [searchTerms, setSearchTerms] = useState<string[]>([]);
+  const [searchTerms, setSearchTerms] = useState<string[]>(terms ?? []);
   const [currentInput, setCurrentInput] = useState('');
+  const [inputError, setInputError] = useState<QuerySyntaxError | null>(null);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  // Suggestion picked with the arrow keys; -1 while none is
+  const [activeIndex, setActiveIndex] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    if (terms) setSearchTerms(terms);
+  }, [terms]);
+
+  const suggestions = showSuggestions && getSuggestions ? getSuggestions(currentInput, searchTerms) : [];
+  const activeSuggestion = suggestions[activeIndex];
+
   const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setShowSuggestions(true);
+      if (suggestions.length === 0) return;
+      // Cycles through the suggestions and back to what's typed
+      const positions = suggestions.length + 1;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((current) => ((current + 1 + step + positions) % positions) - 1);
+    } else if (e.key === 'Escape' && showSuggestions) {
+      e.preventDefault();
+      setShowSuggestions(false);
+      setActiveIndex(-1);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (activeSuggestion) addClauses([activeSuggestion.clause]);
+      else addSearchTerm();
+    } else if (e.key === ',' && (currentInput.match(/"/g)?.length ?? 0) % 2 === 0) {
+      // A comma ends a keyword, unless it's inside a quoted phrase
       e.preventDefault();
       addSearchTerm();
     } else if (e.key === 'Backspace' && currentInput === '' && searchTerms.length > 0) {
@@ -28,16 +86,61 @@ const MultiSelectSearch: React.FC<MultiSelectSearchProps> = ({
     }
   };
 
-  const addSearchTerm = () => {
-    const trimmedInput = currentInput.trim();
-    if (trimmedInput && !searchTerms.includes(trimmedInput)) {
-      const newTerms = [...searchTerms, trimmedInput];
-      setSearchTerms(newTerms);
-      setCurrentInput('');
-      
-      // Notify parent of terms change but don't trigger search
-      onTermsChange(newTerms);
+  // A pasted list, e.g. a column of skills, becomes one chip per entry
+  const handlePaste = (e: ClipboardEvent<HTMLInputElement>) => {
+    const pasted = e.clipboardData.getData('text');
+    if (splitQueryList(pasted).length < 2 && !/[\r\n]/.test(pasted.trim())) return;
+    e.preventDefault();
+    const input = e.currentTarget;
+    const start = input.selectionStart ?? currentInput.length;
+    const end = input.selectionEnd ?? currentInput.length;
+    addClauses(splitQueryList(currentInput.slice(0, start) + pasted + currentInput.slice(end)));
+  };
+
+  /**
+   * Adds queries as chips and returns the chips. The first that doesn't parse
+   * is left in the input, with the ones after it, and null is returned.
+   */
+  const addClauses = (queries: string[]): string[] | null => {
+    let newTerms = searchTerms;
+    let failed: { index: number; error: QuerySyntaxError } | null = null;
+    for (const [index, query] of queries.entries()) {
+      const parsed = parseQuery(query);
+      if (!parsed.ok) {
+        failed = { index, error: parsed.error };
+        break;
+      }
+      // Stored in canonical form, so the same clause typed differently isn't added twice
+      const clause = formatQuery(parsed.query);
+      if (!newTerms.includes(clause)) newTerms = [...newTerms, clause];
     }
+
+    setSearchTerms(newTerms);
+    setCurrentInput(failed ? queries.slice(failed.index).join(', ') : '');
+    setInputError(failed ? failed.error : null);
+    setActiveIndex(-1);
+
+    // Notify parent of terms change but don't trigger search
+    onTermsChange(newTerms);
+    return failed ? null : newTerms;
+  };
+
+  /** Adds what's typed as chips; returns the chips, or null when it doesn't parse. */
+  const addSearchTerm = (): string[] | null => {
+    if (!currentInput.trim()) return searchTerms;
+    return addClauses(splitQueryList(currentInput));
+  };
+
+  const editSearchTerm = (index: number) => {
+    // Whatever was being typed is kept as a chip instead of being overwritten
+    const current = addSearchTerm();
+    if (!current) return;
+    const remaining = current.filter((term) => term !== searchTerms[index]);
+    setSearchTerms(remaining);
+    setCurrentInput(searchTerms[index]);
+    setInputError(null);
+    onTermsChange(remaining);
+    inputRef.current?.focus();
   };
 
   const removeSearchTerm = (index: number) => {
@@ -51,11 +154,14 @@ const MultiSelectSearch: React.FC<MultiSelectSearchProps> = ({
   const clearAllTerms = () => {
     setSearchTerms([]);
     setCurrentInput('');
+    setInputError(null);
     onTermsChange([]);
   };
 
+  // A query typed but not yet added with Enter is included
   const handleSearch = () => {
-    onSearch(searchTerms);
+    const terms = addSearchTerm();
+    if (terms) onSearch(terms);
   };
 
   const handleContainerClick = () => {
@@ -70,7 +176,7 @@ const MultiSelectSearch: React.FC<MultiSelectSearchProps> = ({
       
       <div
         onClick={handleContainerClick}
-        className={`min-h-[48px] w-full border border-gray-300 rounded-lg px-3 py-2 bg-white cursor-text transition-colors ${
+        className={`relative min-h-[48px] w-full border border-gray-300 rounded-lg px-3 py-2 bg-white cursor-text transition-colors ${
           isLoading ? 'opacity-50' : 'hover:border-gray-400 focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-blue-500'
         }`}
       >
@@ -78,17 +184,28 @@ const MultiSelectSearch: React.FC<MultiSelectSearchProps> = ({
           {/* Search Terms Tags */}
           {searchTerms.map((term, index) => (
             <div
-              key={index}
-              className="inline-flex items-center bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm font-medium"
+              key={term}
+              className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${chipStyle(term)}`}
             >
-              <span>{term}</span>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  editSearchTerm(index);
+                }}
+                className="hover:underline"
+                disabled={isLoading}
+                title="Edit"
+              >
+                {term}
+              </button>
               <button
                 type="button"
                 onClick={(e) => {
                   e.stopPropagation();
                   removeSearchTerm(index);
                 }}
-                className="ml-2 text-blue-600 hover:text-blue-800 transition-colors"
+                className="ml-2 opacity-70 hover:opacity-100 transition-opacity"
                 disabled={isLoading}
               >
                 <X className="w-3 h-3" />
@@ -101,9 +218,27 @@ const MultiSelectSearch: React.FC<MultiSelectSearchProps> = ({
             ref={inputRef}
             type="text"
             value={currentInput}
-            onChange={(e) => setCurrentInput(e.target.value)}
+            onChange={(e) => {
+              setCurrentInput(e.target.value);
+              setInputError(null);
+              setShowSuggestions(true);
+              setActiveIndex(-1);
+            }}
             onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onFocus={() => setShowSuggestions(true)}
+            onBlur={() => {
+              setShowSuggestions(false);
+              setActiveIndex(-1);
+            }}
             placeholder={searchTerms.length === 0 ? placeholder : "Add more keywords..."}
+            role="combobox"
+            aria-autocomplete="list"
+            aria-expanded={suggestions.length > 0}
+            aria-controls="search-suggestions"
+            aria-activedescendant={activeSuggestion ? `search-suggestion-${activeIndex}` : undefined}
+            aria-invalid={inputError !== null}
+            aria-describedby={inputError ? 'search-query-error' : undefined}
             className="flex-1 min-w-[200px] outline-none bg-transparent text-gray-900 placeholder-gray-500"
             disabled={isLoading}
           />
@@ -121,12 +256,73 @@ const MultiSelectSearch: React.FC<MultiSelectSearchProps> = ({
             </button>
           )}
         </div>
+
+        {/* Autocomplete; mouse down is cancelled so the input keeps focus */}
+        {suggestions.length > 0 && (
+          <div
+            onMouseDown={(e) => e.preventDefault()}
+            className="absolute left-0 right-0 top-full mt-1 z-20 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden"
+          >
+            <ul id="search-suggestions" role="listbox" className="max-h-72 overflow-y-auto py-1">
+              {suggestions.map((suggestion, index) => (
+                <li
+                  key={suggestion.clause}
+                  id={`search-suggestion-${index}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    addClauses([suggestion.clause]);
+                  }}
+                  className={`flex items-center justify-between px-3 py-2 text-sm cursor-pointer ${
+                    index === activeIndex ? 'bg-blue-50 text-blue-900' : 'text-gray-900'
+                  }`}
+                >
+                  <span className="flex items-center space-x-2 min-w-0">
+                    {suggestion.source === 'history' && <History className="w-4 h-4 flex-shrink-0 text-gray-400" />}
+                    <span className="truncate">{suggestion.label}</span>
+                  </span>
+                  <span className="ml-3 flex-shrink-0 text-xs text-gray-400">{sourceLabels[suggestion.source]}</span>
+                </li>
+              ))}
+            </ul>
+            {onClearHistory && suggestions.some((suggestion) => suggestion.source === 'history') && (
+              <div className="border-t border-gray-100 px-3 py-2 text-right">
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onClearHistory();
+                  }}
+                  className="text-xs text-gray-500 hover:text-gray-700"
+                >
+                  Clear search history
+                </button>
+              </div>
+            )}
+          </div>
+        )}
       </div>
       
+      {/* Syntax error, with the offending part of the query marked */}
+      {inputError && (
+        <div id="search-query-error" role="alert" className="mt-2 text-sm text-red-600">
+          <p>{inputError.message}</p>
+          <p className="mt-1 font-mono text-xs text-gray-700 whitespace-pre-wrap break-all">
+            {currentInput.slice(0, inputError.start)}
+            <span className="bg-red-100 text-red-700 underline decoration-wavy decoration-red-500">
+              {currentInput.slice(inputError.start, inputError.end) || ' '}
+            </span>
+            {currentInput.slice(inputError.end)}
+          </p>
+        </div>
+      )}
+
       {/* Search Info */}
       <div className="mt-2 flex items-center justify-between">
         <div className="flex items-center space-x-4">
-          <span className="text-sm text-gray-500">Press Enter to add keywords</span>
+          <span className="text-sm text-gray-500">Press Enter or comma to add keywords</span>
           {searchTerms.length > 0 && (
             <span className="text-sm text-blue-600 font-medium">
               {searchTerms.length} keyword{searchTerms.length !== 1 ? 's' : ''} selected
@@ -137,7 +333,7 @@ const MultiSelectSearch: React.FC<MultiSelectSearchProps> = ({
         {/* Search Button */}
         <button
           onClick={handleSearch}
-          disabled={searchTerms.length === 0 || isLoading}
+          disabled={(searchTerms.length === 0 && !currentInput.trim()) || isLoading}
           className="inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-medium px-4 py-2 rounded-lg transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:cursor-not-allowed"
         >
           {isLoading ? (
@@ -160,9 +356,10 @@ const MultiSelectSearch: React.FC<MultiSelectSearchProps> = ({
           <p className="text-sm text-gray-600 mb-2 font-medium">Search Tips:</p>
           <ul className="text-xs text-gray-500 space-y-1">
             <li>• Type keywords like "React", "Python", "Manager" and press Enter</li>
-            <li>• Add multiple terms to refine your search</li>
-            <li>• Click the Search button to find candidates</li>
-            <li>• Use job titles, skills, or any relevant keywords</li>
+            <li>• Combine them in one query: <code>(React OR Vue) AND TypeScript NOT junior</code></li>
+            <li>• Quote phrases, and limit terms to a field: <code>title:"data engineer"</code>, <code>skills:python</code></li>
+            <li>• Click a keyword to edit it; the Search Mode below joins the keywords</li>
+            <li>• Paste a comma-separated or one-per-line list to add several keywords at once</li>
           </ul>
         </div>
       )}
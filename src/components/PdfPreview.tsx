@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask, TextLayer } from 'pdfjs-dist';
+import { loadPdfjs, type PageMatches } from '../services/documentPreview';
+import { countMatches, highlightElement, removeHighlights } from '../utils/highlight';
+
+interface PdfPreviewProps {
+  bytes: Uint8Array;
+  page: number;
+  zoom: number;
+  pattern: RegExp | null;
+  /** Scroll the first highlight on the page into view. */
+  scrollToMatch?: boolean;
+  onPageCount: (count: number) => void;
+  onMatches: (matches: PageMatches[]) => void;
+  onError: (message: string) => void;
+}
+
+type Pdfjs = Awaited<ReturnType<typeof loadPdfjs>>;
+
+/** One page of a PDF at a time: a canvas with a selectable, highlighted text layer on top. */
+const PdfPreview: React.FC<PdfPreviewProps> = ({ bytes, page, zoom, pattern, scrollToMatch, onPageCount, onMatches, onError }) => {
+  const [opened, setOpened] = useState<{ pdfjs: Pdfjs; pdf: PDFDocumentProxy } | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  // Bumped each time a page's text layer is in place, so highlights are redone
+  const [renderCount, setRenderCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    loadPdfjs()
+      // pdf.js hands the buffer to its worker, so it gets a copy
+      .then(async (pdfjs) => ({ pdfjs, pdf: await pdfjs.getDocument({ data: bytes.slice() }).promise }))
+      .then((result) => {
+        loaded = result.pdf;
+        if (cancelled) {
+          loaded.destroy();
+          return;
+        }
+        setOpened(result);
+        onPageCount(result.pdf.numPages);
+      })
+      .catch((err) => {
+        console.error('Failed to open PDF:', err);
+        if (!cancelled) onError('This PDF could not be opened. It may be damaged or password protected.');
+      });
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [bytes, onPageCount, onError]);
+
+  // Matches are counted over the whole document, so the toolbar can jump to them
+  useEffect(() => {
+    if (!opened) return;
+    let cancelled = false;
+    (async () => {
+      const matches: PageMatches[] = [];
+      for (let number = 1; pattern && number <= opened.pdf.numPages; number++) {
+        const content = await (await opened.pdf.getPage(number)).getTextContent();
+        const text = content.items.map((item) => ('str' in item ? item.str : '')).join(' ');
+        const count = countMatches(text, pattern);
+        if (count > 0) matches.push({ page: number, count });
+      }
+      if (!cancelled) onMatches(matches);
+    })().catch((err) => console.error('Failed to search PDF text:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [opened, pattern, onMatches]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const textLayerDiv = textLayerRef.current;
+    if (!opened || !canvas || !textLayerDiv) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+    (async () => {
+      const pdfPage = await opened.pdf.getPage(page);
+      if (cancelled) return;
+      const viewport = pdfPage.getViewport({ scale: zoom });
+      // Drawn at device resolution so text stays sharp on high-DPI screens
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+      renderTask = pdfPage.render({
+        canvasContext: canvas.getContext('2d')!,
+        viewport,
+        transform: ratio === 1 ? undefined : [ratio, 0, 0, ratio, 0, 0],
+      });
+
+      textLayerDiv.replaceChildren();
+      textLayerDiv.style.setProperty('--scale-factor', String(zoom));
+      textLayer = new opened.pdfjs.TextLayer({
+        textContentSource: pdfPage.streamTextContent(),
+        container: textLayerDiv,
+        viewport,
+      });
+      await Promise.all([renderTask.promise, textLayer.render()]);
+      if (!cancelled) setRenderCount((count) => count + 1);
+    })().catch((err) => {
+      if (cancelled || err?.name === 'RenderingCancelledException') return;
+      console.error(`Failed to render PDF page ${page}:`, err);
+      onError(`Page ${page} could not be displayed.`);
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [opened, page, zoom, onError]);
+
+  // Separate from rendering, so changing the terms doesn't redraw the page
+  useEffect(() => {
+    const textLayerDiv = textLayerRef.current;
+    if (!textLayerDiv || renderCount === 0) return;
+    const marks = highlightElement(textLayerDiv, pattern);
+    if (scrollToMatch) marks[0]?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    return () => removeHighlights(marks);
+  }, [pattern, renderCount, scrollToMatch]);
+
+  return (
+    <div className="relative mx-auto w-fit bg-white shadow-md">
+      <canvas ref={canvasRef} className="block" />
+      <div ref={textLayerRef} className="pdf-text-layer" />
+    </div>
+  );
+};
+
+export default PdfPreview;
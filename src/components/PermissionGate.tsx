@@ -0,0 +1,17 @@
+import React from 'react';
+import { usePermission } from '../hooks/usePermission';
+import type { Permission } from '../services/permissions';
+
+interface PermissionGateProps {
+  permission: Permission;
+  /** Rendered instead of `children` when the permission is missing. */
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+const PermissionGate: React.FC<PermissionGateProps> = ({ permission, fallback = null, children }) => {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default PermissionGate;
@@ -0,0 +1,326 @@
+import React, { useState } from 'react';
+import { AlertTriangle, BadgeCheck, Check, ExternalLink, Loader2, Pencil } from 'lucide-react';
+import { approveResume, getErrorMessage, updateResume } from '../services/api';
+import { useNotifications } from '../hooks/useNotifications';
+import type { ParsedResume, ResumeLink } from '../types/api';
+import {
+  cleanResume,
+  normalizePhone,
+  validateResume,
+  type ResumeDraft,
+  type ResumeFieldErrors,
+} from '../utils/resumeValidation';
+
+interface ResumeReviewFormProps {
+  data: ParsedResume;
+  /** Problems with the parser response, shown until the record is reviewed. */
+  warnings?: string[];
+  /** Called with the record as saved, so the upload history stays in sync. */
+  onChange: (data: ParsedResume) => void;
+  /** Fields whose source text can be shown, as paths like "skills.2". */
+  tracedFields?: Set<string>;
+  /** Called with the hovered traced field, and null when the pointer leaves it. */
+  onFieldHover?: (field: string | null) => void;
+}
+
+const toDraft = ({ name, email, phone, job_title, skills }: ParsedResume): ResumeDraft => ({
+  name,
+  email,
+  phone,
+  job_title,
+  skills: skills.join(', '),
+});
+
+const dateRange = (start?: string, end?: string) => (start || end ? ` (${start ?? '?'} – ${end ?? 'present'})` : '');
+
+const linkLabel = ({ type, url }: ResumeLink) => {
+  if (type !== 'other') return type;
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="mt-2">
+    <span className="font-medium text-xs">{title}:</span>
+    <div className="text-xs text-gray-600 mt-1">{children}</div>
+  </div>
+);
+
+const inputClass = (error?: string) =>
+  `w-full px-2 py-1.5 text-xs border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+    error ? 'border-red-400 bg-red-50' : 'border-gray-300 bg-white'
+  }`;
+
+const ResumeReviewForm: React.FC<ResumeReviewFormProps> = ({ data, warnings, onChange, tracedFields, onFieldHover }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [fields, setFields] = useState<ResumeDraft>(() => toDraft(data));
+  const [errors, setErrors] = useState<ResumeFieldErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const { notify } = useNotifications();
+
+  const isApproved = data.review_status === 'approved';
+
+  const setField = (field: keyof ResumeDraft, value: string) => {
+    setFields((prev) => ({ ...prev, [field]: value }));
+    // Clear a field's error as soon as the user starts fixing it
+    if (errors[field]) setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const startEditing = () => {
+    setFields(toDraft(data));
+    setErrors({});
+    setSaveError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const fieldErrors = validateResume(fields);
+    setErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+
+    const cleaned = cleanResume(fields);
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      // Without a backend record id the corrections can only be kept locally
+      const saved = data.contact_id ? await updateResume(data.contact_id, cleaned) : { ...data, ...cleaned };
+      onChange({ ...data, ...saved });
+      setIsEditing(false);
+      notify({ type: 'success', message: `Saved corrections for ${cleaned.name}` });
+    } catch (err) {
+      setSaveError(getErrorMessage(err, 'Failed to save corrections'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleApprove = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const approved = data.contact_id
+        ? await approveResume(data.contact_id)
+        : { ...data, review_status: 'approved' as const };
+      onChange({ ...data, ...approved });
+      notify({ type: 'success', message: `Approved ${data.name || 'the record'}` });
+    } catch (err) {
+      setSaveError(getErrorMessage(err, 'Failed to approve record'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Lets a traced value point at where it came from in the original document
+  const trace = (field: string) =>
+    onFieldHover && tracedFields?.has(field)
+      ? {
+          onMouseEnter: () => onFieldHover(field),
+          onMouseLeave: () => onFieldHover(null),
+          className: 'rounded cursor-help underline decoration-dotted decoration-green-600 hover:bg-yellow-100',
+        }
+      : { className: '' };
+
+  const renderInput = (field: 'name' | 'email' | 'phone' | 'job_title', label: string, required = false) => (
+    <label className="block">
+      <span className="font-medium">
+        {label}
+        {required && <span className="text-red-500"> *</span>}
+      </span>
+      <input
+        type={field === 'email' ? 'email' : field === 'phone' ? 'tel' : 'text'}
+        value={fields[field]}
+        onChange={(e) => setField(field, e.target.value)}
+        onBlur={field === 'phone' ? () => setField('phone', normalizePhone(fields.phone)) : undefined}
+        className={`mt-1 ${inputClass(errors[field])}`}
+      />
+      {errors[field] && <span className="block mt-1 text-red-600">{errors[field]}</span>}
+    </label>
+  );
+
+  return (
+    <div className={`mt-3 p-3 rounded-lg border ${isEditing ? 'bg-white border-blue-200' : 'bg-green-50 border-green-200'}`}>
+      <div className="flex items-center justify-between mb-2">
+        <h5 className={`text-sm font-medium ${isEditing ? 'text-blue-800' : 'text-green-800'}`}>
+          {isEditing ? 'Review Parsed Information' : 'Parsed Information:'}
+        </h5>
+        {!isEditing && (
+          <div className="flex items-center space-x-2">
+            {isApproved ? (
+              <span className="inline-flex items-center space-x-1 text-xs font-medium text-green-700">
+                <BadgeCheck className="w-4 h-4" />
+                <span>Approved</span>
+              </span>
+            ) : (
+              <button
+                onClick={handleApprove}
+                disabled={isSaving}
+                className="inline-flex items-center space-x-1 px-2 py-1 text-xs font-medium text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-400 rounded-md transition-colors"
+              >
+                {isSaving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                <span>Approve</span>
+              </button>
+            )}
+            <button
+              onClick={startEditing}
+              disabled={isSaving}
+              className="inline-flex items-center space-x-1 px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 rounded-md transition-colors"
+            >
+              <Pencil className="w-3 h-3" />
+              <span>Edit</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!isEditing && warnings && warnings.length > 0 && (
+        <div className="mb-2 p-2 rounded-md bg-yellow-50 border border-yellow-200 text-xs text-yellow-800">
+          <p className="flex items-center space-x-1 font-medium">
+            <AlertTriangle className="w-3 h-3" />
+            <span>Some fields could not be read and were left blank. Please review them.</span>
+          </p>
+          <ul className="mt-1 ml-4 list-disc">
+            {warnings.map((warning) => <li key={warning}>{warning}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {isEditing ? (
+        <div className="space-y-2 text-xs">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {renderInput('name', 'Name', true)}
+            {renderInput('email', 'Email')}
+            {renderInput('phone', 'Phone')}
+            {renderInput('job_title', 'Job Title')}
+          </div>
+          <label className="block">
+            <span className="font-medium">Skills</span>
+            <span className="text-gray-500"> (comma-separated)</span>
+            <textarea
+              value={fields.skills}
+              onChange={(e) => setField('skills', e.target.value)}
+              rows={2}
+              className={`mt-1 ${inputClass()}`}
+            />
+          </label>
+          <div className="flex items-center justify-end space-x-2 pt-1">
+            <button
+              onClick={() => setIsEditing(false)}
+              disabled={isSaving}
+              className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 rounded-md transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="inline-flex items-center space-x-1 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 rounded-md transition-colors"
+            >
+              {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+              <span>Save corrections</span>
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+            <div><span className="font-medium">Name:</span> <span {...trace('name')}>{data.name}</span></div>
+            <div><span className="font-medium">Email:</span> <span {...trace('email')}>{data.email}</span></div>
+            <div><span className="font-medium">Phone:</span> <span {...trace('phone')}>{data.phone}</span></div>
+            <div><span className="font-medium">Job Title:</span> <span {...trace('job_title')}>{data.job_title}</span></div>
+          </div>
+          {data.years_of_experience !== undefined && (
+            <div className="mt-2 text-xs">
+              <span className="font-medium">Experience:</span>{' '}
+              <span {...trace('years_of_experience')}>{data.years_of_experience} years</span>
+            </div>
+          )}
+          {data.summary && (
+            <Section title="Summary">
+              <p {...trace('summary')}>{data.summary}</p>
+            </Section>
+          )}
+          {data.skills.length > 0 && (
+            <Section title="Skills">
+              <div className="flex flex-wrap gap-1">
+                {data.skills.map((skill, index) => {
+                  const { className, ...handlers } = trace(`skills.${index}`);
+                  return (
+                    <span key={index} {...handlers} className={`px-2 py-0.5 bg-white border border-green-200 rounded-full ${className}`}>
+                      {skill}
+                    </span>
+                  );
+                })}
+              </div>
+            </Section>
+          )}
+          {data.experience.length > 0 && (
+            <Section title="Work History">
+              <ul className="space-y-1">
+                {data.experience.map((entry, index) => (
+                  <li key={index} {...trace(`experience.${index}`)}>
+                    <span className="text-gray-800">{entry.title || 'Untitled role'}</span>
+                    {entry.company && ` at ${entry.company}`}
+                    {dateRange(entry.start_date, entry.end_date)}
+                    {entry.description && <p className="text-gray-500">{entry.description}</p>}
+                  </li>
+                ))}
+              </ul>
+            </Section>
+          )}
+          {data.education.length > 0 && (
+            <Section title="Education">
+              <ul className="space-y-1">
+                {data.education.map((entry, index) => (
+                  <li key={index} {...trace(`education.${index}`)}>
+                    {[entry.degree, entry.field_of_study].filter(Boolean).join(', ')}
+                    {(entry.degree || entry.field_of_study) && ' – '}
+                    {entry.institution}
+                    {dateRange(entry.start_date, entry.end_date)}
+                  </li>
+                ))}
+              </ul>
+            </Section>
+          )}
+          {data.languages.length > 0 && (
+            <Section title="Languages">
+              {data.languages.map((entry, index) => (
+                <React.Fragment key={index}>
+                  {index > 0 && ', '}
+                  <span {...trace(`languages.${index}`)}>
+                    {entry.proficiency ? `${entry.language} (${entry.proficiency})` : entry.language}
+                  </span>
+                </React.Fragment>
+              ))}
+            </Section>
+          )}
+          {data.links.length > 0 && (
+            <Section title="Links">
+              <div className="flex flex-wrap gap-3">
+                {data.links.map((link, index) => (
+                  <a
+                    key={index}
+                    href={link.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-800"
+                  >
+                    <span>{linkLabel(link)}</span>
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                ))}
+              </div>
+            </Section>
+          )}
+        </>
+      )}
+
+      {saveError && <p className="mt-2 text-xs text-red-600">{saveError}</p>}
+    </div>
+  );
+};
+
+export default ResumeReviewForm;
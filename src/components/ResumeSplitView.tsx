@@ -0,0 +1,83 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import type { ParsedResume } from '../types/api';
+import { termPattern } from '../utils/highlight';
+import { sourceSnippets, tracedFields } from '../utils/sourceSpans';
+import DocumentViewer, { toolbarButton } from './DocumentViewer';
+import ResumeReviewForm from './ResumeReviewForm';
+
+interface ResumeSplitViewProps {
+  file: File;
+  data: ParsedResume;
+  warnings?: string[];
+  onChange: (data: ParsedResume) => void;
+  onClose: () => void;
+}
+
+/**
+ * The uploaded file next to what was parsed from it. Hovering a field
+ * highlights the text it was read from, when the backend sent source spans.
+ */
+const ResumeSplitView: React.FC<ResumeSplitViewProps> = ({ file, data, warnings, onChange, onClose }) => {
+  const [hoveredField, setHoveredField] = useState<string | null>(null);
+  const traced = useMemo(() => tracedFields(data), [data]);
+
+  const snippets = useMemo(() => (hoveredField ? sourceSnippets(data, hoveredField) : []), [data, hoveredField]);
+  const pattern = useMemo(() => termPattern(snippets.map((snippet) => snippet.text)), [snippets]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label={`Parsed fields of ${file.name}`}
+        className="bg-white rounded-xl w-full max-w-7xl h-[90vh] shadow-2xl overflow-hidden grid grid-cols-1 lg:grid-cols-2"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="min-h-0 border-b lg:border-b-0 lg:border-r border-gray-200">
+          <DocumentViewer
+            source={file}
+            title="Original"
+            pattern={pattern}
+            followMatches
+            preferredPage={snippets[0]?.page}
+          />
+        </div>
+
+        <div className="min-h-0 flex flex-col">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <div className="min-w-0">
+              <h3 className="text-sm font-semibold text-gray-900 truncate">Extracted fields</h3>
+              <p className="text-xs text-gray-500">
+                {traced.size > 0
+                  ? 'Hover an underlined value to see where it was read from.'
+                  : 'The parser did not report where these values were read from.'}
+              </p>
+            </div>
+            <button onClick={onClose} className={toolbarButton} title="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto px-4 pb-4">
+            <ResumeReviewForm
+              data={data}
+              warnings={warnings}
+              onChange={onChange}
+              tracedFields={traced}
+              onFieldHover={setHoveredField}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeSplitView;
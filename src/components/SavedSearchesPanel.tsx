@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Bookmark, Play, Save, Trash2 } from 'lucide-react';
+import { RERUN_SCHEDULES, type RerunSchedule, type SavedSearch } from '../services/savedSearches';
+import { formatTimestamp } from '../utils/format';
+
+interface SavedSearchesPanelProps {
+  searches: SavedSearch[];
+  /** The saved search the page is showing, if any. */
+  activeId: string | null;
+  /** The page's search, as saved search parameters; empty before anything was searched. */
+  currentParams: string;
+  onSave: (name: string) => void;
+  onRun: (search: SavedSearch) => void;
+  onUpdate: (search: SavedSearch) => void;
+  onDelete: (search: SavedSearch) => void;
+  onScheduleChange: (search: SavedSearch, schedule: RerunSchedule | undefined) => void;
+}
+
+/** A readable summary of what a saved search looks for. */
+const describeParams = (params: string) => {
+  const parsed = new URLSearchParams(params);
+  const query = parsed.get('q') ?? parsed.getAll('keywords').join(parsed.get('mode') === 'and' ? ' AND ' : ' OR ');
+  const filterCount = Array.from(parsed.keys()).filter((key) => !['q', 'keywords', 'mode', 'sort'].includes(key)).length;
+  return filterCount > 0 ? `${query} · ${filterCount} ${filterCount === 1 ? 'filter' : 'filters'}` : query;
+};
+
+const SavedSearchesPanel: React.FC<SavedSearchesPanelProps> = ({
+  searches,
+  activeId,
+  currentParams,
+  onSave,
+  onRun,
+  onUpdate,
+  onDelete,
+  onScheduleChange,
+}) => {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const nameTaken = searches.some((search) => search.name.toLowerCase() === name.trim().toLowerCase());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || nameTaken) return;
+    onSave(name.trim());
+    setIsNaming(false);
+    setName('');
+  };
+
+  if (searches.length === 0 && !currentParams) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm mb-8">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center space-x-2 text-lg font-semibold text-gray-900">
+          <Bookmark className="w-5 h-5 text-blue-600" />
+          <span>Saved Searches</span>
+        </h3>
+        {currentParams && !isNaming && (
+          <button
+            onClick={() => setIsNaming(true)}
+            className="inline-flex items-center space-x-2 text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            <Save className="w-4 h-4" />
+            <span>Save current search</span>
+          </button>
+        )}
+      </div>
+
+      {isNaming && (
+        <form onSubmit={handleSubmit} className="mt-4 flex items-start space-x-2">
+          <div className="flex-1">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder='Name, e.g. "Senior Java + Berlin"'
+              autoFocus
+              aria-invalid={nameTaken}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            {nameTaken && <p className="mt-1 text-xs text-red-600">A saved search with this name already exists.</p>}
+          </div>
+          <button
+            type="submit"
+            disabled={!name.trim() || nameTaken}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed rounded-lg"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setIsNaming(false);
+              setName('');
+            }}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {searches.length === 0 ? (
+        <p className="mt-2 text-sm text-gray-500">
+          Save a search to run it again in one click and see which candidates are new since the last run.
+        </p>
+      ) : (
+        <ul className="mt-4 divide-y divide-gray-100">
+          {searches.map((search) => {
+            const isActive = search.id === activeId;
+            return (
+              <li key={search.id} className="py-3 flex flex-wrap items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className={`text-sm font-medium truncate ${isActive ? 'text-blue-800' : 'text-gray-900'}`}>
+                      {search.name}
+                    </span>
+                    {search.newIds.length > 0 && (
+                      <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                        {search.newIds.length} new
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 truncate" title={describeParams(search.params)}>
+                    {describeParams(search.params)}
+                    {search.lastRunAt && ` · last run ${formatTimestamp(search.lastRunAt)}`}
+                  </p>
+                </div>
+
+                {isActive && currentParams && currentParams !== search.params && (
+                  <button
+                    onClick={() => onUpdate(search)}
+                    className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                    title="Save the current query, filters and sort under this name"
+                  >
+                    Update with current search
+                  </button>
+                )}
+                <select
+                  value={search.schedule ?? ''}
+                  onChange={(e) => onScheduleChange(search, (e.target.value || undefined) as RerunSchedule | undefined)}
+                  className="text-xs border border-gray-300 rounded-lg px-2 py-1 text-gray-700 focus:ring-2 focus:ring-blue-500"
+                  aria-label={`Re-run "${search.name}"`}
+                >
+                  <option value="">No re-runs</option>
+                  {RERUN_SCHEDULES.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      Re-run {option.label.toLowerCase()}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onRun(search)}
+                  className="inline-flex items-center space-x-1 px-3 py-1 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg"
+                >
+                  <Play className="w-3 h-3" />
+                  <span>Run</span>
+                </button>
+                <button
+                  onClick={() => onDelete(search)}
+                  className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                  title={`Delete "${search.name}"`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SavedSearchesPanel;
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Filter, RotateCcw } from 'lucide-react';
+import {
+  countActiveFilters,
+  type FacetValue,
+  type SearchFacets,
+  type SearchFilters,
+  type ValueFilter,
+} from '../utils/searchFilters';
+
+interface SearchFilterSidebarProps {
+  filters: SearchFilters;
+  facets: SearchFacets;
+  onChange: (filters: SearchFilters) => void;
+  onReset: () => void;
+}
+
+// Longer value lists are cut to this many until "Show all" is clicked
+const COLLAPSED_VALUES = 6;
+
+const FilterSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div role="group" aria-label={title} className="py-4 border-t border-gray-200 last:pb-0">
+    <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">{title}</h4>
+    <div className="space-y-1">{children}</div>
+  </div>
+);
+
+const OptionRow: React.FC<{
+  type: 'checkbox' | 'radio';
+  name: string;
+  label: string;
+  count?: number;
+  checked: boolean;
+  onChange: () => void;
+}> = ({ type, name, label, count, checked, onChange }) => (
+  <label className={`flex items-center text-sm cursor-pointer ${count === 0 && !checked ? 'text-gray-400' : 'text-gray-700'}`}>
+    <input
+      type={type}
+      name={name}
+      checked={checked}
+      onChange={onChange}
+      className={`w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500 ${type === 'checkbox' ? 'rounded' : ''}`}
+    />
+    <span className="ml-2 flex-1 truncate" title={label}>
+      {label}
+    </span>
+    {count !== undefined && <span className="ml-2 text-xs text-gray-500 tabular-nums">{count}</span>}
+  </label>
+);
+
+/**
+ * Checkboxes for the values found in the results, most common first. Selected
+ * values stay listed even when no result has them any more, so they can be
+ * cleared.
+ */
+const ValueList: React.FC<{
+  filter: ValueFilter;
+  values: FacetValue[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}> = ({ filter, values, selected, onToggle }) => {
+  const [showAll, setShowAll] = useState(false);
+  const isSelected = (value: string) => selected.some((item) => item.toLowerCase() === value.toLowerCase());
+  const missing = selected
+    .filter((item) => !values.some((facet) => facet.value.toLowerCase() === item.toLowerCase()))
+    .map((value) => ({ value, label: value, count: 0 }));
+  const all = [...values, ...missing];
+  // Selected values are always shown, even past the cut
+  const shown = showAll ? all : all.filter((facet, index) => index < COLLAPSED_VALUES || isSelected(facet.value));
+
+  return (
+    <>
+      {shown.map((facet) => (
+        <OptionRow
+          key={facet.value}
+          type="checkbox"
+          name={filter}
+          label={facet.label}
+          count={facet.count}
+          checked={isSelected(facet.value)}
+          onChange={() => onToggle(facet.value)}
+        />
+      ))}
+      {all.length > COLLAPSED_VALUES && (
+        <button
+          type="button"
+          onClick={() => setShowAll(!showAll)}
+          className="text-xs font-medium text-blue-600 hover:text-blue-800"
+        >
+          {showAll ? 'Show fewer' : `Show all ${all.length}`}
+        </button>
+      )}
+    </>
+  );
+};
+
+/** Narrows the current results by title, skills, location, experience, upload date and CV link. */
+const SearchFilterSidebar: React.FC<SearchFilterSidebarProps> = ({ filters, facets, onChange, onReset }) => {
+  const activeCount = countActiveFilters(filters);
+
+  const toggleValue = (filter: ValueFilter, value: string) => {
+    const selected = filters[filter];
+    const without = selected.filter((item) => item.toLowerCase() !== value.toLowerCase());
+    onChange({ ...filters, [filter]: without.length === selected.length ? [...selected, value] : without });
+  };
+
+  const valueSection = (filter: ValueFilter, title: string) =>
+    // Backends that don't send a field get no section for it
+    facets[filter].length > 0 || filters[filter].length > 0 ? (
+      <FilterSection title={title}>
+        <ValueList
+          filter={filter}
+          values={facets[filter]}
+          selected={filters[filter]}
+          onToggle={(value) => toggleValue(filter, value)}
+        />
+      </FilterSection>
+    ) : null;
+
+  const hasExperience = facets.experience.some((facet) => facet.count > 0) || filters.experience.length > 0;
+  const hasUploadDates = facets.uploadedWithin.some((facet) => facet.count > 0) || Boolean(filters.uploadedWithin);
+
+  return (
+    <aside className="bg-white rounded-xl border border-gray-200 p-4 shadow-sm" aria-label="Filters">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center space-x-2 text-sm font-semibold text-gray-900">
+          <Filter className="w-4 h-4" />
+          <span>Filters{activeCount > 0 && ` (${activeCount})`}</span>
+        </h3>
+        {activeCount > 0 && (
+          <button
+            type="button"
+            onClick={onReset}
+            className="inline-flex items-center space-x-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span>Reset</span>
+          </button>
+        )}
+      </div>
+
+      {valueSection('titles', 'Job title')}
+      {valueSection('skills', 'Skills')}
+      {valueSection('locations', 'Location')}
+
+      {hasExperience && (
+        <FilterSection title="Experience">
+          {facets.experience.map((facet) => (
+            <OptionRow
+              key={facet.value}
+              type="checkbox"
+              name="experience"
+              label={facet.label}
+              count={facet.count}
+              checked={filters.experience.includes(facet.value)}
+              onChange={() => toggleValue('experience', facet.value)}
+            />
+          ))}
+        </FilterSection>
+      )}
+
+      {hasUploadDates && (
+        <FilterSection title="Uploaded">
+          <OptionRow
+            type="radio"
+            name="uploadedWithin"
+            label="Any time"
+            checked={!filters.uploadedWithin}
+            onChange={() => onChange({ ...filters, uploadedWithin: undefined })}
+          />
+          {facets.uploadedWithin.map((facet) => (
+            <OptionRow
+              key={facet.value}
+              type="radio"
+              name="uploadedWithin"
+              label={facet.label}
+              count={facet.count}
+              checked={filters.uploadedWithin === facet.value}
+              onChange={() => onChange({ ...filters, uploadedWithin: facet.value as SearchFilters['uploadedWithin'] })}
+            />
+          ))}
+        </FilterSection>
+      )}
+
+      <FilterSection title="CV">
+        <OptionRow
+          type="radio"
+          name="cvLink"
+          label="Any"
+          checked={!filters.cvLink}
+          onChange={() => onChange({ ...filters, cvLink: undefined })}
+        />
+        {facets.cvLink.map((facet) => (
+          <OptionRow
+            key={facet.value}
+            type="radio"
+            name="cvLink"
+            label={facet.label}
+            count={facet.count}
+            checked={filters.cvLink === facet.value}
+            onChange={() => onChange({ ...filters, cvLink: facet.value as SearchFilters['cvLink'] })}
+          />
+        ))}
+      </FilterSection>
+    </aside>
+  );
+};
+
+export default SearchFilterSidebar;
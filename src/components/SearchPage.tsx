@@ -1,37 +1,145 @@
-import React, { useState, useEffect } from 'react';
-import { Search, Users, ExternalLink, AlertCircle, Loader2, Plus, Check, X, FileText } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  Search,
+  Users,
+  ExternalLink,
+  AlertCircle,
+  Loader2,
+  Plus,
+  Check,
+  X,
+  FileText,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+} from 'lucide-react';
 import MultiSelectSearch from './MultiSelectSearch';
+import DocumentPreview from './DocumentPreview';
+import SearchFilterSidebar from './SearchFilterSidebar';
+import SavedSearchesPanel from './SavedSearchesPanel';
+import SearchTabs from './SearchTabs';
+import {
+  addContactsToList,
+  createHubSpotList,
+  getErrorMessage,
+  searchHubSpotLists,
+} from '../services/api';
+import { expandSearch, loadRemainingResults, searchByQuery } from '../services/candidateSearch';
+import type { HubSpotList, SearchMode, SearchResult } from '../types/api';
+import { useAuth } from '../contexts/AuthContext';
+import { usePermission } from '../hooks/usePermission';
+import { useNotifications } from '../hooks/useNotifications';
+import { useResultSelection } from '../hooks/useResultSelection';
+import { useSavedSearches } from '../hooks/useSavedSearches';
+import { useSearchHistory } from '../hooks/useSearchHistory';
+import { loadSearchVocabulary } from '../services/searchVocabulary';
+import { correctQuery } from '../utils/fuzzyMatch';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { rememberCandidates } from '../services/candidateCache';
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  markSeen,
+  recordRun,
+  setRerunSchedule,
+  updateSavedSearchParams,
+  type RerunSchedule,
+  type SavedSearch,
+} from '../services/savedSearches';
+import { hubSpotContactUrl } from '../utils/hubspot';
+import {
+  DEFAULT_SORT,
+  formatSort,
+  parseSort,
+  relevanceScore,
+  sortResults,
+  toggleSort,
+  type SortKey,
+  type SortSpec,
+} from '../utils/resultSort';
+import {
+  EMPTY_FILTERS,
+  applyFilters,
+  computeFacets,
+  countActiveFilters,
+  readFilters,
+  writeFilters,
+  type SearchFilters,
+} from '../utils/searchFilters';
+import { combineQueries, formatQuery, parseQuery, positiveTerms, splitQuery, type QueryNode } from '../utils/searchQuery';
+import { queryParamsOf, readUrlSearch } from '../utils/searchUrl';
 
-interface SearchResult {
-  contact_id: string;
-  name: string;
-  email: string;
-  job_title: string;
-  full_text: string;
-  skills: string;
-  matched_keywords: string[];
-  cv_url_link?: string;
-}
-
-interface SearchResponse {
-  keywords: string[];
-  mode: string;
-  results: SearchResult[];
-}
-
-interface HubSpotList {
-  listId: string;
-  name: string;
-}
+// Rows must be exactly this tall for the virtualized table to line up
+const ROW_HEIGHT = 73;
+
+/** `loaded` followed by the new page, without candidates already loaded (pages can shift between requests). */
+const appendPage = (loaded: SearchResult[], page: SearchResult[]) => {
+  const seen = new Set(loaded.map((result) => result.contact_id));
+  return [...loaded, ...page.filter((result) => !seen.has(result.contact_id))];
+};
+
+const SortHeader: React.FC<{
+  label: string;
+  sortKey: SortKey;
+  specs: SortSpec[];
+  onSort: (key: SortKey, addToSort: boolean) => void;
+}> = ({ label, sortKey, specs, onSort }) => {
+  const index = specs.findIndex((spec) => spec.key === sortKey);
+  const spec = specs[index];
+  const Icon = !spec ? ArrowUpDown : spec.direction === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <th
+      aria-sort={spec ? (spec.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+    >
+      <button
+        type="button"
+        onClick={(e) => onSort(sortKey, e.shiftKey)}
+        title="Click to sort, shift-click to add as a tie-breaker"
+        className={`inline-flex items-center space-x-1 uppercase tracking-wider hover:text-gray-900 ${spec ? 'text-gray-900' : ''}`}
+      >
+        <span>{label}</span>
+        <Icon className={`w-3 h-3 ${spec ? '' : 'opacity-40'}`} />
+        {spec && specs.length > 1 && <span className="text-[10px] font-semibold">{index + 1}</span>}
+      </button>
+    </th>
+  );
+};
 
 const SearchPage: React.FC = () => {
-  const [searchMode, setSearchMode] = useState<'or' | 'and'>('or');
+  const canAddContacts = usePermission('hubspot:add_contacts');
+  const canCreateLists = usePermission('hubspot:create_lists');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const queryParams = queryParamsOf(searchParams);
+  const urlSearch = useMemo(() => readUrlSearch(new URLSearchParams(queryParams)), [queryParams]);
+  const filters = useMemo(() => readFilters(searchParams), [searchParams]);
+  const sortParam = searchParams.get('sort');
+  const sortSpecs = useMemo(() => parseSort(sortParam), [sortParam]);
+  const searchAbortRef = useRef<AbortController | null>(null);
+  const [searchMode, setSearchMode] = useState<SearchMode>(urlSearch.mode);
   const [results, setResults] = useState<SearchResult[]>([]);
-  const [selectedResults, setSelectedResults] = useState<Set<string>>(new Set());
+  const [resultWarnings, setResultWarnings] = useState<string[]>([]);
+  // Paging: what the backend says there is in total, and where the next page starts
+  const [totalResults, setTotalResults] = useState<number | undefined>();
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const currentQueryRef = useRef<QueryNode | null>(null);
+  const pageAbortRef = useRef<AbortController | null>(null);
+  const selected = useResultSelection();
+  // Set while a search is under way, so its results aren't taken for a saved search's run too early
+  const pendingSearchRef = useRef(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [hasSearched, setHasSearched] = useState(false);
   const [lastSearchTerms, setLastSearchTerms] = useState<string[]>([]);
+  // Synonyms, narrower skills and close words the terms were expanded with, to the term each stands in for
+  const [lastSynonyms, setLastSynonyms] = useState<Map<string, string>>(new Map());
+  // A spelling correction of the last query, when it found nothing
+  const [didYouMean, setDidYouMean] = useState<QueryNode | null>(null);
+  const [lastQuery, setLastQuery] = useState('');
+  const [loadMoreError, setLoadMoreError] = useState('');
   
   // HubSpot Lists state
   const [hubspotLists, setHubspotLists] = useState<HubSpotList[]>([]);
@@ -40,140 +148,369 @@ const SearchPage: React.FC = () => {
   
   // Add to list modal state
   const [showAddModal, setShowAddModal] = useState(false);
-  const [addMode, setAddMode] = useState<'create' | 'existing'>('create');
+  const [addMode, setAddMode] = useState<'create' | 'existing'>(canCreateLists ? 'create' : 'existing');
   const [newListName, setNewListName] = useState('');
   const [selectedListId, setSelectedListId] = useState('');
   const [isAddingToList, setIsAddingToList] = useState(false);
-  const [addSuccess, setAddSuccess] = useState('');
+  const { notify } = useNotifications();
+
+  // Saved searches: the one in the URL (`saved`), and which of its candidates are new this run
+  const { user } = useAuth();
+  const owner = user?.username;
+  const savedSearches = useSavedSearches(owner);
+  const { recordSearch, recordResults, clear: clearHistory, suggest } = useSearchHistory(owner);
+  const savedId = searchParams.get('saved');
+  const activeSaved = savedSearches.find((search) => search.id === savedId);
+  const savedRunRef = useRef<{ id: string; seen: Set<string>; pending: Set<string> } | null>(null);
+  const [newCandidateIds, setNewCandidateIds] = useState<Set<string>>(new Set());
+
+  const filteredResults = useMemo(() => applyFilters(results, filters), [results, filters]);
+  const facets = useMemo(() => computeFacets(results, filters), [results, filters]);
+  const activeFilterCount = countActiveFilters(filters);
+  const scores = useMemo(
+    () => new Map(results.map((result) => [result.contact_id, relevanceScore(result, lastSearchTerms)])),
+    [results, lastSearchTerms]
+  );
+  const maxScore = Math.max(1, ...Array.from(scores.values()));
+  const sortedResults = useMemo(() => sortResults(filteredResults, sortSpecs, scores), [filteredResults, sortSpecs, scores]);
+  const showFilters = results.length > 0 || activeFilterCount > 0;
 
-  const BACKEND_URL = 'https://cv-parser-backend-q0mn.onrender.com';
+  // Candidate whose CV is open in the preview
+  const [previewCandidate, setPreviewCandidate] = useState<SearchResult | null>(null);
 
-  // Load HubSpot lists on component mount
+  // Load HubSpot lists on component mount (only needed for adding contacts)
   useEffect(() => {
-    loadHubSpotLists();
-  }, []);
+    if (canAddContacts) loadHubSpotLists();
+  }, [canAddContacts]);
 
   const loadHubSpotLists = async () => {
     setIsLoadingLists(true);
     setListsError('');
 
     try {
-      const response = await fetch(`${BACKEND_URL}/hubspot/lists/search`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          processingTypes: ['MANUAL', 'DYNAMIC'],
-          limit: 100
-        }),
-        // Add timeout to prevent hanging requests
-        signal: AbortSignal.timeout(10000) // 10 second timeout
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to load lists: ${response.statusText}`);
-      }
-
-      const data = await response.json();
+      const data = await searchHubSpotLists();
       setHubspotLists(data.lists || []);
     } catch (err) {
-      let errorMessage = 'Failed to load HubSpot lists';
-      
-      if (err instanceof Error) {
-        if (err.name === 'TypeError' && err.message.includes('fetch')) {
-          errorMessage = `Cannot connect to backend server at ${BACKEND_URL}. Please ensure the backend server is running.`;
-        } else if (err.name === 'TimeoutError') {
-          errorMessage = 'Request timed out. Please check your connection and try again.';
-        } else {
-          errorMessage = err.message;
-        }
-      }
-      
-      setListsError(errorMessage);
+      setListsError(getErrorMessage(err, 'Failed to load HubSpot lists'));
       console.error('Error loading HubSpot lists:', err);
     } finally {
       setIsLoadingLists(false);
     }
   };
 
-  const handleSearch = async (terms: string[], mode: 'or' | 'and' = searchMode) => {
-    if (terms.length === 0) {
-      setError('Please add at least one search keyword');
-      return;
-    }
-    
+  const { clear: clearSelection, keepOnly: keepSelectedOnly } = selected;
+
+  const runSearch = useCallback(async (query: QueryNode, fuzzy: boolean) => {
+    // Only the latest search may update the page (e.g. fast back/forward)
+    searchAbortRef.current?.abort();
+    pageAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    currentQueryRef.current = null;
+    pendingSearchRef.current = true;
+    savedRunRef.current = null;
+
     setIsLoading(true);
     setError('');
     setHasSearched(true);
-    setLastSearchTerms(terms);
-    setSelectedResults(new Set()); // Clear selections on new search
+    setLastQuery(formatQuery(query));
+    setDidYouMean(null);
+    clearSelection(); // Clear selections on new search
+    setLoadMoreError('');
 
     try {
-      const queryParams = new URLSearchParams();
-      terms.forEach((term) => queryParams.append('keywords', term));
-      queryParams.append('mode', mode);
-
-      const response = await fetch(`${BACKEND_URL}/search/?${queryParams.toString()}`, {
-        // Add timeout to prevent hanging requests
-        signal: AbortSignal.timeout(15000) // 15 second timeout for search
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Search failed: ${response.statusText}`);
+      // What's sent has close words for typos (when asked for) and synonyms from the skill taxonomy
+      const vocabulary = fuzzy ? await loadSearchVocabulary(owner) : undefined;
+      if (controller.signal.aborted) return;
+      const { query: expanded, synonymOf } = expandSearch(query, vocabulary);
+      currentQueryRef.current = expanded;
+      // Only the terms a result can contain are highlighted, not the excluded ones
+      setLastSearchTerms(positiveTerms(expanded));
+      setLastSynonyms(synonymOf);
+
+      const { data, warnings } = await searchByQuery(expanded, undefined, controller.signal);
+      setResults(data.results);
+      setTotalResults(data.total);
+      setNextCursor(data.next_cursor);
+      setResultWarnings(warnings);
+      rememberCandidates(data.results);
+      recordResults(data.results);
+      pendingSearchRef.current = false;
+
+      if (data.results.length === 0 && !data.next_cursor) {
+        // Shown once it's there, rather than holding up the empty result
+        loadSearchVocabulary(owner)
+          .then((words) => {
+            if (!controller.signal.aborted) setDidYouMean(correctQuery(query, words));
+          })
+          // Without a vocabulary there's just no suggestion
+          .catch(() => undefined);
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      pendingSearchRef.current = false;
+      setError(getErrorMessage(err, 'Search failed. Please try again.'));
+      setResults([]);
+      setTotalResults(undefined);
+      setNextCursor(undefined);
+      setResultWarnings([]);
+    } finally {
+      if (searchAbortRef.current === controller) {
+        setIsLoading(false);
       }
+    }
+  }, [clearSelection, recordResults, owner]);
 
-      const data: SearchResponse = await response.json();
-      setResults(data.results || []);
+  const loadMore = useCallback(async () => {
+    const query = currentQueryRef.current;
+    if (!query || !nextCursor || isLoadingMore) return;
+    const controller = new AbortController();
+    pageAbortRef.current = controller;
+    setIsLoadingMore(true);
+    setLoadMoreError('');
+
+    try {
+      const { data, warnings } = await searchByQuery(query, nextCursor, controller.signal);
+      setResults((loaded) => appendPage(loaded, data.results));
+      setNextCursor(data.next_cursor);
+      setResultWarnings((current) => [...current, ...warnings]);
+      rememberCandidates(data.results);
+      recordResults(data.results);
     } catch (err) {
-      let errorMessage = 'Search failed. Please try again.';
-      
-      if (err instanceof Error) {
-        if (err.name === 'TypeError' && err.message.includes('fetch')) {
-          errorMessage = `Cannot connect to backend server at ${BACKEND_URL}. Please ensure the backend server is running.`;
-        } else if (err.name === 'TimeoutError') {
-          errorMessage = 'Search request timed out. Please try again.';
-        } else {
-          errorMessage = err.message;
-        }
+      if (controller.signal.aborted) return;
+      setLoadMoreError(getErrorMessage(err, 'Failed to load more results.'));
+    } finally {
+      if (pageAbortRef.current === controller) {
+        setIsLoadingMore(false);
       }
-      
-      setError(errorMessage);
+    }
+  }, [nextCursor, isLoadingMore, recordResults]);
+
+  // The URL is the source of truth: shared links and back/forward re-run the search
+  useEffect(() => {
+    setSearchMode(urlSearch.mode);
+    if (urlSearch.query) {
+      runSearch(urlSearch.query, urlSearch.fuzzy);
+    } else {
+      searchAbortRef.current?.abort();
+      pageAbortRef.current?.abort();
+      currentQueryRef.current = null;
+      setHasSearched(false);
       setResults([]);
-    } finally {
+      setTotalResults(undefined);
+      setNextCursor(undefined);
+      setResultWarnings([]);
+      setLastSearchTerms([]);
+      setLastSynonyms(new Map());
+      setDidYouMean(null);
+      setLastQuery('');
       setIsLoading(false);
+      setError(urlSearch.error ?? '');
+    }
+  }, [urlSearch, runSearch]);
+
+  useEffect(
+    () => () => {
+      searchAbortRef.current?.abort();
+      pageAbortRef.current?.abort();
+    },
+    []
+  );
+
+  // Only candidates that are shown can stay selected
+  useEffect(() => {
+    keepSelectedOnly(new Set(filteredResults.map((result) => result.contact_id)));
+  }, [filteredResults, keepSelectedOnly]);
+
+  // A saved search's run: what it had seen before is fixed when its results
+  // arrive, and everything shown from then on (more pages too) counts as seen
+  useEffect(() => {
+    if (!owner || !activeSaved || !hasSearched || isLoading || error || pendingSearchRef.current) return;
+    const ids = filteredResults.map((result) => result.contact_id);
+    if (savedRunRef.current?.id !== activeSaved.id) {
+      savedRunRef.current = { id: activeSaved.id, seen: new Set(activeSaved.seenIds), pending: new Set(activeSaved.newIds) };
+      recordRun(owner, activeSaved.id, ids, false);
+    } else {
+      markSeen(owner, activeSaved.id, ids);
+    }
+    const { seen, pending } = savedRunRef.current;
+    setNewCandidateIds(new Set(ids.filter((id) => pending.has(id) || !seen.has(id))));
+  }, [owner, activeSaved, filteredResults, hasSearched, isLoading, error]);
+
+  useEffect(() => {
+    if (savedId) return;
+    savedRunRef.current = null;
+    setNewCandidateIds(new Set());
+  }, [savedId]);
+
+  // What a saved search stores: everything in the URL except which saved search it is
+  const currentParams = useMemo(() => {
+    if (!urlSearch.query) return '';
+    const params = new URLSearchParams(searchParams);
+    params.delete('saved');
+    return params.toString();
+  }, [searchParams, urlSearch]);
+
+  const handleSaveSearch = (name: string) => {
+    if (!owner) return;
+    try {
+      const search = createSavedSearch(owner, name, currentParams, filteredResults.map((result) => result.contact_id));
+      const next = new URLSearchParams(searchParams);
+      next.set('saved', search.id);
+      setSearchParams(next, { replace: true });
+      notify({ type: 'success', message: `Saved the search as "${name}"` });
+    } catch (err) {
+      notify({ type: 'error', message: getErrorMessage(err, 'Failed to save the search') });
     }
   };
 
-  const handleTermsChange = (terms: string[]) => {
-    if (error && terms.length > 0) {
-      setError('');
+  const handleRunSaved = (search: SavedSearch) => {
+    const next = new URLSearchParams(search.params);
+    next.set('saved', search.id);
+    if (next.toString() === searchParams.toString()) {
+      // Same URL, so no navigation: search again explicitly
+      if (urlSearch.query) runSearch(urlSearch.query, urlSearch.fuzzy);
+    } else {
+      setSearchParams(next);
     }
   };
 
-  const handleSearchModeChange = (mode: 'or' | 'and') => {
-    setSearchMode(mode);
+  const handleUpdateSaved = (search: SavedSearch) => {
+    if (!owner) return;
+    updateSavedSearchParams(owner, search.id, currentParams);
+    notify({ type: 'success', message: `Updated "${search.name}" with the current search` });
+  };
+
+  const handleDeleteSaved = (search: SavedSearch) => {
+    if (!owner || !window.confirm(`Delete the saved search "${search.name}"?`)) return;
+    deleteSavedSearch(owner, search.id);
+    if (search.id === savedId) {
+      const next = new URLSearchParams(searchParams);
+      next.delete('saved');
+      setSearchParams(next, { replace: true });
+    }
+  };
+
+  const handleScheduleChange = (search: SavedSearch, schedule: RerunSchedule | undefined) => {
+    if (owner) setRerunSchedule(owner, search.id, schedule);
   };
 
-  const handleSelectResult = (contactId: string) => {
-    const newSelected = new Set(selectedResults);
-    if (newSelected.has(contactId)) {
-      newSelected.delete(contactId);
+  const virtualRows = useVirtualRows({
+    count: filteredResults.length,
+    rowHeight: ROW_HEIGHT,
+    // After a failed page, loading more waits for the retry button
+    onNearEnd: nextCursor && !loadMoreError ? loadMore : undefined,
+  });
+
+  // All matches only have a known count when the backend counted them and no filter hides any
+  const matchingCount = nextCursor ? (activeFilterCount === 0 ? totalResults : undefined) : filteredResults.length;
+  const selectedCount = selected.count(matchingCount);
+  const allShownSelected =
+    filteredResults.length > 0 && filteredResults.every((result) => selected.isSelected(result.contact_id));
+  const totalLabel = totalResults ?? (nextCursor ? `${results.length}+` : results.length);
+
+  /**
+   * The contact ids to add to a list. With every match selected, the pages
+   * not loaded yet are loaded first, and the filters apply to them as well.
+   */
+  const resolveSelectedIds = async (): Promise<string[]> => {
+    const { allMatching, ids } = selected.selection;
+    if (!allMatching) return Array.from(ids);
+
+    let all = results;
+    if (nextCursor && currentQueryRef.current) {
+      const rest = await loadRemainingResults(currentQueryRef.current, nextCursor);
+      all = appendPage(results, rest);
+      setResults(all);
+      setNextCursor(undefined);
+      rememberCandidates(rest);
+    }
+    return applyFilters(all, filters)
+      .map((result) => result.contact_id)
+      .filter((id) => !ids.has(id));
+  };
+
+  const handleFiltersChange = (next: SearchFilters) => {
+    setSearchParams(writeFilters(searchParams, next), { replace: true });
+  };
+
+  const handleSort = (key: SortKey, addToSort: boolean) => handleSortChange(toggleSort(sortSpecs, key, addToSort));
+
+  const handleSortChange = (specs: SortSpec[]) => {
+    const next = new URLSearchParams(searchParams);
+    const value = formatSort(specs);
+    if (value) next.set('sort', value);
+    else next.delete('sort');
+    setSearchParams(next, { replace: true });
+  };
+
+  const handleSearch = (terms: string[], mode: SearchMode = searchMode) => {
+    // Chips are only added once they parse, so every clause is valid here
+    const clauses = terms.map(parseQuery).flatMap((parsed) => (parsed.ok ? [parsed.query] : []));
+    if (clauses.length === 0) {
+      setError('Please add at least one search keyword');
+      return;
+    }
+    const query = combineQueries(clauses, mode);
+    if (positiveTerms(query).length === 0) {
+      setError('Add at least one keyword that is not excluded with NOT.');
+      return;
+    }
+
+    recordSearch(terms);
+
+    // Typo tolerance, filters and sorting stay set for the new query
+    const next = new URLSearchParams({ q: formatQuery(query), mode });
+    if (urlSearch.fuzzy) next.set('fuzzy', '1');
+    writeFilters(next, filters);
+    if (sortParam) next.set('sort', sortParam);
+
+    if (next.toString() === searchParams.toString()) {
+      // Same URL, so no navigation: search again explicitly
+      runSearch(query, urlSearch.fuzzy);
     } else {
-      newSelected.add(contactId);
+      setSearchParams(next);
     }
-    setSelectedResults(newSelected);
+  };
+
+  // Takes effect at once: the last query runs again with the new setting
+  const handleFuzzyChange = (fuzzy: boolean) => {
+    const next = new URLSearchParams(searchParams);
+    if (fuzzy) next.set('fuzzy', '1');
+    else next.delete('fuzzy');
+    setSearchParams(next);
+  };
+
+  const handleDidYouMean = () => {
+    if (!didYouMean) return;
+    const { clauses, operator } = splitQuery(didYouMean, searchMode);
+    handleSearch(clauses.map(formatQuery), operator);
+  };
+
+  const handleTermsChange = (terms: string[]) => {
+    if (error && terms.length > 0) {
+      setError('');
+    }
+  };
+
+  const handleSearchModeChange = (mode: SearchMode) => {
+    setSearchMode(mode);
   };
 
   const handleSelectAll = () => {
-    if (selectedResults.size === results.length) {
-      setSelectedResults(new Set());
+    if (allShownSelected) {
+      selected.clear();
     } else {
-      setSelectedResults(new Set(results.map(r => r.contact_id)));
+      selected.selectOnly(filteredResults.map(r => r.contact_id));
     }
   };
 
   const createNewList = async () => {
+    if (!canCreateLists) {
+      setError('You do not have permission to create HubSpot lists');
+      return;
+    }
+
     const trimmedName = newListName.trim();
 
     if (!trimmedName) {
@@ -194,25 +531,9 @@ const SearchPage: React.FC = () => {
     setError('');
 
     try {
-      // Create the list
-      const createResponse = await fetch(`${BACKEND_URL}/hubspot/lists/create`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: newListName.trim()
-        }),
-        signal: AbortSignal.timeout(10000)
-      });
-
-      if (!createResponse.ok) {
-        const errorData = await createResponse.json().catch(() => ({}));
-        throw new Error(errorData.detail || `Failed to create list: ${createResponse.statusText}`);
-      }
-
-      const listData = await createResponse.json();
-      console.log('List created:', listData);
+      // Before creating the list, so a failure doesn't leave an empty one behind
+      const contactIds = await resolveSelectedIds();
+      const listData = await createHubSpotList({ name: trimmedName });
       const listId = listData.listId;
 
       if (!listId) {
@@ -220,45 +541,18 @@ const SearchPage: React.FC = () => {
       }
 
       // Add contacts to the new list
-      const contactIds = Array.from(selectedResults);
-      const addResponse = await fetch(`${BACKEND_URL}/hubspot/lists/${listId}/add_contacts`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contact_ids: contactIds
-        }),
-        signal: AbortSignal.timeout(10000)
-      });
-
-      if (!addResponse.ok) {
-        const errorData = await addResponse.json().catch(() => ({}));
-        throw new Error(errorData.detail || `Failed to add contacts to list: ${addResponse.statusText}`);
-      }
+      await addContactsToList(listId, { contact_ids: contactIds });
 
-      setAddSuccess(`Successfully created list "${newListName}" and added ${selectedResults.size} contacts`);
+      notify({ type: 'success', message: `Created list "${trimmedName}" and added ${contactIds.length} contacts` });
       setShowAddModal(false);
       setNewListName('');
-      setSelectedResults(new Set());
+      selected.clear();
       
       // Refresh the lists
       await loadHubSpotLists();
 
     } catch (err) {
-      let errorMessage = 'Failed to create list and add contacts';
-      
-      if (err instanceof Error) {
-        if (err.name === 'TypeError' && err.message.includes('fetch')) {
-          errorMessage = `Cannot connect to backend server. Please ensure the backend server is running at ${BACKEND_URL}.`;
-        } else if (err.name === 'TimeoutError') {
-          errorMessage = 'Request timed out. Please try again.';
-        } else {
-          errorMessage = err.message;
-        }
-      }
-      
-      setError(errorMessage);
+      setError(getErrorMessage(err, 'Failed to create list and add contacts'));
     } finally {
       setIsAddingToList(false);
     }
@@ -274,51 +568,27 @@ const SearchPage: React.FC = () => {
     setError('');
 
     try {
-      const contactIds = Array.from(selectedResults);
-      const response = await fetch(`${BACKEND_URL}/hubspot/lists/${selectedListId}/add_contacts`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contact_ids: contactIds
-        }),
-        signal: AbortSignal.timeout(10000)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.detail || `Failed to add contacts to list: ${response.statusText}`);
-      }
+      const contactIds = await resolveSelectedIds();
+      await addContactsToList(selectedListId, { contact_ids: contactIds });
 
       const selectedList = hubspotLists.find(list => list.listId === selectedListId);
 
-      setAddSuccess(`Successfully added ${selectedResults.size} contacts to "${selectedList?.name || 'selected list'}"`);
+      notify({ type: 'success', message: `Added ${contactIds.length} contacts to "${selectedList?.name || 'selected list'}"` });
       setShowAddModal(false);
       setSelectedListId('');
-      setSelectedResults(new Set());
+      selected.clear();
 
     } catch (err) {
-      let errorMessage = 'Failed to add contacts to list';
-      
-      if (err instanceof Error) {
-        if (err.name === 'TypeError' && err.message.includes('fetch')) {
-          errorMessage = `Cannot connect to backend server. Please ensure the backend server is running at ${BACKEND_URL}.`;
-        } else if (err.name === 'TimeoutError') {
-          errorMessage = 'Request timed out. Please try again.';
-        } else {
-          errorMessage = err.message;
-        }
-      }
-      
-      setError(errorMessage);
+      setError(getErrorMessage(err, 'Failed to add contacts to list'));
     } finally {
       setIsAddingToList(false);
     }
   };
 
-  const generateHubSpotLink = (contactId: string): string => {
-    return `https://app.hubspot.com/contacts/146170484/contact/${contactId}`;
+  // e.g. "JS → JavaScript" when a synonym or close spelling of the search term matched
+  const keywordLabel = (keyword: string) => {
+    const synonymOf = lastSynonyms.get(keyword.toLowerCase());
+    return synonymOf ? `${synonymOf} → ${keyword}` : keyword;
   };
 
   const highlightText = (text: string, searchTerms: string[]): React.ReactNode => {
@@ -328,15 +598,20 @@ const SearchPage: React.FC = () => {
     const regex = new RegExp(`(${escapedTerms.join('|')})`, 'gi');
     const parts = text.split(regex);
     
-    return parts.map((part, index) => 
-      escapedTerms.some(term => new RegExp(term, 'gi').test(part)) ? (
-        <mark key={index} className="bg-yellow-200 px-1 rounded">
+    return parts.map((part, index) => {
+      if (!escapedTerms.some(term => new RegExp(term, 'gi').test(part))) return part;
+      // Synonyms and typo matches are marked in another colour, and say which search term they matched for
+      const synonymOf = lastSynonyms.get(part.toLowerCase());
+      return synonymOf ? (
+        <mark key={index} className="bg-orange-200 px-1 rounded" title={`Found for "${synonymOf}"`}>
           {part}
         </mark>
       ) : (
-        part
-      )
-    );
+        <mark key={index} className="bg-yellow-200 px-1 rounded">
+          {part}
+        </mark>
+      );
+    });
   };
   
   return (
@@ -357,27 +632,18 @@ const SearchPage: React.FC = () => {
           </div>
         </div>
 
-        {/* Success Message */}
-        {addSuccess && (
-          <div className="mb-6 flex items-center space-x-2 text-green-600 bg-green-50 p-4 rounded-lg border border-green-200">
-            <Check className="h-5 w-5 flex-shrink-0" />
-            <span className="text-sm">{addSuccess}</span>
-            <button
-              onClick={() => setAddSuccess('')}
-              className="ml-auto text-green-600 hover:text-green-800"
-            >
-              <X className="w-4 h-4" />
-            </button>
-          </div>
-        )}
+        <SearchTabs />
 
         {/* Search Form */}
         <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm mb-8">
           <MultiSelectSearch
+            terms={urlSearch.clauses}
             onSearch={handleSearch}
             onTermsChange={handleTermsChange}
             isLoading={isLoading}
             placeholder="Type keywords like 'React', 'Python', 'Manager' and press Enter..."
+            getSuggestions={suggest}
+            onClearHistory={clearHistory}
           />
           
           {/* Search Mode Radio Buttons */}
@@ -425,6 +691,21 @@ const SearchPage: React.FC = () => {
                 <span className="font-medium">All Match:</span> Find candidates with all keywords present.
               </p>
             </div>
+            <label className="mt-4 flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={urlSearch.fuzzy}
+                onChange={(e) => handleFuzzyChange(e.target.checked)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
+                disabled={isLoading}
+              />
+              <span className="ml-2 text-sm text-gray-700">
+                <span className="font-medium">Typo-tolerant</span>
+                <span className="text-gray-500 ml-1">
+                  (also match misspellings and other forms of a word, e.g. "Pyhton" or "managing")
+                </span>
+              </span>
+            </label>
           </div>
           
           {error && (
@@ -433,185 +714,342 @@ const SearchPage: React.FC = () => {
               <span className="text-sm">{error}</span>
             </div>
           )}
+
+          {!error && resultWarnings.length > 0 && (
+            <div
+              className="flex items-center space-x-2 text-yellow-800 bg-yellow-50 p-3 rounded-lg border border-yellow-200 mt-4"
+              title={resultWarnings.join('\n')}
+            >
+              <AlertCircle className="h-5 w-5 flex-shrink-0" />
+              <span className="text-sm">
+                Some results came back incomplete ({resultWarnings.length} {resultWarnings.length === 1 ? 'problem' : 'problems'});
+                missing fields are left blank and unusable rows were skipped.
+              </span>
+            </div>
+          )}
         </div>
 
+        <SavedSearchesPanel
+          searches={savedSearches}
+          activeId={savedId}
+          currentParams={currentParams}
+          onSave={handleSaveSearch}
+          onRun={handleRunSaved}
+          onUpdate={handleUpdateSaved}
+          onDelete={handleDeleteSaved}
+          onScheduleChange={handleScheduleChange}
+        />
+
         {/* Search Results */}
         {hasSearched && (
-          <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
-            <div className="p-6 border-b border-gray-200">
-              <div className="flex items-center justify-between">
-                <div>
-                  <h3 className="text-lg font-semibold text-gray-900">Search Results</h3>
-                  <p className="text-sm text-gray-600 mt-1">
-                    {isLoading ? 'Searching...' : 
-                     lastSearchTerms.length > 0 ? `Found ${results.length} candidates for "${lastSearchTerms.join(', ')}"` :
-                     'Enter keywords and click Search to find candidates'
-                    }
-                  </p>
+          <div className={`grid grid-cols-1 gap-6 items-start ${showFilters ? 'lg:grid-cols-[16rem_minmax(0,1fr)]' : ''}`}>
+            {showFilters && (
+              <SearchFilterSidebar
+                filters={filters}
+                facets={facets}
+                onChange={handleFiltersChange}
+                onReset={() => handleFiltersChange(EMPTY_FILTERS)}
+              />
+            )}
+            <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+              <div className="p-6 border-b border-gray-200">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">Search Results</h3>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {isLoading ? 'Searching...' : 
+                       lastQuery && activeFilterCount > 0 ? `Showing ${filteredResults.length} of ${results.length} loaded candidates (${totalLabel} in total) for "${lastQuery}"` :
+                       lastQuery ? `Found ${totalLabel} candidates for "${lastQuery}"` :
+                       'Enter keywords and click Search to find candidates'
+                      }
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    {filteredResults.length > 0 && (
+                      <>
+                        <div className="flex items-center space-x-2 text-sm text-gray-500">
+                          <Users className="w-4 h-4" />
+                          <span>{nextCursor ? `${results.length} of ${totalLabel} loaded` : `${filteredResults.length} results`}</span>
+                        </div>
+                        {newCandidateIds.size > 0 && (
+                          <span className="text-sm font-medium text-green-700">
+                            {newCandidateIds.size} new since the last run
+                          </span>
+                        )}
+                        {sortParam && (
+                          <button
+                            onClick={() => handleSortChange(DEFAULT_SORT)}
+                            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                          >
+                            Sort by relevance
+                          </button>
+                        )}
+                        {canAddContacts && !selected.isEmpty && (
+                          <button
+                            onClick={() => setShowAddModal(true)}
+                            className="inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white font-medium px-4 py-2 rounded-lg transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                          >
+                            <Plus className="w-4 h-4" />
+                            <span>Add to HubSpot ({selectedCount ?? 'all'})</span>
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </div>
                 </div>
-                <div className="flex items-center space-x-4">
-                  {results.length > 0 && (
+              </div>
+
+              {canAddContacts && !isLoading && (selected.selection.allMatching || (allShownSelected && nextCursor)) && (
+                <div className="px-6 py-2 bg-blue-50 border-b border-blue-100 text-sm text-blue-900 text-center">
+                  {selected.selection.allMatching ? (
                     <>
-                      <div className="flex items-center space-x-2 text-sm text-gray-500">
-                        <Users className="w-4 h-4" />
-                        <span>{results.length} results</span>
-                      </div>
-                      {selectedResults.size > 0 && (
-                        <button
-                          onClick={() => setShowAddModal(true)}
-                          className="inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white font-medium px-4 py-2 rounded-lg transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-                        >
-                          <Plus className="w-4 h-4" />
-                          <span>Add to HubSpot ({selectedResults.size})</span>
-                        </button>
-                      )}
+                      {selectedCount !== undefined
+                        ? `All ${selectedCount} matching candidates are selected`
+                        : 'All matching candidates are selected'}
+                      , including those not loaded yet.{' '}
+                      <button onClick={selected.clear} className="font-medium underline hover:text-blue-700">
+                        Clear selection
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      All {filteredResults.length} loaded candidates are selected.{' '}
+                      <button onClick={selected.selectAllMatching} className="font-medium underline hover:text-blue-700">
+                        {matchingCount !== undefined ? `Select all ${matchingCount} matching candidates` : 'Select all matching candidates'}
+                      </button>
                     </>
                   )}
                 </div>
-              </div>
-            </div>
+              )}
 
-            <div className="overflow-x-auto">
-              {isLoading ? (
-                <div className="flex items-center justify-center py-12">
-                  <div className="text-center">
-                    <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
-                    <p className="text-gray-600">Searching candidates...</p>
+              <div ref={virtualRows.ref} onScroll={virtualRows.onScroll} className="overflow-auto max-h-[70vh]">
+                {isLoading ? (
+                  <div className="flex items-center justify-center py-12">
+                    <div className="text-center">
+                      <Loader2 className="w-8 h-8 animate-spin text-blue-600 mx-auto mb-4" />
+                      <p className="text-gray-600">Searching candidates...</p>
+                    </div>
                   </div>
-                </div>
-              ) : results.length > 0 ? (
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-50">
-                    <tr>
-                      <th className="px-6 py-3 text-left">
-                        <input
-                          type="checkbox"
-                          checked={selectedResults.size === results.length && results.length > 0}
-                          onChange={handleSelectAll}
-                          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-                        />
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Candidate
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Email
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Job Title
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Matched Keywords
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        CV URL
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        HubSpot URL
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {results.map((candidate, index) => (
-                      <tr key={candidate.contact_id || index} className="hover:bg-gray-50 transition-colors">
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <input
-                            type="checkbox"
-                            checked={selectedResults.has(candidate.contact_id)}
-                            onChange={() => handleSelectResult(candidate.contact_id)}
-                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-                          />
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex items-center">
-                            <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
-                              <span className="text-blue-600 font-medium text-sm">
-                                {candidate.name ? candidate.name.charAt(0).toUpperCase() : 'N'}
-                              </span>
-                            </div>
-                            <div className="ml-4">
-                              <div className="text-sm font-medium text-gray-900">
-                                {highlightText(candidate.name || 'N/A', lastSearchTerms)}
+                ) : filteredResults.length > 0 ? (
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50 sticky top-0 z-10">
+                      <tr>
+                        {canAddContacts && (
+                          <th className="px-6 py-3 text-left">
+                            <input
+                              type="checkbox"
+                              checked={allShownSelected}
+                              onChange={handleSelectAll}
+                              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                            />
+                          </th>
+                        )}
+                        <SortHeader label="Candidate" sortKey="name" specs={sortSpecs} onSort={handleSort} />
+                        <SortHeader label="Email" sortKey="email" specs={sortSpecs} onSort={handleSort} />
+                        <SortHeader label="Job Title" sortKey="job_title" specs={sortSpecs} onSort={handleSort} />
+                        <SortHeader label="Matched Keywords" sortKey="matched" specs={sortSpecs} onSort={handleSort} />
+                        <SortHeader label="Relevance" sortKey="relevance" specs={sortSpecs} onSort={handleSort} />
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          CV URL
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          HubSpot URL
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {virtualRows.paddingTop > 0 && <tr aria-hidden style={{ height: virtualRows.paddingTop }} />}
+                      {sortedResults.slice(virtualRows.start, virtualRows.end).map((candidate, index) => (
+                        <tr
+                          key={candidate.contact_id || virtualRows.start + index}
+                          style={{ height: ROW_HEIGHT }}
+                          className={`${newCandidateIds.has(candidate.contact_id) ? 'bg-green-50' : ''} hover:bg-gray-50 transition-colors`}
+                        >
+                          {canAddContacts && (
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <input
+                                type="checkbox"
+                                checked={selected.isSelected(candidate.contact_id)}
+                                onChange={() => selected.toggle(candidate.contact_id)}
+                                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                              />
+                            </td>
+                          )}
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center">
+                              <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
+                                <span className="text-blue-600 font-medium text-sm">
+                                  {candidate.name ? candidate.name.charAt(0).toUpperCase() : 'N'}
+                                </span>
                               </div>
-                              <div className="text-sm text-gray-500">
-                                ID: {candidate.contact_id}
+                              <div className="ml-4">
+                                <Link
+                                  to={`/candidates/${encodeURIComponent(candidate.contact_id)}`}
+                                  state={{ candidate }}
+                                  className="text-sm font-medium text-gray-900 hover:text-blue-700 hover:underline"
+                                >
+                                  {highlightText(candidate.name || 'N/A', lastSearchTerms)}
+                                </Link>
+                                {newCandidateIds.has(candidate.contact_id) && (
+                                  <span
+                                    className="ml-2 px-1.5 py-0.5 text-[10px] font-semibold uppercase rounded bg-green-100 text-green-800"
+                                    title="Not found by earlier runs of this saved search"
+                                  >
+                                    New
+                                  </span>
+                                )}
+                                <div className="text-sm text-gray-500">
+                                  ID: {candidate.contact_id}
+                                </div>
                               </div>
                             </div>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">
-                            {candidate.email || 'N/A'}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">
-                            {highlightText(candidate.job_title || 'N/A', lastSearchTerms)}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex flex-wrap gap-1">
-                            {candidate.matched_keywords && candidate.matched_keywords.length > 0 ? (
-                              candidate.matched_keywords.map((keyword, keywordIndex) => (
-                                <span
-                                  key={keywordIndex}
-                                  className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
-                                >
-                                  {keyword}
-                                </span>
-                              ))
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">
+                              {candidate.email || 'N/A'}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">
+                              {highlightText(candidate.job_title || 'N/A', lastSearchTerms)}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {/* One line, so every row has the same height */}
+                            <div className="flex gap-1 max-w-xs overflow-hidden" title={candidate.matched_keywords.map(keywordLabel).join(', ')}>
+                              {candidate.matched_keywords.length > 0 ? (
+                                candidate.matched_keywords.map((keyword, keywordIndex) => {
+                                  const synonymOf = lastSynonyms.get(keyword.toLowerCase());
+                                  return synonymOf ? (
+                                    <span
+                                      key={keywordIndex}
+                                      className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+                                      title={`Matched "${keyword}" for "${synonymOf}"`}
+                                    >
+                                      <span className="opacity-70">{synonymOf}&nbsp;→&nbsp;</span>
+                                      {keyword}
+                                    </span>
+                                  ) : (
+                                    <span
+                                      key={keywordIndex}
+                                      className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                                    >
+                                      {keyword}
+                                    </span>
+                                  );
+                                })
+                              ) : (
+                                <span className="text-sm text-gray-500">No matches</span>
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center space-x-2" title="Relevance: matched keywords, title matches and how often the terms appear">
+                              <div className="w-16 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-blue-500 rounded-full"
+                                  style={{ width: `${((scores.get(candidate.contact_id) ?? 0) / maxScore) * 100}%` }}
+                                />
+                              </div>
+                              <span className="text-xs text-gray-500 tabular-nums">{scores.get(candidate.contact_id) ?? 0}</span>
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            {candidate.cv_url_link ? (
+                              <button
+                                onClick={() => setPreviewCandidate(candidate)}
+                                className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-900 transition-colors"
+                              >
+                                <FileText className="w-4 h-4" />
+                                <span>View CV</span>
+                              </button>
                             ) : (
-                              <span className="text-sm text-gray-500">No matches</span>
+                              <span className="text-gray-400 text-sm">N/A</span>
                             )}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                          {candidate.cv_url_link ? (
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                             <a
-                              href={candidate.cv_url_link}
+                              href={hubSpotContactUrl(candidate.contact_id)}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-900 transition-colors"
                             >
-                              <FileText className="w-4 h-4" />
-                              <span>View CV</span>
+                              <ExternalLink className="w-4 h-4" />
+                              <span>View Contact</span>
                             </a>
-                          ) : (
-                            <span className="text-gray-400 text-sm">N/A</span>
-                          )}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                          <a
-                            href={generateHubSpotLink(candidate.contact_id)}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="inline-flex items-center space-x-1 text-blue-600 hover:text-blue-900 transition-colors"
-                          >
-                            <ExternalLink className="w-4 h-4" />
-                            <span>View Contact</span>
-                          </a>
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              ) : hasSearched && !isLoading ? (
-                <div className="text-center py-12">
-                  <Search className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-                  <h3 className="text-lg font-medium text-gray-900 mb-2">No candidates found</h3>
-                  <p className="text-gray-600 mb-4">
-                    No candidates match your search for "{lastSearchTerms.join(', ')}". Try different keywords or check your spelling.
-                  </p>
-                  <div className="text-sm text-gray-500">
-                    <p className="mb-2">Search tips:</p>
-                    <ul className="space-y-1">
-                      <li>• Add multiple keywords like "React" + "Developer"</li>
-                      <li>• Use broader terms like "developer" instead of specific titles</li>
-                      <li>• Try skill names like "Python", "JavaScript", "Marketing"</li>
-                    </ul>
+                          </td>
+                        </tr>
+                      ))}
+                      {virtualRows.paddingBottom > 0 && <tr aria-hidden style={{ height: virtualRows.paddingBottom }} />}
+                    </tbody>
+                  </table>
+                ) : results.length > 0 ? (
+                  <div className="text-center py-12">
+                    <Search className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No candidates match the filters</h3>
+                    <p className="text-gray-600 mb-4">
+                      {results.length} {results.length === 1 ? 'candidate matches' : 'candidates match'} "{lastQuery}", but the filters hide all of them.
+                    </p>
+                    <button
+                      onClick={() => handleFiltersChange(EMPTY_FILTERS)}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      Reset filters
+                    </button>
                   </div>
+                ) : hasSearched && !isLoading ? (
+                  <div className="text-center py-12">
+                    <Search className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">No candidates found</h3>
+                    <p className="text-gray-600 mb-4">
+                      No candidates match your search for "{lastQuery}". Try different keywords or check your spelling.
+                    </p>
+                    {didYouMean && (
+                      <p className="text-gray-700 mb-4">
+                        Did you mean{' '}
+                        <button onClick={handleDidYouMean} className="font-medium text-blue-600 hover:text-blue-800 underline">
+                          {formatQuery(didYouMean)}
+                        </button>
+                        ?
+                      </p>
+                    )}
+                    {!urlSearch.fuzzy && (
+                      <button
+                        onClick={() => handleFuzzyChange(true)}
+                        className="mb-4 text-sm font-medium text-blue-600 hover:text-blue-800"
+                      >
+                        Search again with typo tolerance
+                      </button>
+                    )}
+                    <div className="text-sm text-gray-500">
+                      <p className="mb-2">Search tips:</p>
+                      <ul className="space-y-1">
+                        <li>• Add multiple keywords like "React" + "Developer"</li>
+                        <li>• Use broader terms like "developer" instead of specific titles</li>
+                        <li>• Try skill names like "Python", "JavaScript", "Marketing"</li>
+                      </ul>
+                    </div>
+                  </div>
+                ) : null}
+              </div>
+
+              {nextCursor && !isLoading && (
+                <div className="flex items-center justify-center space-x-3 px-6 py-3 border-t border-gray-200 text-sm">
+                  {isLoadingMore ? (
+                    <span className="inline-flex items-center space-x-2 text-gray-600">
+                      <Loader2 className="w-4 h-4 animate-spin text-blue-600" />
+                      <span>Loading more candidates...</span>
+                    </span>
+                  ) : (
+                    <>
+                      {loadMoreError && <span className="text-red-600">{loadMoreError}</span>}
+                      <button onClick={loadMore} className="font-medium text-blue-600 hover:text-blue-800">
+                        {loadMoreError ? 'Retry' : `Load more (${results.length} of ${totalLabel} loaded)`}
+                      </button>
+                    </>
+                  )}
                 </div>
-              ) : null}
+              )}
             </div>
           </div>
         )}
@@ -622,7 +1060,7 @@ const SearchPage: React.FC = () => {
             <div className="bg-white rounded-xl max-w-md w-full p-6 shadow-2xl">
               <div className="flex items-center justify-between mb-6">
                 <h3 className="text-lg font-semibold text-gray-900">
-                  Add {selectedResults.size} Candidates to HubSpot
+                  Add {selectedCount ?? 'all matching'} Candidates to HubSpot
                 </h3>
                 <button
                   onClick={() => {
@@ -642,7 +1080,9 @@ const SearchPage: React.FC = () => {
                 <div className="flex space-x-4">
                   <button
                     onClick={() => setAddMode('create')}
-                    className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-colors ${
+                    disabled={!canCreateLists}
+                    title={canCreateLists ? undefined : 'You do not have permission to create lists'}
+                    className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                       addMode === 'create'
                         ? 'bg-blue-100 text-blue-800 border-2 border-blue-300'
                         : 'bg-gray-100 text-gray-700 border-2 border-transparent hover:bg-gray-200'
@@ -785,6 +1225,15 @@ const SearchPage: React.FC = () => {
             </div>
           </div>
         )}
+
+        {previewCandidate?.cv_url_link && (
+          <DocumentPreview
+            source={previewCandidate.cv_url_link}
+            title={previewCandidate.name || 'CV'}
+            highlightTerms={lastSearchTerms}
+            onClose={() => setPreviewCandidate(null)}
+          />
+        )}
       </main>
     </div>
   );
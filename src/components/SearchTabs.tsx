@@ -0,0 +1,31 @@
+import React from 'react';
+import { NavLink } from 'react-router-dom';
+import { Briefcase, Search } from 'lucide-react';
+
+const TABS = [
+  { to: '/search', label: 'Keyword Search', icon: Search, end: true },
+  { to: '/search/job', label: 'Match to Job', icon: Briefcase, end: false },
+];
+
+/** Switches between the keyword search and matching candidates to a job description. */
+const SearchTabs: React.FC = () => (
+  <nav className="flex space-x-1 border-b border-gray-200 mb-6">
+    {TABS.map(({ to, label, icon: Icon, end }) => (
+      <NavLink
+        key={to}
+        to={to}
+        end={end}
+        className={({ isActive }) =>
+          `flex items-center space-x-2 px-4 py-2 -mb-px border-b-2 text-sm font-medium transition-colors ${
+            isActive ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-600 hover:text-gray-900'
+          }`
+        }
+      >
+        <Icon className="w-4 h-4" />
+        <span>{label}</span>
+      </NavLink>
+    ))}
+  </nav>
+);
+
+export default SearchTabs;
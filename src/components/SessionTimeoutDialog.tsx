@@ -0,0 +1,55 @@
+import React from 'react';
+import { Clock, LogOut } from 'lucide-react';
+
+interface SessionTimeoutDialogProps {
+  remainingMs: number;
+  onStay: () => void;
+  onLogout: () => void;
+}
+
+const SessionTimeoutDialog: React.FC<SessionTimeoutDialogProps> = ({ remainingMs, onStay, onLogout }) => {
+  const seconds = Math.max(0, Math.ceil(remainingMs / 1000));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <div
+        role="alertdialog"
+        aria-labelledby="session-timeout-title"
+        aria-describedby="session-timeout-description"
+        className="bg-white rounded-xl max-w-sm w-full p-6 shadow-2xl"
+      >
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="bg-orange-100 p-2 rounded-lg">
+            <Clock className="w-5 h-5 text-orange-600" />
+          </div>
+          <h3 id="session-timeout-title" className="text-lg font-semibold text-gray-900">
+            Are you still there?
+          </h3>
+        </div>
+        <p id="session-timeout-description" className="text-sm text-gray-600 mb-6">
+          You will be signed out in{' '}
+          <span className="font-semibold text-gray-900">{seconds} second{seconds !== 1 ? 's' : ''}</span>{' '}
+          because of inactivity.
+        </p>
+        <div className="flex space-x-3">
+          <button
+            onClick={onLogout}
+            className="flex-1 inline-flex items-center justify-center space-x-2 px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors font-medium"
+          >
+            <LogOut className="w-4 h-4" />
+            <span>Log out</span>
+          </button>
+          <button
+            onClick={onStay}
+            autoFocus
+            className="flex-1 px-4 py-2 text-white font-medium bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            Stay signed in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionTimeoutDialog;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { config } from '../config';
+import { useAuth } from '../contexts/AuthContext';
+import { ROLE_LABELS, rolesOf } from '../services/permissions';
+import SkillTaxonomyEditor from './SkillTaxonomyEditor';
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex items-center justify-between py-3 border-b border-gray-100 last:border-b-0">
+    <span className="text-sm text-gray-600">{label}</span>
+    <span className="text-sm font-medium text-gray-900">{children}</span>
+  </div>
+);
+
+const SettingsPage: React.FC = () => {
+  const { user } = useAuth();
+  const minutes = (ms: number) => `${Math.round(ms / 60000)} min`;
+
+  return (
+    <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Settings</h2>
+        <p className="text-gray-600 mt-2">Your account and how this app is connected.</p>
+      </div>
+
+      <section className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Account</h3>
+        <Row label="Username">{user?.username}</Row>
+        <Row label="Roles">{rolesOf(user).map((role) => ROLE_LABELS[role]).join(', ') || 'None'}</Row>
+        <Row label="Idle sign-out">{minutes(config.session.idleTimeoutMs)}</Row>
+      </section>
+
+      <section className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Backend</h3>
+        <Row label="Mode">{config.mockBackend ? 'Mock (offline demo data)' : 'Live'}</Row>
+        <Row label="Base URL">{config.backendUrl}</Row>
+        <Row label="Search timeout">{config.timeouts.search / 1000}s</Row>
+      </section>
+
+      <SkillTaxonomyEditor />
+    </main>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useSkillTaxonomy } from '../hooks/useSkillTaxonomy';
+import { useNotifications } from '../hooks/useNotifications';
+import { resetSkillTaxonomy, saveSkillTaxonomy } from '../services/skillTaxonomy';
+import { getErrorMessage } from '../services/api';
+import { splitSkills } from '../utils/resumeValidation';
+import { validateTaxonomy, type TaxonomyEntry } from '../utils/skillTaxonomy';
+
+// Entries as edited: the lists are comma-separated text until saved
+interface DraftEntry {
+  name: string;
+  synonyms: string;
+  abbreviations: string;
+  children: string;
+}
+
+const toDraft = (taxonomy: TaxonomyEntry[]): DraftEntry[] =>
+  taxonomy.map((entry) => ({
+    name: entry.name,
+    synonyms: entry.synonyms.join(', '),
+    abbreviations: entry.abbreviations.join(', '),
+    children: entry.children.join(', '),
+  }));
+
+const fromDraft = (draft: DraftEntry[]): TaxonomyEntry[] =>
+  draft
+    .filter((entry) => Object.values(entry).some((value) => value.trim()))
+    .map((entry) => ({
+      name: entry.name.trim(),
+      synonyms: splitSkills(entry.synonyms),
+      abbreviations: splitSkills(entry.abbreviations),
+      children: splitSkills(entry.children),
+    }));
+
+const inputClass =
+  'w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const SkillTaxonomyEditor: React.FC = () => {
+  const taxonomy = useSkillTaxonomy();
+  const { notify } = useNotifications();
+  const [draft, setDraft] = useState<DraftEntry[]>(() => toDraft(taxonomy));
+  const [isDirty, setIsDirty] = useState(false);
+
+  // Edits saved elsewhere show up here, unless there are unsaved ones
+  useEffect(() => {
+    if (!isDirty) setDraft(toDraft(taxonomy));
+  }, [taxonomy, isDirty]);
+
+  const entries = fromDraft(draft);
+  const errors = validateTaxonomy(entries);
+
+  const updateEntry = (index: number, change: Partial<DraftEntry>) => {
+    setDraft((current) => current.map((entry, i) => (i === index ? { ...entry, ...change } : entry)));
+    setIsDirty(true);
+  };
+
+  const removeEntry = (index: number) => {
+    setDraft((current) => current.filter((_, i) => i !== index));
+    setIsDirty(true);
+  };
+
+  const addEntry = () => {
+    setDraft((current) => [...current, { name: '', synonyms: '', abbreviations: '', children: '' }]);
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    try {
+      saveSkillTaxonomy(entries);
+      setIsDirty(false);
+      notify({ type: 'success', message: 'Skill taxonomy saved. It applies from the next search.' });
+    } catch (err) {
+      notify({ type: 'error', message: getErrorMessage(err, 'Failed to save the skill taxonomy') });
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Replace the skill taxonomy with the built-in one? Your changes will be lost.')) return;
+    resetSkillTaxonomy();
+    setIsDirty(false);
+  };
+
+  const handleDiscard = () => {
+    setDraft(toDraft(taxonomy));
+    setIsDirty(false);
+  };
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">Skill Taxonomy</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Search terms also look for a skill's synonyms and the skills it covers, e.g. "JS" finds "JavaScript" and
+        "Frontend" finds React, Vue and Angular. Abbreviations find the skill but aren't searched for themselves,
+        since short words turn up inside longer ones. Separate several values with commas. The taxonomy is a
+        preference of this browser: it applies to searches made here, by anyone signing in on it.
+      </p>
+
+      <div className="grid grid-cols-[1fr_1.2fr_1fr_1.2fr_auto] gap-2 text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+        <span>Skill</span>
+        <span>Synonyms</span>
+        <span>Abbreviations</span>
+        <span>Covers</span>
+        <span className="sr-only">Remove</span>
+      </div>
+      <div className="space-y-2">
+        {draft.map((entry, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1.2fr_1fr_1.2fr_auto] gap-2 items-center">
+            <input
+              type="text"
+              value={entry.name}
+              onChange={(e) => updateEntry(index, { name: e.target.value })}
+              placeholder="JavaScript"
+              aria-label="Skill"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={entry.synonyms}
+              onChange={(e) => updateEntry(index, { synonyms: e.target.value })}
+              placeholder="ECMAScript"
+              aria-label={`Synonyms of ${entry.name || 'this skill'}`}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={entry.abbreviations}
+              onChange={(e) => updateEntry(index, { abbreviations: e.target.value })}
+              placeholder="JS"
+              aria-label={`Abbreviations of ${entry.name || 'this skill'}`}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={entry.children}
+              onChange={(e) => updateEntry(index, { children: e.target.value })}
+              placeholder="Narrower skills"
+              aria-label={`Skills ${entry.name || 'this skill'} covers`}
+              className={inputClass}
+            />
+            <button
+              type="button"
+              onClick={() => removeEntry(index)}
+              className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+              title={`Remove ${entry.name || 'this skill'}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={addEntry}
+        className="mt-3 inline-flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-800"
+      >
+        <Plus className="w-4 h-4" />
+        <span>Add skill</span>
+      </button>
+
+      {errors.length > 0 && (
+        <ul role="alert" className="mt-4 space-y-1 text-sm text-red-600">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-6 flex items-center justify-between">
+        <button
+          type="button"
+          onClick={handleReset}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Reset to built-in taxonomy
+        </button>
+        <div className="flex items-center space-x-2">
+          {isDirty && (
+            <button
+              type="button"
+              onClick={handleDiscard}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg"
+            >
+              Discard changes
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!isDirty || errors.length > 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-lg"
+          >
+            Save taxonomy
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default SkillTaxonomyEditor;
@@ -1,46 +1,75 @@
 import React, { useEffect } from 'react';
-import { CheckCircle, AlertCircle, X } from 'lucide-react';
+import { CheckCircle, AlertCircle, AlertTriangle, Info, X } from 'lucide-react';
+import type { NotificationItem, NotificationType } from '../hooks/useNotifications';
 
 interface ToastProps {
-  type: 'success' | 'error';
-  message: string;
-  onClose: () => void;
-  duration?: number;
+  notification: NotificationItem;
+  onClose: (id: number) => void;
 }
 
-const Toast: React.FC<ToastProps> = ({ type, message, onClose, duration = 5000 }) => {
+const styles: Record<NotificationType, { box: string; text: string; icon: string; Icon: typeof Info; title: string }> = {
+  success: { box: 'bg-green-50 border-green-200', text: 'text-green-800', icon: 'text-green-600', Icon: CheckCircle, title: 'Success' },
+  error: { box: 'bg-red-50 border-red-200', text: 'text-red-800', icon: 'text-red-600', Icon: AlertCircle, title: 'Error' },
+  warning: { box: 'bg-yellow-50 border-yellow-200', text: 'text-yellow-800', icon: 'text-yellow-600', Icon: AlertTriangle, title: 'Warning' },
+  info: { box: 'bg-blue-50 border-blue-200', text: 'text-blue-800', icon: 'text-blue-600', Icon: Info, title: 'Info' },
+};
+
+const Toast: React.FC<ToastProps> = ({ notification, onClose }) => {
+  const { id, type, title, message, details, action } = notification;
+  // Reports with details take longer to read
+  const duration = notification.duration ?? (details?.length ? 10000 : 5000);
+
   useEffect(() => {
+    if (duration === 0) return;
     const timer = setTimeout(() => {
-      onClose();
+      onClose(id);
     }, duration);
 
     return () => clearTimeout(timer);
-  }, [onClose, duration]);
+  }, [id, onClose, duration]);
 
-  const bgColor = type === 'success' ? 'bg-green-50' : 'bg-red-50';
-  const borderColor = type === 'success' ? 'border-green-200' : 'border-red-200';
-  const textColor = type === 'success' ? 'text-green-800' : 'text-red-800';
-  const iconColor = type === 'success' ? 'text-green-600' : 'text-red-600';
-  const Icon = type === 'success' ? CheckCircle : AlertCircle;
+  const { box, text, icon, Icon, title: defaultTitle } = styles[type];
 
   return (
-    <div className={`max-w-sm w-full ${bgColor} ${borderColor} border rounded-lg shadow-lg p-4 animate-in slide-in-from-right-full duration-300`}>
+    <div
+      role={type === 'error' ? 'alert' : 'status'}
+      className={`max-w-sm w-full ${box} border rounded-lg shadow-lg p-4 animate-in slide-in-from-right-full duration-300`}
+    >
       <div className="flex items-start">
         <div className="flex-shrink-0">
-          <Icon className={`w-5 h-5 ${iconColor}`} />
+          <Icon className={`w-5 h-5 ${icon}`} />
         </div>
-        <div className="ml-3 flex-1">
-          <p className={`text-sm font-medium ${textColor}`}>
-            {type === 'success' ? 'Success' : 'Error'}
+        <div className="ml-3 flex-1 min-w-0">
+          <p className={`text-sm font-medium ${text}`}>
+            {title ?? defaultTitle}
           </p>
-          <p className={`text-sm ${textColor} mt-1`}>
+          <p className={`text-sm ${text} mt-1`}>
             {message}
           </p>
+          {details && details.length > 0 && (
+            <ul className={`mt-2 space-y-1 text-xs ${text} max-h-40 overflow-y-auto`}>
+              {details.map((detail) => (
+                <li key={detail} className="break-words">{detail}</li>
+              ))}
+            </ul>
+          )}
+          {action && (
+            <button
+              onClick={() => {
+                action.onClick();
+                onClose(id);
+              }}
+              className={`mt-2 text-sm font-medium underline ${text} hover:opacity-75 transition-opacity`}
+            >
+              {action.label}
+            </button>
+          )}
         </div>
         <div className="ml-4 flex-shrink-0">
           <button
-            onClick={onClose}
-            className={`inline-flex ${textColor} hover:opacity-75 transition-opacity`}
+            onClick={() => onClose(id)}
+            className={`inline-flex ${text} hover:opacity-75 transition-opacity`}
+            title="Dismiss"
           >
             <X className="w-4 h-4" />
           </button>
@@ -50,4 +79,4 @@ const Toast: React.FC<ToastProps> = ({ type, message, onClose, duration = 5000 }
   );
 };
 
-export default Toast;
\ No newline at end of file
+export default Toast;
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import {
+  File,
+  X,
+  CheckCircle,
+  AlertCircle,
+  Clock,
+  Pause,
+  Play,
+  RotateCw,
+  Ban,
+  Eye,
+  Columns2,
+} from 'lucide-react';
+import type { UploadItem, UploadQueue } from '../services/uploadQueue';
+import { previewKindOf } from '../services/documentPreview';
+import { formatFileSize, formatTimestamp } from '../utils/format';
+import DocumentPreview from './DocumentPreview';
+import ResumeSplitView from './ResumeSplitView';
+import DuplicateCandidatePrompt from './DuplicateCandidatePrompt';
+import ResumeReviewForm from './ResumeReviewForm';
+
+interface UploadListItemProps {
+  item: UploadItem;
+  queue: UploadQueue;
+}
+
+const statusStyles: Record<UploadItem['status'], { icon: typeof File; box: string; iconColor: string }> = {
+  queued: { icon: Clock, box: 'bg-gray-100', iconColor: 'text-gray-500' },
+  uploading: { icon: File, box: 'bg-blue-100', iconColor: 'text-blue-600' },
+  retrying: { icon: RotateCw, box: 'bg-orange-100', iconColor: 'text-orange-600' },
+  paused: { icon: Pause, box: 'bg-gray-100', iconColor: 'text-gray-600' },
+  success: { icon: CheckCircle, box: 'bg-green-100', iconColor: 'text-green-600' },
+  error: { icon: AlertCircle, box: 'bg-red-100', iconColor: 'text-red-600' },
+  cancelled: { icon: Ban, box: 'bg-gray-100', iconColor: 'text-gray-400' },
+};
+
+/** Seconds left until `timestamp`, re-rendered every second. */
+const useCountdown = (timestamp?: number) => {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!timestamp) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timestamp]);
+  return timestamp ? Math.max(0, Math.ceil((timestamp - now) / 1000)) : 0;
+};
+
+const iconButton = 'p-1 text-gray-400 transition-colors';
+
+const UploadListItem: React.FC<UploadListItemProps> = ({ item: uploadedFile, queue }) => {
+  const { status } = uploadedFile;
+  const { icon: StatusIcon, box, iconColor } = statusStyles[status];
+  const retryIn = useCountdown(status === 'retrying' ? uploadedFile.nextRetryAt : undefined);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [isSplitViewOpen, setIsSplitViewOpen] = useState(false);
+  const canPreview = previewKindOf(uploadedFile.file.type) !== null;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm hover:shadow-md transition-shadow">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-3 flex-1 min-w-0">
+          <div className={`p-2 rounded-lg ${box}`}>
+            <StatusIcon className={`w-5 h-5 ${iconColor}`} />
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-gray-900 truncate">
+              {uploadedFile.file.name}
+            </p>
+            <p className="text-xs text-gray-500">
+              {formatFileSize(uploadedFile.file.size)} · {formatTimestamp(uploadedFile.createdAt)}
+              {uploadedFile.attempts > 1 && ` · attempt ${uploadedFile.attempts}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          {status === 'uploading' && (
+            <div className="flex items-center space-x-2">
+              <div className="w-24 bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${uploadedFile.progress}%` }}
+                />
+              </div>
+              <span className="text-xs text-gray-500 w-10">
+                {Math.round(uploadedFile.progress)}%
+              </span>
+            </div>
+          )}
+
+          {status === 'queued' && <span className="text-xs text-gray-500 font-medium">Queued</span>}
+          {status === 'retrying' && (
+            <span className="text-xs text-orange-600 font-medium">Retrying in {retryIn}s</span>
+          )}
+          {status === 'paused' && <span className="text-xs text-gray-600 font-medium">Paused</span>}
+          {status === 'cancelled' && <span className="text-xs text-gray-500 font-medium">Cancelled</span>}
+
+          {status === 'success' && (
+            <span className="text-xs text-green-600 font-medium">Parsed</span>
+          )}
+
+          {status === 'error' && (
+            <span className="text-xs text-red-600 font-medium">Failed</span>
+          )}
+
+          {canPreview && (
+            <button
+              onClick={() => setIsPreviewOpen(true)}
+              className={`${iconButton} hover:text-blue-600`}
+              title="Preview"
+            >
+              <Eye className="w-4 h-4" />
+            </button>
+          )}
+          {canPreview && status === 'success' && uploadedFile.parsedData && (
+            <button
+              onClick={() => setIsSplitViewOpen(true)}
+              className={`${iconButton} hover:text-blue-600`}
+              title="Compare with the original"
+            >
+              <Columns2 className="w-4 h-4" />
+            </button>
+          )}
+          {(status === 'queued' || status === 'uploading' || status === 'retrying') && (
+            <button
+              onClick={() => queue.pause(uploadedFile.id)}
+              className={`${iconButton} hover:text-gray-700`}
+              title="Pause"
+            >
+              <Pause className="w-4 h-4" />
+            </button>
+          )}
+          {status === 'paused' && (
+            <button
+              onClick={() => queue.resume(uploadedFile.id)}
+              className={`${iconButton} hover:text-blue-600`}
+              title="Resume"
+            >
+              <Play className="w-4 h-4" />
+            </button>
+          )}
+          {(status === 'error' || status === 'cancelled') && (
+            <button
+              onClick={() => queue.retry(uploadedFile.id)}
+              className={`${iconButton} hover:text-blue-600`}
+              title="Retry"
+            >
+              <RotateCw className="w-4 h-4" />
+            </button>
+          )}
+
+          <button
+            onClick={() => queue.remove(uploadedFile.id)}
+            className={`${iconButton} hover:text-red-500`}
+            title={status === 'success' || status === 'error' || status === 'cancelled' ? 'Remove' : 'Cancel and remove'}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Ask what to do when the parsed candidate already exists */}
+      {status === 'success' && uploadedFile.parsedData && uploadedFile.duplicates && (
+        <DuplicateCandidatePrompt
+          data={uploadedFile.parsedData}
+          matches={uploadedFile.duplicates}
+          onResolved={(parsedData) => queue.resolveDuplicates(uploadedFile.id, parsedData)}
+        />
+      )}
+
+      {/* Review and correct parsed data for successful uploads */}
+      {status === 'success' && uploadedFile.parsedData && (
+        <ResumeReviewForm
+          data={uploadedFile.parsedData}
+          warnings={uploadedFile.warnings}
+          onChange={(parsedData) => queue.setParsedData(uploadedFile.id, parsedData)}
+        />
+      )}
+
+      {/* Show error message for failed uploads, and the last error while retrying */}
+      {(status === 'error' || status === 'retrying') && uploadedFile.errorMessage && (
+        <div className={`mt-3 p-3 rounded-lg border ${
+          status === 'error' ? 'bg-red-50 border-red-200' : 'bg-orange-50 border-orange-200'
+        }`}>
+          <p className={`text-sm ${status === 'error' ? 'text-red-800' : 'text-orange-800'}`}>
+            <span className="font-medium">Error:</span> {uploadedFile.errorMessage}
+          </p>
+        </div>
+      )}
+
+      {isPreviewOpen && (
+        <DocumentPreview
+          source={uploadedFile.file}
+          title={uploadedFile.parsedData?.name || uploadedFile.file.name}
+          onClose={() => setIsPreviewOpen(false)}
+        />
+      )}
+
+      {isSplitViewOpen && uploadedFile.parsedData && (
+        <ResumeSplitView
+          file={uploadedFile.file}
+          data={uploadedFile.parsedData}
+          warnings={uploadedFile.warnings}
+          onChange={(parsedData) => queue.setParsedData(uploadedFile.id, parsedData)}
+          onClose={() => setIsSplitViewOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default UploadListItem;
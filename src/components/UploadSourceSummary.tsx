@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Archive, ChevronDown, ChevronRight, Folder, X } from 'lucide-react';
+import type { SourceSummary } from '../services/fileSources';
+import { REJECTION_LABELS } from '../services/fileFormats';
+
+interface UploadSourceSummaryProps {
+  summaries: SourceSummary[];
+  onDismiss: () => void;
+}
+
+const SummaryRow: React.FC<{ summary: SourceSummary }> = ({ summary }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const Icon = summary.kind === 'archive' ? Archive : Folder;
+  const skippedCount = summary.skipped.length;
+
+  return (
+    <li className="py-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center space-x-2 min-w-0">
+          <Icon className="w-4 h-4 text-gray-500 flex-shrink-0" />
+          <span className="text-sm font-medium text-gray-900 truncate">{summary.name}</span>
+        </div>
+        {summary.error ? (
+          <span className="text-xs text-red-600">{summary.error}</span>
+        ) : (
+          <div className="flex items-center space-x-3 text-xs flex-shrink-0">
+            <span className="text-green-700">
+              {summary.accepted} {summary.accepted === 1 ? 'resume' : 'resumes'} queued
+            </span>
+            {skippedCount > 0 && (
+              <button
+                onClick={() => setIsExpanded((prev) => !prev)}
+                className="inline-flex items-center text-orange-700 hover:text-orange-900"
+                aria-expanded={isExpanded}
+              >
+                {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                <span>{skippedCount} skipped</span>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      {isExpanded && (
+        <ul className="mt-2 ml-6 space-y-1 max-h-40 overflow-y-auto">
+          {summary.skipped.map((file) => (
+            <li key={file.path} className="flex justify-between gap-3 text-xs text-gray-600">
+              <span className="truncate">{file.path}</span>
+              <span className="text-gray-500 flex-shrink-0">{REJECTION_LABELS[file.reason]}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/** What was found in each dropped folder or ZIP, and what was left out. */
+const UploadSourceSummary: React.FC<UploadSourceSummaryProps> = ({ summaries, onDismiss }) => (
+  <div className="mt-4 bg-gray-50 border border-gray-200 rounded-lg px-4 py-2">
+    <div className="flex items-center justify-between">
+      <h5 className="text-sm font-medium text-gray-700">Folders and archives</h5>
+      <button onClick={onDismiss} className="p-1 text-gray-400 hover:text-gray-600" title="Dismiss">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+    <ul className="divide-y divide-gray-200">
+      {summaries.map((summary, index) => (
+        <SummaryRow key={`${summary.name}-${index}`} summary={summary} />
+      ))}
+    </ul>
+  </div>
+);
+
+export default UploadSourceSummary;
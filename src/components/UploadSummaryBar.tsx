@@ -0,0 +1,92 @@
+import React from 'react';
+import { Pause, Play, RotateCw, XCircle, Trash2 } from 'lucide-react';
+import type { UploadQueue, UploadSummary } from '../services/uploadQueue';
+
+interface UploadSummaryBarProps {
+  summary: UploadSummary;
+  queue: UploadQueue;
+}
+
+const actionButton =
+  'inline-flex items-center space-x-1 px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+const UploadSummaryBar: React.FC<UploadSummaryBarProps> = ({ summary, queue }) => {
+  const { counts, total, progress, isIdle } = summary;
+  const done = counts.success + counts.error;
+  const inFlight = counts.uploading + counts.queued + counts.retrying;
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div className="text-sm text-gray-700">
+          <span className="font-medium text-gray-900">{done} of {total - counts.cancelled}</span> processed
+          {counts.uploading > 0 && <span className="text-blue-600"> · {counts.uploading} uploading</span>}
+          {counts.queued > 0 && <span className="text-gray-500"> · {counts.queued} queued</span>}
+          {counts.retrying > 0 && <span className="text-orange-600"> · {counts.retrying} retrying</span>}
+          {counts.paused > 0 && <span className="text-gray-600"> · {counts.paused} paused</span>}
+          {counts.error > 0 && <span className="text-red-600"> · {counts.error} failed</span>}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {inFlight > 0 && (
+            <button
+              onClick={() => queue.pauseAll()}
+              className={`${actionButton} border-gray-300 text-gray-700 bg-white hover:bg-gray-100`}
+            >
+              <Pause className="w-3 h-3" />
+              <span>Pause all</span>
+            </button>
+          )}
+          {counts.paused > 0 && (
+            <button
+              onClick={() => queue.resumeAll()}
+              className={`${actionButton} border-blue-200 text-blue-700 bg-blue-50 hover:bg-blue-100`}
+            >
+              <Play className="w-3 h-3" />
+              <span>Resume all</span>
+            </button>
+          )}
+          <button
+            onClick={() => queue.retryFailed()}
+            disabled={counts.error === 0}
+            className={`${actionButton} border-gray-300 text-gray-700 bg-white hover:bg-gray-100`}
+          >
+            <RotateCw className="w-3 h-3" />
+            <span>Retry failed</span>
+          </button>
+          <button
+            onClick={() => queue.cancelAll()}
+            disabled={inFlight + counts.paused === 0}
+            className={`${actionButton} border-red-200 text-red-700 bg-white hover:bg-red-50`}
+          >
+            <XCircle className="w-3 h-3" />
+            <span>Cancel all</span>
+          </button>
+          <button
+            onClick={() => {
+              if (window.confirm('Remove all parsed, failed and cancelled files from your upload history?')) {
+                queue.clearHistory();
+              }
+            }}
+            disabled={counts.success + counts.error + counts.cancelled === 0}
+            className={`${actionButton} border-gray-300 text-gray-700 bg-white hover:bg-gray-100`}
+          >
+            <Trash2 className="w-3 h-3" />
+            <span>Clear history</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div
+          className={`h-2 rounded-full transition-all duration-300 ${
+            isIdle && counts.error === 0 ? 'bg-green-500' : 'bg-blue-600'
+          }`}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default UploadSummaryBar;
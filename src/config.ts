@@ -0,0 +1,85 @@
+// Runtime configuration for the app.
+//
+// Values are resolved in this order:
+//   1. `window.__APP_CONFIG__`, injected by `public/config.js` at deploy time
+//   2. `VITE_*` variables baked in at build time (see `.env.example`)
+//   3. the defaults below
+
+interface RuntimeConfig {
+  backendUrl?: string;
+  requestTimeoutMs?: number;
+  searchTimeoutMs?: number;
+  uploadTimeoutMs?: number;
+  mockBackend?: boolean;
+  mockLatencyMs?: number;
+  idleTimeoutMinutes?: number;
+  idleWarningSeconds?: number;
+  sessionMaxAgeHours?: number;
+  uploadConcurrency?: number;
+  uploadMaxRetries?: number;
+}
+
+declare global {
+  interface Window {
+    __APP_CONFIG__?: RuntimeConfig;
+  }
+}
+
+export interface AppConfig {
+  backendUrl: string;
+  timeouts: {
+    request: number;
+    search: number;
+    upload: number;
+  };
+  /** Serve every API call from the in-browser mock backend instead of the network. */
+  mockBackend: boolean;
+  mockLatencyMs: number;
+  session: {
+    /** Inactivity after which the user is signed out. */
+    idleTimeoutMs: number;
+    /** How long before the idle sign-out the warning dialog is shown. */
+    idleWarningMs: number;
+    /** Session lifetime when the refresh token doesn't carry its own `exp`. */
+    maxAgeMs: number;
+  };
+  uploads: {
+    /** Resumes uploaded in parallel. */
+    concurrency: number;
+    /** Automatic retries after network / 5xx failures. */
+    maxRetries: number;
+  };
+}
+
+const DEFAULT_BACKEND_URL = 'https://cv-parser-backend-q0mn.onrender.com';
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const parsed = value === '' || value === null ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const toBoolean = (value: unknown): boolean => value === true || value === 'true' || value === '1';
+
+const runtime: RuntimeConfig = (typeof window !== 'undefined' && window.__APP_CONFIG__) || {};
+const env = import.meta.env;
+
+export const config: AppConfig = {
+  backendUrl: (runtime.backendUrl || env.VITE_BACKEND_URL || DEFAULT_BACKEND_URL).replace(/\/+$/, ''),
+  timeouts: {
+    request: toNumber(runtime.requestTimeoutMs ?? env.VITE_REQUEST_TIMEOUT_MS, 10000),
+    search: toNumber(runtime.searchTimeoutMs ?? env.VITE_SEARCH_TIMEOUT_MS, 15000),
+    // 0 / unset means uploads never time out on their own
+    upload: toNumber(runtime.uploadTimeoutMs ?? env.VITE_UPLOAD_TIMEOUT_MS, 0),
+  },
+  mockBackend: toBoolean(runtime.mockBackend ?? env.VITE_MOCK_BACKEND),
+  mockLatencyMs: toNumber(runtime.mockLatencyMs ?? env.VITE_MOCK_LATENCY_MS, 400),
+  session: {
+    idleTimeoutMs: toNumber(runtime.idleTimeoutMinutes ?? env.VITE_IDLE_TIMEOUT_MINUTES, 30) * 60 * 1000,
+    idleWarningMs: toNumber(runtime.idleWarningSeconds ?? env.VITE_IDLE_WARNING_SECONDS, 60) * 1000,
+    maxAgeMs: toNumber(runtime.sessionMaxAgeHours ?? env.VITE_SESSION_MAX_AGE_HOURS, 12) * 60 * 60 * 1000,
+  },
+  uploads: {
+    concurrency: Math.max(1, toNumber(runtime.uploadConcurrency ?? env.VITE_UPLOAD_CONCURRENCY, 3)),
+    maxRetries: toNumber(runtime.uploadMaxRetries ?? env.VITE_UPLOAD_MAX_RETRIES, 3),
+  },
+};
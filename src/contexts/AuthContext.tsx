@@ -1,10 +1,33 @@
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, { createContext, useCallback, useContext, useRef, useState, useEffect } from "react";
+import { config } from "../config";
+import { useIdleTimer } from "../hooks/useIdleTimer";
+import { authenticate } from "../services/api";
+import {
+  clearSession,
+  createSession,
+  getSession,
+  isExpired,
+  loadSession,
+  onUnauthorized,
+  saveSession,
+  subscribeToOtherTabs,
+} from "../services/session";
+import type { AuthUser } from "../types/api";
+
+export type LogoutReason = "manual" | "idle" | "expired" | "other-tab";
 
 interface AuthContextType {
   isAuthenticated: boolean;
-  login: (username: string, password: string) => boolean;
+  /** Resolves once signed in; rejects with an ApiError otherwise. */
+  login: (username: string, password: string) => Promise<void>;
   logout: () => void;
-  user: { username: string } | null;
+  user: AuthUser | null;
+  /** Why the last session ended, for the login screen. */
+  logoutReason: LogoutReason | null;
+  /** Milliseconds until the idle sign-out while the warning is due, else null. */
+  idleRemainingMs: number | null;
+  /** Dismisses the idle warning and restarts the inactivity timer. */
+  stayActive: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -20,48 +43,88 @@ export const useAuth = () => {
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
   children,
 }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [user, setUser] = useState<{ username: string } | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(
+    () => loadSession()?.user ?? null
+  );
+  const [logoutReason, setLogoutReason] = useState<LogoutReason | null>(null);
+  const isAuthenticated = user !== null;
+  const userRef = useRef(user);
 
-  // Check for existing session on mount
   useEffect(() => {
-    const savedAuth = localStorage.getItem("auth");
-    if (savedAuth) {
-      const authData = JSON.parse(savedAuth);
-      setIsAuthenticated(true);
-      setUser(authData.user);
-    }
+    userRef.current = user;
+  }, [user]);
+
+  const endSession = useCallback((reason: LogoutReason) => {
+    clearSession();
+    setUser(null);
+    setLogoutReason(reason);
   }, []);
 
-  const login = (username: string, password: string): boolean => {
-    // Simple hardcoded authentication
-    if (username === "Timo" && password === "Timo@123") {
-      const userData = { username };
-      setIsAuthenticated(true);
-      setUser(userData);
-      localStorage.setItem("auth", JSON.stringify({ user: userData }));
-      return true;
-    } 
-    else if (username === "Raphael" && password === "Raphael@123") {
-      const userData = { username };
-      setIsAuthenticated(true);
-      setUser(userData);
-      localStorage.setItem("auth", JSON.stringify({ user: userData }));
-      return true;
-    }
-    else {
-      return false;
-    }
-  };
+  // The API client signs us out when a token can no longer be refreshed
+  useEffect(() => {
+    onUnauthorized(() => endSession("expired"));
+    return () => onUnauthorized(null);
+  }, [endSession]);
 
-  const logout = () => {
-    setIsAuthenticated(false);
-    setUser(null);
-    localStorage.removeItem("auth");
+  // Follow sign-ins and sign-outs made in other tabs
+  useEffect(
+    () =>
+      subscribeToOtherTabs((session) => {
+        if (session) {
+          setUser(session.user);
+          setLogoutReason(null);
+        } else if (userRef.current) {
+          setUser(null);
+          setLogoutReason("other-tab");
+        }
+      }),
+    []
+  );
+
+  // Hard expiry: sign out once the session outlives its refresh token.
+  // Polled because token refreshes can move `expiresAt` outside React.
+  useEffect(() => {
+    if (!user) return;
+
+    const check = () => {
+      const session = getSession();
+      if (!session || isExpired(session)) endSession("expired");
+    };
+    check();
+    const interval = setInterval(check, 15000);
+    return () => clearInterval(interval);
+  }, [user, endSession]);
+
+  const { remainingMs: idleRemainingMs, stayActive } = useIdleTimer({
+    // A timeout of 0 turns idle sign-out off
+    enabled: isAuthenticated && config.session.idleTimeoutMs > 0,
+    timeoutMs: config.session.idleTimeoutMs,
+    warningMs: config.session.idleWarningMs,
+    onIdle: () => endSession("idle"),
+  });
+
+  const login = async (username: string, password: string): Promise<void> => {
+    const tokens = await authenticate({ username, password });
+    const userData = tokens.user ?? { username };
+    saveSession(createSession(userData, tokens));
+    setUser(userData);
+    setLogoutReason(null);
   };
 
+  const logout = () => endSession("manual");
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout, user }}>
+    <AuthContext.Provider
+      value={{
+        isAuthenticated,
+        login,
+        logout,
+        user,
+        logoutReason,
+        idleRemainingMs,
+        stayActive,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,46 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import Toast from '../components/Toast';
+import { NotificationContext, type Notification, type NotificationItem } from '../hooks/useNotifications';
+
+// More than this and the stack starts covering the page; the rest wait their turn
+const MAX_VISIBLE = 4;
+
+export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const nextId = useRef(1);
+
+  const notify = useCallback((notification: Notification) => {
+    const id = nextId.current++;
+    setNotifications((prev) => [...prev, { ...notification, id }]);
+    return id;
+  }, []);
+
+  const dismiss = useCallback((id: number) => {
+    setNotifications((prev) => prev.filter((notification) => notification.id !== id));
+  }, []);
+
+  const value = useMemo(() => ({ notify, dismiss }), [notify, dismiss]);
+  const visible = notifications.slice(0, MAX_VISIBLE);
+  const waiting = notifications.length - visible.length;
+
+  return (
+    <NotificationContext.Provider value={value}>
+      {children}
+      <div
+        aria-live="polite"
+        className="fixed bottom-4 right-4 z-[70] flex flex-col items-end space-y-2 pointer-events-none"
+      >
+        {visible.map((notification) => (
+          <div key={notification.id} className="pointer-events-auto w-full flex justify-end">
+            <Toast notification={notification} onClose={dismiss} />
+          </div>
+        ))}
+        {waiting > 0 && (
+          <span className="pointer-events-auto text-xs text-gray-600 bg-white border border-gray-200 rounded-full px-3 py-1 shadow">
+            +{waiting} more
+          </span>
+        )}
+      </div>
+    </NotificationContext.Provider>
+  );
+};
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Last activity is shared through localStorage so a user working in one tab
+// isn't signed out by another tab that has been sitting in the background.
+const LAST_ACTIVITY_KEY = 'auth:lastActivity';
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart', 'wheel'] as const;
+const WRITE_THROTTLE_MS = 5000;
+
+interface IdleTimerOptions {
+  enabled: boolean;
+  timeoutMs: number;
+  warningMs: number;
+  onIdle: () => void;
+}
+
+const readLastActivity = () => Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || Date.now();
+
+/**
+ * Tracks user activity and calls `onIdle` after `timeoutMs` without any.
+ * `remainingMs` is set during the final `warningMs`, and activity is ignored
+ * then — the user has to confirm explicitly with `stayActive`.
+ */
+export const useIdleTimer = ({ enabled, timeoutMs, warningMs, onIdle }: IdleTimerOptions) => {
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const onIdleRef = useRef(onIdle);
+  const isWarningRef = useRef(false);
+
+  useEffect(() => {
+    onIdleRef.current = onIdle;
+  }, [onIdle]);
+
+  const stayActive = useCallback(() => {
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+    isWarningRef.current = false;
+    setRemainingMs(null);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      isWarningRef.current = false;
+      setRemainingMs(null);
+      return;
+    }
+
+    stayActive();
+    let lastWrite = Date.now();
+
+    const onActivity = () => {
+      if (isWarningRef.current || Date.now() - lastWrite < WRITE_THROTTLE_MS) return;
+      lastWrite = Date.now();
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(lastWrite));
+    };
+
+    const tick = () => {
+      const remaining = readLastActivity() + timeoutMs - Date.now();
+      if (remaining <= 0) {
+        isWarningRef.current = false;
+        setRemainingMs(null);
+        onIdleRef.current();
+        return;
+      }
+      isWarningRef.current = remaining <= warningMs;
+      setRemainingMs(isWarningRef.current ? remaining : null);
+    };
+
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, onActivity, { passive: true }));
+    const interval = setInterval(tick, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, onActivity));
+      clearInterval(interval);
+    };
+  }, [enabled, timeoutMs, warningMs, stayActive]);
+
+  return { remainingMs, stayActive };
+};
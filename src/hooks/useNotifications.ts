@@ -0,0 +1,36 @@
+import { createContext, useContext } from 'react';
+
+export type NotificationType = 'success' | 'error' | 'warning' | 'info';
+
+export interface Notification {
+  type: NotificationType;
+  message: string;
+  /** Defaults to one matching `type`, e.g. "Error". */
+  title?: string;
+  /** Extra lines shown under the message, e.g. the files in a report. */
+  details?: string[];
+  /** Milliseconds before it closes itself; 0 keeps it until dismissed. */
+  duration?: number;
+  /** A button in the toast, e.g. "Show"; clicking it also closes the toast. */
+  action?: { label: string; onClick: () => void };
+}
+
+export interface NotificationItem extends Notification {
+  id: number;
+}
+
+interface NotificationContextType {
+  /** Shows a toast and returns its id. */
+  notify: (notification: Notification) => number;
+  dismiss: (id: number) => void;
+}
+
+export const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
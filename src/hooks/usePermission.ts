@@ -0,0 +1,8 @@
+import { useAuth } from '../contexts/AuthContext';
+import { hasPermission, type Permission } from '../services/permissions';
+
+/** Whether the signed-in user may perform `permission`. */
+export const usePermission = (permission: Permission) => {
+  const { user } = useAuth();
+  return hasPermission(user, permission);
+};
@@ -0,0 +1,57 @@
+import { useCallback, useMemo, useState } from 'react';
+
+/**
+ * Which search results are selected. Either `ids` lists the selected ones, or
+ * every match is selected — including results on pages that haven't been
+ * loaded — and `ids` lists the ones unticked since.
+ */
+export interface ResultSelection {
+  allMatching: boolean;
+  ids: Set<string>;
+}
+
+const NOTHING_SELECTED: ResultSelection = { allMatching: false, ids: new Set() };
+
+export const useResultSelection = () => {
+  const [selection, setSelection] = useState<ResultSelection>(NOTHING_SELECTED);
+
+  const isSelected = useCallback(
+    (id: string) => (selection.allMatching ? !selection.ids.has(id) : selection.ids.has(id)),
+    [selection]
+  );
+
+  const toggle = useCallback((id: string) => {
+    setSelection(({ allMatching, ids }) => {
+      const next = new Set(ids);
+      if (!next.delete(id)) next.add(id);
+      return { allMatching, ids: next };
+    });
+  }, []);
+
+  const selectOnly = useCallback((ids: Iterable<string>) => setSelection({ allMatching: false, ids: new Set(ids) }), []);
+  const selectAllMatching = useCallback(() => setSelection({ allMatching: true, ids: new Set() }), []);
+  const clear = useCallback(() => setSelection(NOTHING_SELECTED), []);
+
+  /** Drops picked results that are no longer shown; unticked ones don't matter. */
+  const keepOnly = useCallback((visible: Set<string>) => {
+    setSelection((current) => {
+      if (current.allMatching) return current;
+      const kept = new Set(Array.from(current.ids).filter((id) => visible.has(id)));
+      return kept.size === current.ids.size ? current : { allMatching: false, ids: kept };
+    });
+  }, []);
+
+  /** Of `matching` results, how many are selected; unknown if `matching` is. */
+  const count = useCallback(
+    (matching: number | undefined) =>
+      selection.allMatching ? (matching === undefined ? undefined : Math.max(0, matching - selection.ids.size)) : selection.ids.size,
+    [selection]
+  );
+
+  const isEmpty = !selection.allMatching && selection.ids.size === 0;
+
+  return useMemo(
+    () => ({ selection, isSelected, isEmpty, toggle, selectOnly, selectAllMatching, clear, keepOnly, count }),
+    [selection, isSelected, isEmpty, toggle, selectOnly, selectAllMatching, clear, keepOnly, count]
+  );
+};
@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { findAllMatches } from '../services/candidateSearch';
+import { claimDueSearches, recordRun, savedSearchPath } from '../services/savedSearches';
+import { useNotifications } from './useNotifications';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+// Names listed in the alert; the rest are summed up
+const MAX_LISTED = 5;
+
+/**
+ * Re-runs `owner`'s scheduled saved searches when they are due, and alerts
+ * them about candidates found for the first time. Runs only while the app is
+ * open; searches that fell due in between run as soon as it is opened.
+ */
+export const useSavedSearchScheduler = (owner: string | undefined) => {
+  const { notify } = useNotifications();
+  // `navigate` changes with the location, which mustn't cancel runs in progress
+  const navigate = useNavigate();
+  const navigateRef = useRef(navigate);
+
+  useEffect(() => {
+    navigateRef.current = navigate;
+  }, [navigate]);
+
+  useEffect(() => {
+    if (!owner) return;
+    const controller = new AbortController();
+
+    const runDue = async () => {
+      for (const search of claimDueSearches(owner)) {
+        try {
+          const found = await findAllMatches(new URLSearchParams(search.params), owner, controller.signal);
+          if (controller.signal.aborted) return;
+          const fresh = new Set(recordRun(owner, search.id, found.map((result) => result.contact_id), true));
+          if (fresh.size === 0) continue;
+
+          const names = found.filter((result) => fresh.has(result.contact_id)).map((result) => result.name || result.contact_id);
+          notify({
+            type: 'info',
+            title: `New candidates for "${search.name}"`,
+            message: `${fresh.size} ${fresh.size === 1 ? 'candidate' : 'candidates'} found since the last run.`,
+            details: names.length > MAX_LISTED ? [...names.slice(0, MAX_LISTED), `and ${names.length - MAX_LISTED} more`] : names,
+            duration: 0,
+            action: { label: 'Show results', onClick: () => navigateRef.current(savedSearchPath(search)) },
+          });
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          console.error(`Scheduled run of "${search.name}" failed:`, err);
+        }
+      }
+    };
+
+    runDue();
+    const timer = setInterval(runDue, CHECK_INTERVAL_MS);
+    return () => {
+      controller.abort();
+      clearInterval(timer);
+    };
+  }, [owner, notify]);
+};
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { loadSavedSearches, subscribeSavedSearches, type SavedSearch } from '../services/savedSearches';
+
+/** `owner`'s saved searches, kept up to date with changes from anywhere, other tabs included. */
+export const useSavedSearches = (owner: string | undefined): SavedSearch[] => {
+  const [searches, setSearches] = useState<SavedSearch[]>(() => (owner ? loadSavedSearches(owner) : []));
+
+  useEffect(() => {
+    if (!owner) {
+      setSearches([]);
+      return;
+    }
+    const refresh = () => setSearches(loadSavedSearches(owner));
+    refresh();
+    return subscribeSavedSearches(refresh);
+  }, [owner]);
+
+  return searches;
+};
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { SearchResult } from '../types/api';
+import {
+  clearSearchHistory,
+  EMPTY_HISTORY,
+  loadSearchHistory,
+  recordResultValues,
+  recordSearchTerms,
+  suggestTerms,
+  type SearchHistory,
+} from '../services/searchHistory';
+
+/** `owner`'s search history, and autocomplete suggestions from it. */
+export const useSearchHistory = (owner: string | undefined) => {
+  const [history, setHistory] = useState<SearchHistory>(() => (owner ? loadSearchHistory(owner) : EMPTY_HISTORY));
+
+  useEffect(() => {
+    setHistory(owner ? loadSearchHistory(owner) : EMPTY_HISTORY);
+  }, [owner]);
+
+  const recordSearch = useCallback(
+    (clauses: string[]) => {
+      if (owner) setHistory(recordSearchTerms(owner, clauses));
+    },
+    [owner]
+  );
+
+  const recordResults = useCallback(
+    (results: SearchResult[]) => {
+      if (owner) setHistory(recordResultValues(owner, results));
+    },
+    [owner]
+  );
+
+  const clear = useCallback(() => {
+    if (owner) setHistory(clearSearchHistory(owner));
+  }, [owner]);
+
+  const suggest = useCallback(
+    (input: string, exclude: string[]) => suggestTerms(history, input, exclude),
+    [history]
+  );
+
+  return { recordSearch, recordResults, clear, suggest };
+};
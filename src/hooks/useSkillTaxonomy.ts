@@ -0,0 +1,12 @@
+import { useEffect, useState } from 'react';
+import { loadSkillTaxonomy, subscribeSkillTaxonomy } from '../services/skillTaxonomy';
+import type { TaxonomyEntry } from '../utils/skillTaxonomy';
+
+/** The skill taxonomy, kept up to date with edits from anywhere, other tabs included. */
+export const useSkillTaxonomy = (): TaxonomyEntry[] => {
+  const [taxonomy, setTaxonomy] = useState(loadSkillTaxonomy);
+
+  useEffect(() => subscribeSkillTaxonomy(() => setTaxonomy(loadSkillTaxonomy())), []);
+
+  return taxonomy;
+};
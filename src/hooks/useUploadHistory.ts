@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+import { loadUploads, persistQueue, toUploadItem } from '../services/uploadHistory';
+import { uploadQueue } from '../services/uploadQueue';
+
+/**
+ * Loads `owner`'s upload history into the upload queue and keeps it saved
+ * while they are signed in. Signing out stops and clears the queue.
+ */
+export const useUploadHistory = (owner: string | undefined) => {
+  useEffect(() => {
+    if (!owner) return;
+
+    let isCurrent = true;
+    // Before loading, so files queued meanwhile are saved too
+    const stopPersisting = persistQueue(uploadQueue, owner);
+
+    loadUploads(owner)
+      .then((records) => {
+        if (isCurrent) uploadQueue.hydrate(records.map(toUploadItem));
+      })
+      .catch((err) => console.error('Failed to load upload history:', err));
+
+    return () => {
+      isCurrent = false;
+      stopPersisting();
+      uploadQueue.reset();
+    };
+  }, [owner]);
+};
@@ -0,0 +1,9 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { summarizeUploads, uploadQueue } from '../services/uploadQueue';
+
+/** Subscribes to the app-wide upload queue. */
+export const useUploadQueue = () => {
+  const items = useSyncExternalStore(uploadQueue.subscribe, uploadQueue.getItems);
+  const summary = useMemo(() => summarizeUploads(items), [items]);
+  return { items, summary, queue: uploadQueue };
+};
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+
+interface VirtualRowsOptions {
+  count: number;
+  /** Every row must be this tall, in pixels. */
+  rowHeight: number;
+  /** Rows rendered beyond each edge of the view, so fast scrolling doesn't show gaps. */
+  overscan?: number;
+  /** Called when the view gets within `overscan` rows of the end. */
+  onNearEnd?: () => void;
+}
+
+/**
+ * Windowing for long lists of equally tall rows: only the rows in (and near)
+ * the scrolled view are rendered, with `paddingTop` / `paddingBottom` of
+ * empty space standing in for the rest. Attach `ref` and `onScroll` to the
+ * scrolling element.
+ */
+export const useVirtualRows = ({ count, rowHeight, overscan = 10, onNearEnd }: VirtualRowsOptions) => {
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    if (!container) return;
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [container]);
+
+  const start = Math.min(count, Math.max(0, Math.floor(scrollTop / rowHeight) - overscan));
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+  const isNearEnd = viewportHeight > 0 && end >= count;
+
+  useEffect(() => {
+    if (isNearEnd) onNearEnd?.();
+  }, [isNearEnd, count, onNearEnd]);
+
+  const onScroll = useCallback((e: React.UIEvent<HTMLElement>) => setScrollTop(e.currentTarget.scrollTop), []);
+
+  return {
+    ref: setContainer,
+    onScroll,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight,
+  };
+};
@@ -0,0 +1,352 @@
+import { config } from '../config';
+import type {
+  AddContactsRequest,
+  CreateHubSpotListRequest,
+  DuplicateMatchRequest,
+  HubSpotListSearchRequest,
+  LoginRequest,
+  RefreshRequest,
+  ResolveDuplicateRequest,
+  ResumeUpdateRequest,
+  SearchRequest,
+} from '../types/api';
+import {
+  createHubSpotListSchema,
+  duplicateMatchSchema,
+  hubSpotListSearchSchema,
+  parsedResumeSchema,
+  searchResponseSchema,
+  searchVocabularySchema,
+  tokenResponseSchema,
+} from './apiSchemas';
+import { abortedError, ApiError, httpError, networkError, timeoutError } from './errors';
+import { validate, type Schema } from './schema';
+import { createSession, getSession, notifyUnauthorized, saveSession } from './session';
+
+export { ApiError, getErrorMessage } from './errors';
+export type { ApiErrorKind } from './errors';
+export type { Validated } from './schema';
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  query?: URLSearchParams;
+  body?: unknown;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  errorMessage: string;
+  /** Accept an empty or non-JSON success body (e.g. 204 No Content). */
+  allowEmpty?: boolean;
+  /** Send without the bearer token and skip 401 handling (auth endpoints). */
+  anonymous?: boolean;
+}
+
+/**
+ * Links an optional caller signal with a timeout. `didTimeout` tells the two
+ * abort reasons apart once the request has failed.
+ */
+const withTimeout = (timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let didTimeout = false;
+
+  const timer = timeoutMs > 0
+    ? setTimeout(() => {
+        didTimeout = true;
+        controller.abort();
+      }, timeoutMs)
+    : undefined;
+
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  return {
+    signal: controller.signal,
+    didTimeout: () => didTimeout,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+};
+
+const accessToken = () => getSession()?.accessToken;
+
+// Only fetched in mock mode, so the mock backend and its dataset stay out of the production bundle
+const loadMockBackend = () => import('./mock/mockBackend');
+
+const isUnauthorized = (err: unknown) => err instanceof ApiError && err.status === 401;
+
+const sessionExpiredError = () =>
+  new ApiError('http', 'Your session has expired. Please sign in again.', { status: 401 });
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+/**
+ * Trades the refresh token for a new access token. Requests that hit a 401
+ * at the same time all wait on the same refresh.
+ */
+const refreshSession = (): Promise<boolean> => {
+  const session = getSession();
+  if (!session) return Promise.resolve(false);
+
+  refreshInFlight ??= refreshTokens({ refresh_token: session.refreshToken })
+    .then((tokens) => {
+      saveSession(createSession(session.user, {
+        ...tokens,
+        refresh_token: tokens.refresh_token || session.refreshToken,
+      }));
+      return true;
+    })
+    .catch(() => false)
+    .finally(() => {
+      refreshInFlight = null;
+    });
+  return refreshInFlight;
+};
+
+/**
+ * Runs `send`, and on a 401 refreshes the session and tries once more. If the
+ * session can't be recovered the app is signed out.
+ */
+const withAuthRetry = async <T,>(send: () => Promise<T>): Promise<T> => {
+  try {
+    return await send();
+  } catch (err) {
+    if (!isUnauthorized(err)) throw err;
+  }
+
+  if (await refreshSession()) {
+    try {
+      return await send();
+    } catch (err) {
+      if (!isUnauthorized(err)) throw err;
+    }
+  }
+
+  notifyUnauthorized();
+  throw sessionExpiredError();
+};
+
+async function send<T>(path: string, options: RequestOptions): Promise<T> {
+  const { method = 'GET', query, body, timeoutMs = config.timeouts.request, signal, errorMessage, allowEmpty, anonymous } = options;
+  const token = anonymous ? undefined : accessToken();
+
+  if (config.mockBackend) {
+    const { mockRequest } = await loadMockBackend();
+    return (await mockRequest(method, path, { query, body, signal, token })) as T;
+  }
+
+  const url = `${config.backendUrl}${path}${query ? `?${query.toString()}` : ''}`;
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const timeout = withTimeout(timeoutMs, signal);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: timeout.signal,
+    });
+  } catch {
+    if (timeout.didTimeout()) throw timeoutError();
+    if (signal?.aborted) throw abortedError();
+    throw networkError();
+  } finally {
+    timeout.dispose();
+  }
+
+  const data = await response.json().catch(() => undefined);
+
+  if (!response.ok) {
+    throw httpError(response.status, response.statusText, data, errorMessage);
+  }
+  if (data === undefined && !allowEmpty) {
+    throw new ApiError('parse', 'Failed to parse server response', { status: response.status });
+  }
+  return data as T;
+}
+
+const request = <T,>(path: string, options: RequestOptions): Promise<T> =>
+  options.anonymous ? send<T>(path, options) : withAuthRetry(() => send<T>(path, options));
+
+/** Checks a response against `schema`, passing any warnings on to the caller. */
+const check = <T,>(schema: Schema<T>, what: string) => (data: unknown) => validate(schema, data, what);
+
+/** Like `check`, for responses whose warnings are only worth logging. */
+const checkQuietly = <T,>(schema: Schema<T>, what: string) => (data: unknown): T => {
+  const { data: value, warnings } = validate(schema, data, what);
+  if (warnings.length > 0) console.warn(`Incomplete ${what}:`, warnings);
+  return value;
+};
+
+export interface ParseResumeOptions {
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal;
+}
+
+/** Uploads a single resume to `/parse_resume/`. */
+export const parseResume = (file: File, options: ParseResumeOptions = {}) =>
+  withAuthRetry<unknown>(() => (config.mockBackend
+    ? loadMockBackend().then(({ mockParseResume }) => mockParseResume(file, { ...options, token: accessToken() }))
+    : sendResume(file, options))).then(check(parsedResumeSchema, 'parsed resume'));
+
+// Uses XHR rather than fetch so the caller gets upload progress events.
+const sendResume = (file: File, options: ParseResumeOptions): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const { onProgress, signal } = options;
+    if (signal?.aborted) {
+      reject(abortedError());
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('file', file); // matches the FastAPI parameter name
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort);
+    const settle = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.addEventListener('progress', (event) => {
+      if (event.lengthComputable) {
+        onProgress?.((event.loaded / event.total) * 100);
+      }
+    });
+
+    xhr.addEventListener('load', () => {
+      settle();
+      let data: unknown;
+      try {
+        data = JSON.parse(xhr.responseText);
+      } catch {
+        data = undefined;
+      }
+
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(httpError(xhr.status, xhr.statusText, data, 'Upload failed'));
+      } else if (data === undefined) {
+        reject(new ApiError('parse', 'Failed to parse server response', { status: xhr.status }));
+      } else {
+        resolve(data);
+      }
+    });
+    xhr.addEventListener('error', () => {
+      settle();
+      reject(networkError());
+    });
+    xhr.addEventListener('timeout', () => {
+      settle();
+      reject(timeoutError());
+    });
+    xhr.addEventListener('abort', () => {
+      settle();
+      reject(abortedError());
+    });
+
+    xhr.open('POST', `${config.backendUrl}/parse_resume/`);
+    const token = accessToken();
+    if (token) xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    xhr.timeout = config.timeouts.upload;
+    xhr.send(formData);
+  });
+
+export const updateResume = (contactId: string, body: ResumeUpdateRequest) =>
+  request<unknown>(`/resumes/${encodeURIComponent(contactId)}`, {
+    method: 'PUT',
+    body,
+    errorMessage: 'Failed to save corrections',
+  }).then(checkQuietly(parsedResumeSchema, 'resume'));
+
+export const approveResume = (contactId: string) =>
+  request<unknown>(`/resumes/${encodeURIComponent(contactId)}/approve`, {
+    method: 'POST',
+    errorMessage: 'Failed to approve record',
+  }).then(checkQuietly(parsedResumeSchema, 'resume'));
+
+/** Existing candidates with the same email, phone number or name. */
+export const findDuplicateCandidates = (body: DuplicateMatchRequest) =>
+  request<unknown>('/candidates/match', {
+    method: 'POST',
+    body,
+    errorMessage: 'Duplicate check failed',
+  }).then(checkQuietly(duplicateMatchSchema, 'duplicate check response'))
+    .then(({ matches }) => matches);
+
+/** Settles a duplicate; resolves with the candidate record that remains. */
+export const resolveDuplicate = (contactId: string, body: ResolveDuplicateRequest) =>
+  request<unknown>(`/resumes/${encodeURIComponent(contactId)}/resolve_duplicate`, {
+    method: 'POST',
+    body,
+    errorMessage: 'Failed to resolve duplicate',
+  }).then(checkQuietly(parsedResumeSchema, 'resume'));
+
+export const authenticate = (body: LoginRequest) =>
+  request<unknown>('/auth/login', {
+    method: 'POST',
+    body,
+    anonymous: true,
+    errorMessage: 'Sign in failed',
+  }).then(checkQuietly(tokenResponseSchema, 'sign-in response'));
+
+export const refreshTokens = (body: RefreshRequest) =>
+  request<unknown>('/auth/refresh', {
+    method: 'POST',
+    body,
+    anonymous: true,
+    errorMessage: 'Session refresh failed',
+  }).then(checkQuietly(tokenResponseSchema, 'session refresh response'));
+
+export const searchCandidates = (
+  { keywords, mode, query: booleanQuery, limit, cursor }: SearchRequest,
+  signal?: AbortSignal
+) => {
+  const query = new URLSearchParams();
+  keywords.forEach((keyword) => query.append('keywords', keyword));
+  query.append('mode', mode);
+  if (booleanQuery) query.append('q', booleanQuery);
+  if (limit) query.append('limit', String(limit));
+  if (cursor) query.append('cursor', cursor);
+
+  return request<unknown>('/search/', {
+    query,
+    timeoutMs: config.timeouts.search,
+    signal,
+    errorMessage: 'Search failed',
+  }).then(check(searchResponseSchema, 'search response'));
+};
+
+/** Words and skills of the indexed CVs, for typo-tolerant search and "Did you mean". */
+export const getSearchVocabulary = (signal?: AbortSignal) =>
+  request<unknown>('/search/vocabulary/', {
+    timeoutMs: config.timeouts.search,
+    signal,
+    errorMessage: 'Failed to load the search vocabulary',
+  }).then(checkQuietly(searchVocabularySchema, 'search vocabulary'));
+
+export const searchHubSpotLists = (
+  body: HubSpotListSearchRequest = { processingTypes: ['MANUAL', 'DYNAMIC'], limit: 100 }
+) =>
+  request<unknown>('/hubspot/lists/search', {
+    method: 'POST',
+    body,
+    errorMessage: 'Failed to load lists',
+  }).then(checkQuietly(hubSpotListSearchSchema, 'list response'));
+
+export const createHubSpotList = (body: CreateHubSpotListRequest) =>
+  request<unknown>('/hubspot/lists/create', {
+    method: 'POST',
+    body,
+    errorMessage: 'Failed to create list',
+  }).then(checkQuietly(createHubSpotListSchema, 'list response'));
+
+export const addContactsToList = (listId: string, body: AddContactsRequest) =>
+  request<unknown>(`/hubspot/lists/${encodeURIComponent(listId)}/add_contacts`, {
+    method: 'POST',
+    body,
+    errorMessage: 'Failed to add contacts to list',
+    allowEmpty: true,
+  });
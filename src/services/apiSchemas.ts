@@ -0,0 +1,185 @@
+import type {
+  CandidateMatch,
+  CreateHubSpotListResponse,
+  DuplicateMatchResponse,
+  EducationEntry,
+  ExperienceEntry,
+  HubSpotListSearchResponse,
+  LanguageSkill,
+  ParsedResume,
+  ResumeLink,
+  ResumeLinkType,
+  SearchResponse,
+  SearchResult,
+  SearchVocabularyResponse,
+  SourceSpan,
+  TokenResponse,
+} from '../types/api';
+import { splitSkills } from '../utils/resumeValidation';
+import {
+  array,
+  isRecord,
+  number,
+  object,
+  oneOf,
+  optional,
+  preprocess,
+  string,
+  withFallback,
+  type Schema,
+} from './schema';
+
+// Runtime schemas for every response the API client reads. Required fields
+// are ones the UI can't work without (ids, tokens). Everything else may be
+// missing (it becomes empty) or malformed (it becomes empty with a warning),
+// so partial results still render.
+
+const text: Schema<string> = (value, ctx) => withFallback(optional(string()), undefined)(value, ctx) ?? '';
+const maybeText = withFallback(optional(string()), undefined);
+const list = <T,>(item: Schema<T>): Schema<T[]> => (value, ctx) =>
+  withFallback(optional(array(item, { skipInvalid: true })), undefined)(value, ctx) ?? [];
+
+// HubSpot ids are numbers in some API versions
+const id: Schema<string> = (value, ctx) => (typeof value === 'number' ? String(value) : string()(value, ctx));
+
+// Older parser versions send skills as one comma-separated string
+const skillList: Schema<string[]> = (value, ctx) =>
+  typeof value === 'string' ? splitSkills(value) : list(string())(value, ctx);
+
+const experienceEntry: Schema<ExperienceEntry> = object({
+  title: text,
+  company: text,
+  location: maybeText,
+  start_date: maybeText,
+  end_date: maybeText,
+  description: maybeText,
+});
+
+const educationEntry: Schema<EducationEntry> = object({
+  institution: string(),
+  degree: maybeText,
+  field_of_study: maybeText,
+  start_date: maybeText,
+  end_date: maybeText,
+});
+
+const languageSkill: Schema<LanguageSkill> = preprocess(
+  (value) => (typeof value === 'string' ? { language: value } : value),
+  object({ language: string(), proficiency: maybeText })
+);
+
+const linkType = (url: unknown): ResumeLinkType => {
+  if (typeof url !== 'string') return 'other';
+  if (/linkedin\.com/i.test(url)) return 'linkedin';
+  if (/github\.com/i.test(url)) return 'github';
+  return 'other';
+};
+
+// Plain URLs and links without a type are classified by their host
+const resumeLink: Schema<ResumeLink> = preprocess(
+  (value) => {
+    const link = typeof value === 'string' ? { url: value } : value;
+    return isRecord(link) && link.type == null ? { ...link, type: linkType(link.url) } : link;
+  },
+  object({ type: withFallback(oneOf(['linkedin', 'github', 'portfolio', 'other'] as const), 'other'), url: string() })
+);
+
+const sourceSpan: Schema<SourceSpan> = object({
+  field: string(),
+  start: number(),
+  end: number(),
+  page: withFallback(optional(number()), undefined),
+});
+
+// Older parser versions send `experience` as a summary like "8 years"
+const upgradeLegacyResume = (value: unknown) => {
+  if (!isRecord(value) || typeof value.experience !== 'string') return value;
+  const years = /(\d+(?:\.\d+)?)\s*\+?\s*(?:years?|yrs?)/i.exec(value.experience);
+  return {
+    ...value,
+    experience: [],
+    years_of_experience: value.years_of_experience ?? (years ? Number(years[1]) : undefined),
+    summary: value.summary ?? (years ? undefined : value.experience),
+  };
+};
+
+export const parsedResumeSchema: Schema<ParsedResume> = preprocess(upgradeLegacyResume, object({
+  contact_id: withFallback(optional(id), undefined),
+  name: text,
+  email: text,
+  phone: text,
+  job_title: text,
+  summary: maybeText,
+  years_of_experience: withFallback(optional(number()), undefined),
+  skills: skillList,
+  experience: list(experienceEntry),
+  education: list(educationEntry),
+  languages: list(languageSkill),
+  links: list(resumeLink),
+  review_status: withFallback(optional(oneOf(['pending', 'approved'] as const)), undefined),
+  source_text: maybeText,
+  source_spans: withFallback(optional(array(sourceSpan, { skipInvalid: true })), undefined),
+}));
+
+const searchResult: Schema<SearchResult> = object({
+  contact_id: id,
+  name: text,
+  email: text,
+  job_title: text,
+  full_text: text,
+  skills: text,
+  matched_keywords: list(string()),
+  cv_url_link: maybeText,
+  location: maybeText,
+  years_of_experience: withFallback(optional(number()), undefined),
+  uploaded_at: maybeText,
+});
+
+export const searchResponseSchema: Schema<SearchResponse> = object({
+  keywords: list(string()),
+  mode: withFallback(string(), 'or'),
+  query: maybeText,
+  results: array(searchResult, { skipInvalid: true }),
+  total: withFallback(optional(number()), undefined),
+  next_cursor: maybeText,
+});
+
+export const searchVocabularySchema: Schema<SearchVocabularyResponse> = object({
+  terms: list(string()),
+});
+
+const candidateMatch: Schema<CandidateMatch> = object({
+  contact_id: id,
+  name: text,
+  email: text,
+  phone: text,
+  job_title: text,
+  matched_on: list(oneOf(['email', 'phone', 'name'] as const)),
+});
+
+export const duplicateMatchSchema: Schema<DuplicateMatchResponse> = object({
+  matches: list(candidateMatch),
+});
+
+const hubSpotList = object({ listId: id, name: text });
+
+export const hubSpotListSearchSchema: Schema<HubSpotListSearchResponse> = object({
+  lists: array(hubSpotList, { skipInvalid: true }),
+});
+
+export const createHubSpotListSchema: Schema<CreateHubSpotListResponse> = object({
+  listId: id,
+  name: maybeText,
+});
+
+export const tokenResponseSchema: Schema<TokenResponse> = object({
+  access_token: string(),
+  // Some refresh endpoints don't rotate the refresh token
+  refresh_token: text,
+  token_type: maybeText,
+  user: withFallback(optional(object({
+    username: string(),
+    // Missing roles get the default ones; unreadable roles get none
+    roles: withFallback(optional(array(oneOf(['admin', 'recruiter', 'viewer'] as const), { skipInvalid: true })), []),
+  })), undefined),
+});
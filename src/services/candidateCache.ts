@@ -0,0 +1,31 @@
+import type { SearchResult } from '../types/api';
+
+// The backend has no "get candidate" endpoint, so the detail page works from
+// the search results the user has already loaded. Kept in sessionStorage so
+// a reload or a link opened in the same tab still resolves.
+
+const STORAGE_KEY = 'candidates:cache';
+const MAX_ENTRIES = 500;
+
+const read = (): Record<string, SearchResult> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const rememberCandidates = (results: SearchResult[]) => {
+  // Newest results go last so the oldest entries are the ones dropped
+  const incoming = new Set(results.map((result) => result.contact_id));
+  const entries = Object.entries(read()).filter(([id]) => !incoming.has(id));
+  results.forEach((result) => entries.push([result.contact_id, result]));
+
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(entries.slice(-MAX_ENTRIES))));
+  } catch {
+    // Storage full: the detail page falls back to "not loaded"
+  }
+};
+
+export const getCachedCandidate = (contactId: string): SearchResult | undefined => read()[contactId];
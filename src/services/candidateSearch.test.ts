@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SearchRequest, SearchResult } from '../types/api';
+import { parseQuery, type QueryNode } from '../utils/searchQuery';
+import { searchByQuery } from './candidateSearch';
+import { searchCandidates } from './api';
+
+vi.mock('./api', () => ({ searchCandidates: vi.fn() }));
+
+const search = vi.mocked(searchCandidates);
+
+const parse = (input: string): QueryNode => {
+  const result = parseQuery(input);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.query;
+};
+
+const result = (contactId: string, fullText: string): SearchResult => ({
+  contact_id: contactId,
+  name: contactId,
+  email: '',
+  job_title: '',
+  full_text: fullText,
+  skills: '',
+  matched_keywords: [],
+});
+
+// A backend that only understands keywords, with one page per cursor
+const pages = (...results: SearchResult[][]) =>
+  search.mockImplementation(async ({ keywords, mode, cursor }: SearchRequest) => {
+    const index = cursor ? Number(cursor) : 0;
+    return {
+      data: {
+        keywords,
+        mode,
+        results: results[index],
+        total: 1000,
+        next_cursor: index + 1 < results.length ? String(index + 1) : undefined,
+      },
+      warnings: [],
+    };
+  });
+
+beforeEach(() => {
+  search.mockReset();
+});
+
+describe('searchByQuery', () => {
+  it('asks for all keywords for a plain AND of terms, and keeps the total', async () => {
+    pages([result('1', 'Java in Berlin')]);
+    const { data } = await searchByQuery(parse('Java AND Berlin'));
+    expect(search).toHaveBeenCalledWith(expect.objectContaining({ keywords: ['Java', 'Berlin'], mode: 'and' }), undefined);
+    expect(data.total).toBe(1000);
+    expect(data.results[0].matched_keywords).toEqual(['Java', 'Berlin']);
+  });
+
+  it('asks for any keyword otherwise, and drops the total', async () => {
+    pages([result('1', 'React'), result('2', 'Junior React')]);
+    const { data } = await searchByQuery(parse('(React OR Vue) AND NOT junior'));
+    expect(search).toHaveBeenCalledWith(expect.objectContaining({ keywords: ['React', 'Vue'], mode: 'or' }), undefined);
+    expect(data.results.map((r) => r.contact_id)).toEqual(['1']);
+    expect(data.total).toBeUndefined();
+  });
+
+  it('drops the total for field-scoped terms, which keywords match anywhere', async () => {
+    pages([result('1', 'engineer')]);
+    const { data } = await searchByQuery(parse('title:engineer'));
+    expect(data.total).toBeUndefined();
+  });
+
+  it('skips pages without a match', async () => {
+    pages([result('1', 'Vue')], [result('2', 'Angular')], [result('3', 'React'), result('4', 'Vue')], [result('5', 'React')]);
+    const { data } = await searchByQuery(parse('React OR (Java AND Berlin)'));
+    expect(data.results.map((r) => r.contact_id)).toEqual(['3']);
+    expect(data.next_cursor).toBe('3');
+    expect(search).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops at the last page when nothing matches', async () => {
+    pages([result('1', 'Vue')], [result('2', 'Angular')]);
+    const { data } = await searchByQuery(parse('React OR Svelte'));
+    expect(data.results).toEqual([]);
+    expect(data.next_cursor).toBeUndefined();
+  });
+
+  it('returns what a backend that evaluates the query sends', async () => {
+    const response = { data: { keywords: ['React'], mode: 'or' as const, query: 'React', results: [], total: 0 }, warnings: [] };
+    search.mockResolvedValue(response);
+    expect(await searchByQuery(parse('React OR Vue'))).toBe(response);
+  });
+});
@@ -0,0 +1,124 @@
+import { searchCandidates } from './api';
+import type { SearchResult } from '../types/api';
+import { applyFilters, readFilters } from '../utils/searchFilters';
+import {
+  evaluateQuery,
+  formatQuery,
+  matchingTerms,
+  positiveTerms,
+  type QueryNode,
+  type SearchableText,
+} from '../utils/searchQuery';
+import { readUrlSearch } from '../utils/searchUrl';
+import { fuzzyExpandQuery } from '../utils/fuzzyMatch';
+import { expandQuery, type ExpandedQuery } from '../utils/skillTaxonomy';
+import { loadSkillTaxonomy } from './skillTaxonomy';
+import { loadSearchVocabulary } from './searchVocabulary';
+
+export const searchableText = ({ name, job_title, skills, full_text }: SearchResult): SearchableText => ({
+  all: [name, job_title, skills, full_text].join('\n'),
+  title: job_title,
+  skills,
+});
+
+/**
+ * The query as it is sent: with close words from `vocabulary` for
+ * typo-tolerant searches, then synonyms from the skill taxonomy. Each added
+ * term maps to the searched term it stands in for.
+ */
+export const expandSearch = (query: QueryNode, vocabulary?: string[]): ExpandedQuery => {
+  const fuzzy = vocabulary ? fuzzyExpandQuery(query, vocabulary) : { query, synonymOf: new Map<string, string>() };
+  const expanded = expandQuery(fuzzy.query, loadSkillTaxonomy());
+  const synonymOf = new Map(fuzzy.synonymOf);
+  expanded.synonymOf.forEach((term, variant) => {
+    if (!synonymOf.has(variant)) synonymOf.set(variant, fuzzy.synonymOf.get(term.toLowerCase()) ?? term);
+  });
+  return { query: expanded.query, synonymOf };
+};
+
+/** Results per request; backends that don't page ignore it and send everything. */
+export const SEARCH_PAGE_SIZE = 100;
+
+// The terms of a query that needs all of them, e.g. `Java AND Berlin`; null for any other query
+const allOfTerms = (query: QueryNode) => {
+  if (query.type === 'term') return [query];
+  if (query.type === 'and' && query.children.every((child) => child.type === 'term')) {
+    return query.children as Array<Extract<QueryNode, { type: 'term' }>>;
+  }
+  return null;
+};
+
+/**
+ * Runs a boolean query, one page at a time: pass the previous page's
+ * `next_cursor` for the next one. The backend gets the query itself plus its
+ * positive terms as a keyword search: all of them for a plain AND of terms,
+ * any of them otherwise. If it doesn't echo the query back, it only
+ * understood the keywords, and the query is applied here to what they found.
+ * Pages with no match left are skipped, so a narrow query doesn't show empty
+ * pages. Candidates matching the query without any positive term (e.g.
+ * `React OR NOT junior`) can't be found that way. `total` is kept only when
+ * the keywords find exactly what the query does, i.e. for unscoped AND terms.
+ */
+export const searchByQuery = async (query: QueryNode, cursor?: string, signal?: AbortSignal) => {
+  const terms = allOfTerms(query);
+  const request = (pageCursor?: string) =>
+    searchCandidates(
+      {
+        keywords: positiveTerms(query),
+        mode: terms ? 'and' : 'or',
+        query: formatQuery(query),
+        limit: SEARCH_PAGE_SIZE,
+        cursor: pageCursor,
+      },
+      signal
+    );
+
+  const response = await request(cursor);
+  if (response.data.query) return response;
+
+  const matching = (page: SearchResult[]) =>
+    page.flatMap((result) => {
+      const text = searchableText(result);
+      return evaluateQuery(query, text) ? [{ ...result, matched_keywords: matchingTerms(query, text) }] : [];
+    });
+  let results = matching(response.data.results);
+  let nextCursor = response.data.next_cursor;
+  const warnings = [...response.warnings];
+  while (results.length === 0 && nextCursor) {
+    const next = await request(nextCursor);
+    results = matching(next.data.results);
+    nextCursor = next.data.next_cursor;
+    warnings.push(...next.warnings);
+  }
+
+  const exact = terms !== null && terms.every((term) => !term.field);
+  return {
+    data: { ...response.data, results, next_cursor: nextCursor, total: exact ? response.data.total : undefined },
+    warnings,
+  };
+};
+
+/** Every result from `cursor` on, for acting on all matches rather than the loaded ones. */
+export const loadRemainingResults = async (query: QueryNode, cursor: string, signal?: AbortSignal) => {
+  const results: SearchResult[] = [];
+  for (let next: string | undefined = cursor; next; ) {
+    const { data } = await searchByQuery(query, next, signal);
+    results.push(...data.results);
+    next = data.next_cursor;
+  }
+  return results;
+};
+
+/**
+ * Everything a search URL finds, expanded like on the search page, on all
+ * pages and after its filters; e.g. for re-running `owner`'s saved search.
+ */
+export const findAllMatches = async (params: URLSearchParams, owner: string, signal?: AbortSignal) => {
+  const { query: searched, fuzzy } = readUrlSearch(params);
+  if (!searched) return [];
+  const { query } = expandSearch(searched, fuzzy ? await loadSearchVocabulary(owner) : undefined);
+  const { data } = await searchByQuery(query, undefined, signal);
+  const rest = data.next_cursor ? await loadRemainingResults(query, data.next_cursor, signal) : [];
+  const unique = new Map([...data.results, ...rest].map((result) => [result.contact_id, result]));
+  return applyFilters(Array.from(unique.values()), readFilters(params));
+};
@@ -0,0 +1,67 @@
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { detectFormatOfBytes, type FileFormat } from './fileFormats';
+
+// Loads CVs for the in-app preview. The renderers (pdf.js, docx-preview) are
+// large, so they're only fetched the first time a preview is opened.
+
+export type PreviewKind = 'pdf' | 'docx';
+
+const PREVIEW_KINDS: Record<string, PreviewKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+};
+
+/** Which renderer can show a file of this MIME type, if any. */
+export const previewKindOf = (mimeType: string): PreviewKind | null => PREVIEW_KINDS[mimeType] ?? null;
+
+export interface LoadedDocument {
+  name: string;
+  bytes: Uint8Array;
+  /** Detected from the content; null when it isn't a format we know. */
+  format: FileFormat | null;
+}
+
+const nameFromUrl = (url: string) => {
+  try {
+    const path = new URL(url).pathname;
+    return decodeURIComponent(path.slice(path.lastIndexOf('/') + 1)) || url;
+  } catch {
+    return url;
+  }
+};
+
+/** Reads an uploaded file, or downloads a CV from its link. */
+export const loadDocument = async (source: File | string): Promise<LoadedDocument> => {
+  if (typeof source !== 'string') {
+    const bytes = new Uint8Array(await source.arrayBuffer());
+    return { name: source.name, bytes, format: detectFormatOfBytes(bytes, source.name) };
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(source);
+  } catch {
+    // Also what a CORS refusal looks like from here
+    throw new Error('The CV could not be downloaded. Its host may not allow previews from this site.');
+  }
+  if (!response.ok) {
+    throw new Error(`The CV could not be downloaded (HTTP ${response.status}).`);
+  }
+  const name = nameFromUrl(source);
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  return { name, bytes, format: detectFormatOfBytes(bytes, name) };
+};
+
+export const loadPdfjs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  return pdfjs;
+};
+
+export const loadDocxRenderer = () => import('docx-preview');
+
+/** How many search term matches a page has. Pages are numbered from 1. */
+export interface PageMatches {
+  page: number;
+  count: number;
+}
@@ -0,0 +1,55 @@
+import { loadDocument, loadDocxRenderer, loadPdfjs } from './documentPreview';
+
+// Plain text of an uploaded document, e.g. a job description. Uses the same
+// renderers as the CV preview, so they're only fetched when needed.
+
+/** Formats `extractDocumentText` reads, for the file input's `accept`. */
+export const TEXT_DOCUMENT_ACCEPT = '.txt,.md,.pdf,.docx,.html,.htm';
+
+const pdfText = async (bytes: Uint8Array) => {
+  const pdfjs = await loadPdfjs();
+  const pdf = await pdfjs.getDocument({ data: bytes }).promise;
+  try {
+    const pages: string[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const content = await (await pdf.getPage(number)).getTextContent();
+      pages.push(content.items.map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')).join(''));
+    }
+    return pages.join('\n');
+  } finally {
+    pdf.destroy();
+  }
+};
+
+// docx-preview renders into the DOM, so the text is read from an element that's never shown
+const docxText = async (bytes: Uint8Array) => {
+  const { renderAsync } = await loadDocxRenderer();
+  const container = document.createElement('div');
+  await renderAsync(bytes, container, undefined, { inWrapper: false, ignoreHeight: true, ignoreWidth: true });
+  return Array.from(container.querySelectorAll('p'))
+    .map((paragraph) => paragraph.textContent ?? '')
+    .join('\n');
+};
+
+const htmlText = (bytes: Uint8Array) => {
+  const html = new TextDecoder().decode(bytes);
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  // One line per block, so headings and bullet points stay apart
+  const blocks = Array.from(body.querySelectorAll('h1, h2, h3, h4, h5, h6, p, li, dt, dd'));
+  return blocks.length > 0 ? blocks.map((block) => block.textContent ?? '').join('\n') : body.textContent ?? '';
+};
+
+export const extractDocumentText = async (file: File): Promise<string> => {
+  const { bytes, format } = await loadDocument(file);
+  switch (format?.label) {
+    case 'PDF':
+      return pdfText(bytes);
+    case 'DOCX':
+      return docxText(bytes);
+    case 'HTML':
+      return htmlText(bytes);
+    default:
+      if (/\.(txt|md)$/i.test(file.name) || format?.label === 'TXT') return new TextDecoder().decode(bytes);
+      throw new Error(`${file.name} can't be read. Paste its text, or upload a TXT, Markdown, PDF, DOCX or HTML file.`);
+  }
+};
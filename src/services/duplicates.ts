@@ -0,0 +1,50 @@
+import type { UploadItem } from './uploadQueue';
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of the file's contents. `crypto.subtle` only exists in secure
+ * contexts (HTTPS or localhost); elsewhere name, size and modification time
+ * stand in for the content.
+ */
+export const hashFile = async (file: File): Promise<string> => {
+  if (!crypto.subtle) return `${file.name}:${file.size}:${file.lastModified}`;
+  return toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+};
+
+export interface DuplicateFile {
+  file: File;
+  contentHash: string;
+  /** Earlier uploads of the same content, newest first. */
+  previous: UploadItem[];
+}
+
+/**
+ * Hashes `files` and splits them into new files, files already in the
+ * upload history, and repeats of a file earlier in the same selection.
+ * Cancelled uploads don't count as previous uploads.
+ */
+export const checkUploadHistory = async (files: File[], history: UploadItem[]) => {
+  const hashes = await Promise.all(files.map(hashFile));
+  const fresh: Array<{ file: File; contentHash: string }> = [];
+  const duplicates: DuplicateFile[] = [];
+  const repeated: File[] = [];
+
+  files.forEach((file, index) => {
+    const contentHash = hashes[index];
+    const previous = history
+      .filter((item) => item.contentHash === contentHash && item.status !== 'cancelled')
+      .sort((a, b) => b.createdAt - a.createdAt);
+    const inBatch = [...fresh, ...duplicates].some((entry) => entry.contentHash === contentHash);
+    if (inBatch) {
+      repeated.push(file);
+    } else if (previous.length > 0) {
+      duplicates.push({ file, contentHash, previous });
+    } else {
+      fresh.push({ file, contentHash });
+    }
+  });
+
+  return { fresh, duplicates, repeated };
+};
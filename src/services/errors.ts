@@ -0,0 +1,44 @@
+import { config } from '../config';
+
+export type ApiErrorKind = 'network' | 'timeout' | 'aborted' | 'http' | 'parse' | 'validation';
+
+// Every failure coming out of the API client is an ApiError, so components only
+// ever need to look at `kind` / `status` and show `message`.
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly detail?: unknown;
+
+  constructor(kind: ApiErrorKind, message: string, options: { status?: number; detail?: unknown } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.detail = options.detail;
+  }
+}
+
+export const getErrorMessage = (err: unknown, fallback: string): string => {
+  if (err instanceof ApiError || err instanceof Error) {
+    return err.message || fallback;
+  }
+  return fallback;
+};
+
+export const networkError = () =>
+  new ApiError(
+    'network',
+    `Cannot connect to backend server at ${config.backendUrl}. Please ensure the backend server is running.`
+  );
+
+export const timeoutError = () =>
+  new ApiError('timeout', 'Request timed out. Please check your connection and try again.');
+
+export const abortedError = () => new ApiError('aborted', 'Request was cancelled.');
+
+// FastAPI puts the reason in `detail`; fall back to the status text.
+export const httpError = (status: number, statusText: string, body: unknown, fallback: string) => {
+  const detail = body && typeof body === 'object' ? (body as { detail?: unknown }).detail : undefined;
+  const message = typeof detail === 'string' && detail ? detail : `${fallback}: ${statusText || `HTTP ${status}`}`;
+  return new ApiError('http', message, { status, detail: body });
+};
@@ -0,0 +1,211 @@
+// The one list of file formats the upload understands. The file picker's
+// `accept`, the "Supported formats" text, folder/archive expansion and the
+// upload itself all read from it.
+//
+// Formats are recognised by their first bytes, not by the file name: a PDF
+// saved as "cv" or "cv.docx" is still a PDF. Plain text has no signature, so
+// it's the one format that also needs its extension.
+
+export type FormatKind = 'resume' | 'archive';
+
+export interface FileFormat {
+  /** Shown to users, e.g. "PDF". */
+  label: string;
+  kind: FormatKind;
+  extensions: string[];
+  /** Sent with the upload, so the backend doesn't have to guess either. */
+  mimeType: string;
+  sniff: (header: Header) => boolean;
+}
+
+interface Header {
+  bytes: Uint8Array;
+  /** The header decoded as Latin-1, for text signatures. */
+  text: string;
+  /** The header is valid UTF-8 without NUL bytes. */
+  isText: boolean;
+  extension: string;
+}
+
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const HEADER_SIZE = 4096;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const isZip = ({ bytes }: Header) => startsWith(bytes, ZIP_SIGNATURE);
+
+// Office Open XML and OpenDocument files are ZIPs; they're told apart from
+// plain archives by the entries at the start of the file
+const isDocx = (header: Header) =>
+  isZip(header) &&
+  (header.text.includes('word/') || (header.extension === '.docx' && header.text.includes('[Content_Types].xml')));
+const isOdt = (header: Header) =>
+  isZip(header) && header.text.slice(30, 80).startsWith('mimetypeapplication/vnd.oasis.opendocument.text');
+
+const textStart = ({ text }: Header) => text.replace(/^\xef\xbb\xbf/, '').trimStart().slice(0, 64).toLowerCase();
+
+// Order matters: the specific ZIP-based formats come before plain ZIP
+export const FILE_FORMATS: FileFormat[] = [
+  {
+    label: 'PDF',
+    kind: 'resume',
+    extensions: ['.pdf'],
+    mimeType: 'application/pdf',
+    sniff: ({ bytes }) => startsWith(bytes, [0x25, 0x50, 0x44, 0x46, 0x2d]), // %PDF-
+  },
+  {
+    label: 'DOC',
+    kind: 'resume',
+    extensions: ['.doc'],
+    mimeType: 'application/msword',
+    // OLE2 compound document
+    sniff: ({ bytes }) => startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+  },
+  {
+    label: 'DOCX',
+    kind: 'resume',
+    extensions: ['.docx'],
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    sniff: isDocx,
+  },
+  {
+    label: 'ODT',
+    kind: 'resume',
+    extensions: ['.odt'],
+    mimeType: 'application/vnd.oasis.opendocument.text',
+    sniff: isOdt,
+  },
+  {
+    label: 'RTF',
+    kind: 'resume',
+    extensions: ['.rtf'],
+    mimeType: 'application/rtf',
+    sniff: (header) => textStart(header).startsWith('{\\rtf'),
+  },
+  {
+    label: 'HTML',
+    kind: 'resume',
+    extensions: ['.html', '.htm'],
+    mimeType: 'text/html',
+    sniff: (header) => header.isText && /^<(!doctype html|html|head|body)[\s>]/.test(textStart(header)),
+  },
+  {
+    label: 'TXT',
+    kind: 'resume',
+    extensions: ['.txt'],
+    mimeType: 'text/plain',
+    sniff: ({ isText, extension }) => isText && extension === '.txt',
+  },
+  {
+    label: 'PNG',
+    kind: 'resume',
+    extensions: ['.png'],
+    mimeType: 'image/png',
+    sniff: ({ bytes }) => startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  {
+    label: 'JPG',
+    kind: 'resume',
+    extensions: ['.jpg', '.jpeg'],
+    mimeType: 'image/jpeg',
+    sniff: ({ bytes }) => startsWith(bytes, [0xff, 0xd8, 0xff]),
+  },
+  {
+    label: 'ZIP',
+    kind: 'archive',
+    extensions: ['.zip'],
+    mimeType: 'application/zip',
+    sniff: isZip,
+  },
+];
+
+const formatsOf = (kind: FormatKind) => FILE_FORMATS.filter((format) => format.kind === kind);
+
+/** "PDF, DOC, DOCX, ..." for the upload area. */
+export const SUPPORTED_FORMATS_LABEL = formatsOf('resume').map((format) => format.label).join(', ');
+export const ARCHIVE_FORMATS_LABEL = formatsOf('archive').map((format) => format.label).join(', ');
+
+/** Value for the file input's `accept`: every extension and MIME type we can take. */
+export const ACCEPT_ATTRIBUTE = FILE_FORMATS.flatMap((format) => [...format.extensions, format.mimeType]).join(',');
+
+export type RejectionReason = 'unsupported' | 'too-large' | 'empty' | 'duplicate';
+
+export const REJECTION_LABELS: Record<RejectionReason, string> = {
+  unsupported: 'Unsupported file type',
+  'too-large': `Larger than ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+  empty: 'Empty file',
+  duplicate: 'Selected more than once',
+};
+
+export interface RejectionGroup {
+  reason: RejectionReason;
+  names: string[];
+}
+
+/** Groups rejected file names by reason, in the order of `REJECTION_LABELS`. */
+export const groupRejections = (rejected: Array<{ name: string; reason: RejectionReason }>): RejectionGroup[] =>
+  (Object.keys(REJECTION_LABELS) as RejectionReason[])
+    .map((reason) => ({
+      reason,
+      names: rejected.filter((entry) => entry.reason === reason).map((entry) => entry.name),
+    }))
+    .filter((group) => group.names.length > 0);
+
+export const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot).toLowerCase();
+};
+
+const readHeader = (bytes: Uint8Array, name: string): Header => {
+  let isText = !bytes.includes(0);
+  if (isText) {
+    try {
+      // `stream` tolerates a multi-byte character cut off at the end of the header
+      new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    } catch {
+      isText = false;
+    }
+  }
+  return {
+    bytes,
+    text: Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''),
+    isText,
+    extension: extensionOf(name),
+  };
+};
+
+/** Identifies in-memory content, e.g. an entry unpacked from an archive. */
+export const detectFormatOfBytes = (bytes: Uint8Array, name: string): FileFormat | null => {
+  const header = readHeader(bytes.subarray(0, HEADER_SIZE), name);
+  return FILE_FORMATS.find((format) => format.sniff(header)) ?? null;
+};
+
+export const detectFormat = async (file: File): Promise<FileFormat | null> =>
+  detectFormatOfBytes(new Uint8Array(await file.slice(0, HEADER_SIZE).arrayBuffer()), file.name);
+
+export type FileCheck =
+  | { ok: true; file: File; format: FileFormat }
+  | { ok: false; reason: RejectionReason };
+
+/**
+ * Checks that `file` is a resume we can upload. Accepted files come back
+ * with their MIME type set from the detected format.
+ */
+export const checkResumeFile = async (file: File): Promise<FileCheck> => {
+  if (file.size === 0) return { ok: false, reason: 'empty' };
+  if (file.size > MAX_FILE_SIZE) return { ok: false, reason: 'too-large' };
+
+  const format = await detectFormat(file);
+  if (!format || format.kind !== 'resume') return { ok: false, reason: 'unsupported' };
+  return {
+    ok: true,
+    format,
+    file: file.type === format.mimeType ? file : new File([file], file.name, { type: format.mimeType, lastModified: file.lastModified }),
+  };
+};
+
+/** OS clutter that lands in folders and ZIPs: never reported as skipped. */
+export const isSystemFile = (path: string) =>
+  path.split('/').some((part) => part === '__MACOSX' || part === '.DS_Store' || part === 'Thumbs.db' || part.startsWith('._'));
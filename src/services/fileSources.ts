@@ -0,0 +1,168 @@
+import { unzip, type Unzipped } from 'fflate';
+import {
+  checkResumeFile,
+  detectFormat,
+  detectFormatOfBytes,
+  extensionOf,
+  isSystemFile,
+  MAX_FILE_SIZE,
+  type RejectionReason,
+} from './fileFormats';
+
+// Turns whatever the user dropped or picked (files, folders, ZIP archives)
+// into a flat list of resumes. Folders are walked and archives unpacked in
+// the browser; anything inside them that isn't a resume is reported per
+// folder/archive instead of being rejected one by one.
+
+export interface PickedFile {
+  file: File;
+  /** Relative path, e.g. "Candidates/jane.pdf"; just the name for loose files. */
+  path: string;
+}
+
+export interface SkippedFile {
+  path: string;
+  reason: RejectionReason;
+}
+
+export interface SourceSummary {
+  name: string;
+  kind: 'folder' | 'archive';
+  accepted: number;
+  skipped: SkippedFile[];
+  /** Set when the archive couldn't be read at all. */
+  error?: string;
+}
+
+export interface RejectedFile {
+  file: File;
+  reason: RejectionReason;
+}
+
+export interface ExpandedFiles {
+  /** Every resume found, checked and ready to upload. */
+  resumes: File[];
+  /** Files picked on their own that can't be uploaded. */
+  rejected: RejectedFile[];
+  /** What was found in each folder and archive, including what was skipped. */
+  sources: SourceSummary[];
+}
+
+export const fromFileList = (files: FileList | File[]): PickedFile[] =>
+  Array.from(files).map((file) => ({ file, path: file.webkitRelativePath || file.name }));
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+const walk = async (entry: FileSystemEntry, out: PickedFile[]) => {
+  if (entry.isFile) {
+    out.push({ file: await readFile(entry as FileSystemFileEntry), path: entry.fullPath.replace(/^\//, '') });
+  } else if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries hands out directory contents in batches until it returns none
+    for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+      for (const child of batch) await walk(child, out);
+    }
+  }
+};
+
+/**
+ * Collects dropped files, descending into dropped folders. Must be called
+ * synchronously from the drop handler: the browser empties `dataTransfer`
+ * once the event is over.
+ */
+export const fromDataTransfer = (dataTransfer: DataTransfer): Promise<PickedFile[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry());
+  const files = fromFileList(dataTransfer.files);
+
+  if (entries.length === 0 || entries.some((entry) => entry === null)) {
+    return Promise.resolve(files);
+  }
+  return (async () => {
+    const out: PickedFile[] = [];
+    for (const entry of entries) await walk(entry as FileSystemEntry, out);
+    return out;
+  })();
+};
+
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+const unzipArchive = async (archive: File): Promise<{ files: File[]; skipped: SkippedFile[] }> => {
+  const skipped: SkippedFile[] = [];
+  const buffer = new Uint8Array(await archive.arrayBuffer());
+
+  const unzipped = await new Promise<Unzipped>((resolve, reject) =>
+    unzip(buffer, {
+      // Decided from the entry headers, so oversized entries are never inflated
+      filter: ({ name, originalSize }) => {
+        if (name.endsWith('/') || isSystemFile(name)) return false;
+        if (originalSize === 0) skipped.push({ path: name, reason: 'empty' });
+        if (originalSize > MAX_FILE_SIZE) skipped.push({ path: name, reason: 'too-large' });
+        return originalSize > 0 && originalSize <= MAX_FILE_SIZE;
+      },
+    }, (err, data) => (err ? reject(err) : resolve(data)))
+  );
+
+  // Archives inside archives aren't unpacked
+  const files = Object.entries(unzipped).flatMap(([name, data]) => {
+    const format = detectFormatOfBytes(data, name);
+    if (format?.kind !== 'resume') {
+      skipped.push({ path: name, reason: 'unsupported' });
+      return [];
+    }
+    return [new File([data], baseName(name), { type: format.mimeType })];
+  });
+  return { files, skipped };
+};
+
+const isArchive = async (file: File) =>
+  extensionOf(file.name) === '.zip' || (await detectFormat(file))?.kind === 'archive';
+
+export const expandFiles = async (picked: PickedFile[]): Promise<ExpandedFiles> => {
+  const result: ExpandedFiles = { resumes: [], rejected: [], sources: [] };
+  const folders = new Map<string, SourceSummary>();
+
+  for (const { file, path } of picked) {
+    if (isSystemFile(path)) continue;
+
+    if (await isArchive(file)) {
+      const summary: SourceSummary = { name: file.name, kind: 'archive', accepted: 0, skipped: [] };
+      try {
+        const { files, skipped } = await unzipArchive(file);
+        result.resumes.push(...files);
+        summary.accepted = files.length;
+        summary.skipped = skipped;
+      } catch (err) {
+        console.error(`Failed to unpack ${file.name}:`, err);
+        summary.error = 'The archive is damaged or uses an unsupported compression method.';
+      }
+      result.sources.push(summary);
+      continue;
+    }
+
+    const check = await checkResumeFile(file);
+    const folder = path.includes('/') ? path.slice(0, path.indexOf('/')) : null;
+    if (!folder) {
+      if (check.ok) result.resumes.push(check.file);
+      else result.rejected.push({ file, reason: check.reason });
+      continue;
+    }
+
+    const summary = folders.get(folder) ?? { name: folder, kind: 'folder' as const, accepted: 0, skipped: [] };
+    folders.set(folder, summary);
+    if (check.ok) {
+      result.resumes.push(check.file);
+      summary.accepted++;
+    } else {
+      summary.skipped.push({ path, reason: check.reason });
+    }
+  }
+
+  result.sources.push(...folders.values());
+  return result;
+};
@@ -0,0 +1,124 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SearchResult } from '../types/api';
+import { formatQuery, type QueryNode } from '../utils/searchQuery';
+import type { JobRequirements } from '../utils/jobDescription';
+import { searchByQuery } from './candidateSearch';
+import {
+  MAX_JOB_CANDIDATES,
+  findJobMatches,
+  jobQueries,
+  loadJobMatchDraft,
+  rankJobMatches,
+  saveJobMatchDraft,
+} from './jobMatch';
+
+vi.mock('./candidateSearch', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./candidateSearch')>()),
+  searchByQuery: vi.fn(),
+}));
+
+const search = vi.mocked(searchByQuery);
+
+const result = (contactId: string, fields: Partial<SearchResult> = {}): SearchResult => ({
+  contact_id: contactId,
+  name: contactId,
+  email: '',
+  job_title: '',
+  full_text: '',
+  skills: '',
+  matched_keywords: [],
+  ...fields,
+});
+
+const JOB: JobRequirements = {
+  title: 'Senior Frontend Developer',
+  seniority: 'senior',
+  minYears: 5,
+  required: ['React', 'TypeScript'],
+  niceToHave: ['GraphQL'],
+};
+
+beforeEach(() => {
+  search.mockReset();
+  sessionStorage.clear();
+});
+
+describe('jobQueries', () => {
+  it('searches for all required skills first, then any of them or the title', () => {
+    expect(jobQueries(JOB).map(formatQuery)).toEqual([
+      'React AND TypeScript',
+      'React OR TypeScript OR (title:frontend AND title:developer)',
+    ]);
+  });
+
+  it('uses nice-to-have skills only when nothing is required', () => {
+    expect(jobQueries({ ...JOB, title: '', required: [] }).map(formatQuery)).toEqual(['GraphQL']);
+    expect(jobQueries({ title: '', required: [], niceToHave: [] })).toEqual([]);
+  });
+});
+
+describe('rankJobMatches', () => {
+  it('scores the weights of what each candidate covers, best first', () => {
+    const [best, second, last] = rankJobMatches(
+      [
+        result('partial', { job_title: 'Frontend Developer', skills: 'React', years_of_experience: 6 }),
+        result('none', { job_title: 'Backend Developer', skills: 'Java', years_of_experience: 2 }),
+        result('full', { job_title: 'Senior Frontend Developer', skills: 'React, GraphQL, TypeScript' }),
+      ],
+      JOB,
+      []
+    );
+    expect(best).toMatchObject({
+      result: { contact_id: 'full' },
+      score: 100,
+      titleMatch: true,
+      seniorityMatch: true,
+      missing: { required: [], niceToHave: [] },
+    });
+    // React 3 + title 2 + experience 1, out of 3 + 3 + 1 + 2 + 1
+    expect(second).toMatchObject({ result: { contact_id: 'partial' }, score: 60, missing: { required: ['TypeScript'] } });
+    expect(last).toMatchObject({ result: { contact_id: 'none' }, score: 0, seniorityMatch: false });
+  });
+});
+
+describe('findJobMatches', () => {
+  it('stops collecting candidates once the pool is full', async () => {
+    const page = (from: number) => Array.from({ length: 100 }, (_, i) => result(String(from + i), { skills: 'React' }));
+    search.mockImplementation(async (_query: QueryNode, cursor?: string) => {
+      const from = cursor ? Number(cursor) : 0;
+      return { data: { keywords: [], mode: 'or', results: page(from), next_cursor: String(from + 100) }, warnings: [] };
+    });
+    const { matches, truncated } = await findJobMatches(JOB);
+    expect(matches).toHaveLength(MAX_JOB_CANDIDATES);
+    expect(truncated).toBe(true);
+    expect(search).toHaveBeenCalledTimes(MAX_JOB_CANDIDATES / 100);
+  });
+
+  it('ranks each candidate once, whichever search found them', async () => {
+    search.mockResolvedValue({ data: { keywords: [], mode: 'or', results: [result('1', { skills: 'React' })] }, warnings: [] });
+    const { matches, truncated } = await findJobMatches(JOB);
+    expect(matches).toHaveLength(1);
+    expect(truncated).toBe(false);
+    expect(search).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('job match drafts', () => {
+  const draft = { description: 'We need React', requirements: JOB, searched: true };
+
+  it('are kept per user', () => {
+    saveJobMatchDraft('ada', draft);
+    expect(loadJobMatchDraft('ada')).toEqual(draft);
+    expect(loadJobMatchDraft('bob')).toBeNull();
+  });
+
+  it('are dropped when their shape is wrong', () => {
+    sessionStorage.setItem('jobMatch:ada', JSON.stringify({ ...draft, requirements: { title: 'x', required: 'React' } }));
+    expect(loadJobMatchDraft('ada')).toBeNull();
+    sessionStorage.setItem('jobMatch:ada', JSON.stringify({ ...draft, requirements: { ...JOB, seniority: 'wizard' } }));
+    expect(loadJobMatchDraft('ada')).toBeNull();
+    sessionStorage.setItem('jobMatch:ada', '{oops');
+    expect(loadJobMatchDraft('ada')).toBeNull();
+  });
+});
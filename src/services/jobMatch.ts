@@ -0,0 +1,211 @@
+import type { SearchResult } from '../types/api';
+import { detectSeniority, SENIORITY_LEVELS, type JobRequirements } from '../utils/jobDescription';
+import { combineQueries, evaluateQuery, type QueryNode } from '../utils/searchQuery';
+import { expandQuery, type TaxonomyEntry } from '../utils/skillTaxonomy';
+import { expandSearch, searchByQuery, searchableText } from './candidateSearch';
+import { loadSkillTaxonomy } from './skillTaxonomy';
+
+// Ranks candidates against a job's requirements. The searches find a pool of
+// candidates, those with all required skills first; each candidate then
+// scores the weights of the requirements they cover, out of all of them.
+
+export const REQUIREMENT_WEIGHTS = {
+  required: 3,
+  niceToHave: 1,
+  title: 2,
+  seniority: 1,
+};
+
+export interface SkillCoverage {
+  required: string[];
+  niceToHave: string[];
+}
+
+export interface JobMatch {
+  result: SearchResult;
+  /** 0 to 100. */
+  score: number;
+  covered: SkillCoverage;
+  missing: SkillCoverage;
+  titleMatch: boolean;
+  /** Unknown when neither the candidate's experience nor their title says. */
+  seniorityMatch?: boolean;
+}
+
+// Words of a job title that say what the job is, rather than how senior
+const titleWords = (title: string) =>
+  title
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}+#.]+/u)
+    .filter((word) => word.length >= 3 && !detectSeniority(word));
+
+/** Candidates ranked at most, so a common skill doesn't load (and render) thousands. */
+export const MAX_JOB_CANDIDATES = 500;
+
+/**
+ * The searches that find candidates worth ranking, narrowest first, so a
+ * full pool holds the likeliest matches: all required skills, then any
+ * required skill or the title. Nice-to-have skills weigh too little to find
+ * candidates by, unless the job requires none.
+ */
+export const jobQueries = (requirements: JobRequirements): QueryNode[] => {
+  const term = (value: string): QueryNode => ({ type: 'term', value });
+  const words = titleWords(requirements.title);
+  const title: QueryNode[] =
+    words.length > 0 ? [combineQueries(words.map((value) => ({ type: 'term', value, field: 'title' })), 'and')] : [];
+  const skills = requirements.required.length > 0 ? requirements.required : requirements.niceToHave;
+
+  const queries: QueryNode[] = [];
+  if (requirements.required.length > 1) queries.push(combineQueries(requirements.required.map(term), 'and'));
+  if (skills.length + title.length > 0) queries.push(combineQueries([...skills.map(term), ...title], 'or'));
+  return queries;
+};
+
+const hasSkill = (result: SearchResult, skill: string, taxonomy: TaxonomyEntry[]) =>
+  evaluateQuery(expandQuery({ type: 'term', value: skill }, taxonomy).query, searchableText(result));
+
+const matchSeniority = (result: SearchResult, requirements: JobRequirements): boolean | undefined => {
+  if (requirements.minYears !== undefined && result.years_of_experience !== undefined) {
+    return result.years_of_experience >= requirements.minYears;
+  }
+  if (!requirements.seniority) return undefined;
+  const level = detectSeniority(result.job_title);
+  if (!level) return undefined;
+  const rank = (id: string) => SENIORITY_LEVELS.findIndex((candidate) => candidate.id === id);
+  return rank(level) >= rank(requirements.seniority);
+};
+
+/** Scores and sorts `results`, best match first. */
+export const rankJobMatches = (
+  results: SearchResult[],
+  requirements: JobRequirements,
+  taxonomy: TaxonomyEntry[]
+): JobMatch[] => {
+  const words = titleWords(requirements.title);
+  const { required, niceToHave, title, seniority } = REQUIREMENT_WEIGHTS;
+
+  return results
+    .map((result): JobMatch => {
+      const covers = (skill: string) => hasSkill(result, skill, taxonomy);
+      const covered = {
+        required: requirements.required.filter(covers),
+        niceToHave: requirements.niceToHave.filter(covers),
+      };
+      const missing = {
+        required: requirements.required.filter((skill) => !covered.required.includes(skill)),
+        niceToHave: requirements.niceToHave.filter((skill) => !covered.niceToHave.includes(skill)),
+      };
+      const jobTitle = result.job_title.toLowerCase();
+      const titleMatch = words.length > 0 && words.every((word) => jobTitle.includes(word));
+      const seniorityMatch = matchSeniority(result, requirements);
+
+      const possible =
+        requirements.required.length * required +
+        requirements.niceToHave.length * niceToHave +
+        (words.length > 0 ? title : 0) +
+        (requirements.seniority || requirements.minYears !== undefined ? seniority : 0);
+      const earned =
+        covered.required.length * required +
+        covered.niceToHave.length * niceToHave +
+        (titleMatch ? title : 0) +
+        (seniorityMatch ? seniority : 0);
+
+      return {
+        result,
+        score: possible > 0 ? Math.round((earned / possible) * 100) : 0,
+        covered,
+        missing,
+        titleMatch,
+        seniorityMatch,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.covered.required.length - a.covered.required.length ||
+        a.result.name.localeCompare(b.result.name)
+    );
+};
+
+export interface JobMatchResults {
+  matches: JobMatch[];
+  /** The pool was full, so candidates found later weren't ranked. */
+  truncated: boolean;
+}
+
+/**
+ * Finds up to `MAX_JOB_CANDIDATES` candidates for the job, with taxonomy
+ * synonyms, and ranks them.
+ */
+export const findJobMatches = async (requirements: JobRequirements, signal?: AbortSignal): Promise<JobMatchResults> => {
+  const pool = new Map<string, SearchResult>();
+  for (const searched of jobQueries(requirements)) {
+    const { query } = expandSearch(searched);
+    let cursor: string | undefined;
+    do {
+      const { data } = await searchByQuery(query, cursor, signal);
+      for (const result of data.results) {
+        if (pool.size >= MAX_JOB_CANDIDATES) break;
+        pool.set(result.contact_id, result);
+      }
+      cursor = data.next_cursor;
+    } while (cursor && pool.size < MAX_JOB_CANDIDATES);
+    if (pool.size >= MAX_JOB_CANDIDATES) break;
+  }
+  return {
+    matches: rankJobMatches(Array.from(pool.values()), requirements, loadSkillTaxonomy()),
+    truncated: pool.size >= MAX_JOB_CANDIDATES,
+  };
+};
+
+// The job being matched, kept per user for the session, so returning from a candidate's page shows it again
+const DRAFT_PREFIX = 'jobMatch:';
+
+export interface JobMatchDraft {
+  description: string;
+  requirements: JobRequirements;
+  /** Whether candidates were searched for, so the search runs again on return. */
+  searched: boolean;
+}
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isRequirements = (value: unknown): value is JobRequirements => {
+  const requirements = value as JobRequirements | null;
+  return (
+    !!requirements &&
+    typeof requirements.title === 'string' &&
+    (requirements.seniority === undefined || SENIORITY_LEVELS.some((level) => level.id === requirements.seniority)) &&
+    (requirements.minYears === undefined || typeof requirements.minYears === 'number') &&
+    isStringList(requirements.required) &&
+    isStringList(requirements.niceToHave)
+  );
+};
+
+const isDraft = (value: unknown): value is JobMatchDraft => {
+  const draft = value as JobMatchDraft | null;
+  return (
+    !!draft &&
+    typeof draft.description === 'string' &&
+    typeof draft.searched === 'boolean' &&
+    isRequirements(draft.requirements)
+  );
+};
+
+export const loadJobMatchDraft = (owner: string): JobMatchDraft | null => {
+  try {
+    const saved: unknown = JSON.parse(sessionStorage.getItem(`${DRAFT_PREFIX}${owner}`) || 'null');
+    return isDraft(saved) ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveJobMatchDraft = (owner: string, draft: JobMatchDraft) => {
+  try {
+    sessionStorage.setItem(`${DRAFT_PREFIX}${owner}`, JSON.stringify(draft));
+  } catch {
+    // Storage full: the job is only lost on reload
+  }
+};
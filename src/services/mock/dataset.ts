@@ -0,0 +1,112 @@
+import type { EducationEntry, HubSpotList, LanguageSkill, ReviewStatus, Role, SearchResult } from '../../types/api';
+
+// Seed data for the mock backend. Candidates are searched the same way the
+// real backend does it: keywords against name, title, skills and full text.
+
+export interface MockCandidate extends Omit<SearchResult, 'matched_keywords'> {
+  phone: string;
+  /** Total experience, e.g. "8 years". */
+  experience: string;
+  summary: string;
+  company: string;
+  education: EducationEntry[];
+  languages: LanguageSkill[];
+  review_status?: ReviewStatus;
+}
+
+const COMPANIES = ['Zalando', 'N26', 'Delivery Hero', 'SAP', 'Personio', 'Celonis', 'HelloFresh'];
+const UNIVERSITIES = ['TU Berlin', 'LMU Munich', 'University of Hamburg', 'RWTH Aachen', 'KIT Karlsruhe'];
+const LOCATIONS = ['Berlin', 'Munich', 'Hamburg', 'Remote', 'Cologne'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const candidate = (
+  contact_id: string,
+  name: string,
+  job_title: string,
+  skills: string[],
+  experience: string,
+  summary: string
+): MockCandidate => {
+  const email = `${name.toLowerCase().replace(/[^a-z]+/g, '.')}@example.com`;
+  const seed = Number(contact_id.slice(-3));
+  return {
+    contact_id,
+    name,
+    email,
+    phone: `+49 30 ${contact_id.slice(-4)} ${contact_id.slice(-7, -4)}`,
+    job_title,
+    skills: skills.join(', '),
+    experience,
+    summary,
+    company: COMPANIES[seed % COMPANIES.length],
+    education: [{ institution: UNIVERSITIES[seed % UNIVERSITIES.length], degree: seed % 3 ? 'B.Sc.' : 'M.Sc.', field_of_study: 'Computer Science' }],
+    languages: [{ language: 'English', proficiency: 'C1' }, { language: 'German', proficiency: seed % 2 ? 'native' : 'B2' }],
+    full_text: [name, job_title, summary, `Skills: ${skills.join(', ')}`, `Experience: ${experience}`].join('\n'),
+    cv_url_link: seed % 5 === 4 ? undefined : `https://example.com/cv/${contact_id}.pdf`,
+    location: LOCATIONS[seed % LOCATIONS.length],
+    years_of_experience: parseInt(experience, 10) || undefined,
+    // Spread over the last year or so, for the upload date filter
+    uploaded_at: new Date(Date.now() - ((seed * 37) % 400) * DAY_MS).toISOString(),
+  };
+};
+
+export const seedCandidates: MockCandidate[] = [
+  candidate('90010001', 'Sarah Johnson', 'Senior Frontend Developer', ['React', 'TypeScript', 'JavaScript', 'Tailwind CSS', 'GraphQL'], '8 years', 'Frontend engineer building design systems and data-heavy dashboards for SaaS products in Berlin.'),
+  candidate('90010002', 'Michael Chen', 'UX Designer', ['Figma', 'User Research', 'Prototyping', 'HTML', 'CSS'], '5 years', 'Product designer focused on B2B workflows, usability testing and accessible interfaces.'),
+  candidate('90010003', 'Emily Rodriguez', 'Marketing Manager', ['SEO', 'HubSpot', 'Content Strategy', 'Google Analytics'], '7 years', 'Marketing lead who ran inbound campaigns and marketing automation in HubSpot.'),
+  candidate('90010004', 'David Kim', 'Data Scientist', ['Python', 'Pandas', 'scikit-learn', 'SQL', 'TensorFlow'], '4 years', 'Data scientist working on churn prediction, forecasting and experimentation platforms.'),
+  candidate('90010005', 'Anna Müller', 'Senior Java Developer', ['Java', 'Spring Boot', 'Kubernetes', 'PostgreSQL', 'Kafka'], '10 years', 'Backend engineer in Berlin designing event-driven microservices for fintech payments.'),
+  candidate('90010006', 'James Wilson', 'DevOps Engineer', ['Kubernetes', 'Terraform', 'AWS', 'Docker', 'Python'], '6 years', 'Platform engineer automating cloud infrastructure and CI/CD pipelines.'),
+  candidate('90010007', 'Priya Sharma', 'Full Stack Developer', ['React', 'Node.js', 'TypeScript', 'MongoDB', 'AWS'], '3 years', 'Full stack developer shipping customer-facing features end to end.'),
+  candidate('90010008', 'Lukas Schneider', 'Junior Python Developer', ['Python', 'Django', 'REST APIs', 'Git'], '1 year', 'Junior developer building internal tools and REST APIs with Django.'),
+  candidate('90010009', 'Sofia Rossi', 'Product Manager', ['Roadmapping', 'Scrum', 'Jira', 'Stakeholder Management'], '9 years', 'Product manager for recruiting software, owning discovery and delivery.'),
+  candidate('90010010', 'Tom Becker', 'Data Engineer', ['Python', 'Spark', 'Airflow', 'SQL', 'AWS'], '5 years', 'Data engineer building batch and streaming pipelines on a cloud data lake in Munich.'),
+  candidate('90010011', 'Laura García', 'Vue.js Developer', ['Vue', 'JavaScript', 'Nuxt', 'CSS', 'Jest'], '4 years', 'Frontend developer creating e-commerce storefronts with Vue and Nuxt.'),
+  candidate('90010012', 'Ahmed Hassan', 'Senior Java Developer', ['Java', 'Spring', 'Microservices', 'Docker', 'Angular'], '12 years', 'Engineering lead in Hamburg modernising a monolith into Java microservices.'),
+];
+
+// Demo accounts for offline mode
+export const mockUsers: Array<{ username: string; password: string; roles: Role[] }> = [
+  { username: 'Timo', password: 'Timo@123', roles: ['admin'] },
+  { username: 'Raphael', password: 'Raphael@123', roles: ['recruiter'] },
+  { username: 'Viewer', password: 'Viewer@123', roles: ['viewer'] },
+];
+
+export const seedLists: HubSpotList[] = [
+  { listId: '101', name: 'Frontend Talent Pool' },
+  { listId: '102', name: 'Berlin Backend Engineers' },
+  { listId: '103', name: 'Job Fair 2024' },
+];
+
+const FIRST_NAMES = ['Julia', 'Max', 'Elena', 'Noah', 'Mia', 'Felix', 'Clara', 'Leon'];
+const LAST_NAMES = ['Weber', 'Fischer', 'Novak', 'Bauer', 'Keller', 'Wagner', 'Costa', 'Meyer'];
+const TITLES: Array<[string, string[]]> = [
+  ['Frontend Developer', ['React', 'TypeScript', 'CSS', 'Jest']],
+  ['Backend Developer', ['Java', 'Spring Boot', 'PostgreSQL', 'Docker']],
+  ['Data Analyst', ['SQL', 'Python', 'Tableau', 'Excel']],
+  ['QA Engineer', ['Cypress', 'Selenium', 'JavaScript', 'Test Automation']],
+];
+
+const pick = <T,>(items: T[], seed: number) => items[seed % items.length];
+
+/**
+ * Builds a believable candidate for an uploaded file. Names like
+ * "Jane Doe - Backend Developer.pdf" are used as-is, anything else is
+ * derived from a hash of the file name so re-uploads are stable.
+ */
+export const candidateFromFile = (file: File, contactId: string): MockCandidate => {
+  const base = file.name.replace(/\.[^.]+$/, '');
+  const seed = Array.from(base).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+  const [namePart, titlePart] = base.split(/\s+-\s+/);
+  const [defaultTitle, skills] = pick(TITLES, seed);
+
+  const looksLikeName = /^[A-Za-zÀ-ÿ]+(\s+[A-Za-zÀ-ÿ]+)+$/.test(namePart ?? '');
+  const name = looksLikeName ? namePart : `${pick(FIRST_NAMES, seed)} ${pick(LAST_NAMES, seed >> 3)}`;
+  const title = titlePart?.trim() || defaultTitle;
+
+  return {
+    ...candidate(contactId, name, title, skills, `${(seed % 12) + 1} years`, `${title} uploaded from ${file.name}.`),
+    cv_url_link: `https://example.com/cv/${contactId}.pdf`,
+    uploaded_at: new Date().toISOString(),
+  };
+};
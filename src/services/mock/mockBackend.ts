@@ -0,0 +1,406 @@
+import { config } from '../../config';
+import type {
+  AddContactsRequest,
+  CandidateMatch,
+  CreateHubSpotListRequest,
+  DuplicateField,
+  DuplicateMatchRequest,
+  HubSpotList,
+  LoginRequest,
+  ParsedResume,
+  RefreshRequest,
+  ResolveDuplicateRequest,
+  ResumeUpdateRequest,
+  SearchMode,
+  SearchResult,
+  SourceSpan,
+} from '../../types/api';
+import { abortedError, ApiError } from '../errors';
+import { evaluateQuery, matchingTerms, parseQuery, type QueryNode } from '../../utils/searchQuery';
+import { vocabularyWords } from '../../utils/fuzzyMatch';
+import { splitSkills } from '../../utils/resumeValidation';
+import { candidateFromFile, mockUsers, seedCandidates, seedLists, type MockCandidate } from './dataset';
+
+// In-memory stand-in for the FastAPI backend, enabled with VITE_MOCK_BACKEND.
+// It plugs in below `request()` / `parseResume()` in the API client, so the
+// components go through exactly the same code path as against the network.
+
+type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+interface MockRequest {
+  method: Method;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+type Handler = (req: MockRequest) => unknown;
+
+const db = {
+  candidates: [...seedCandidates],
+  lists: [...seedLists],
+  listMembers: new Map<string, Set<string>>(),
+  nextId: 90020000,
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortedError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const notFound = (detail: string) => new ApiError('http', detail, { status: 404, detail: { detail } });
+const badRequest = (detail: string) => new ApiError('http', detail, { status: 400, detail: { detail } });
+const unauthorized = (detail: string) => new ApiError('http', detail, { status: 401, detail: { detail } });
+
+const ACCESS_TOKEN_TTL_S = 15 * 60;
+const REFRESH_TOKEN_TTL_S = 7 * 24 * 60 * 60;
+
+interface TokenClaims {
+  sub: string;
+  typ: 'access' | 'refresh';
+  exp: number;
+}
+
+const toBase64Url = (value: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  new TextDecoder().decode(
+    Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0))
+  );
+
+// Unsigned JWT look-alikes: enough for the client to read `exp` and `sub`
+const issueToken = (username: string, typ: TokenClaims['typ'], ttlSeconds: number) => {
+  const claims: TokenClaims = { sub: username, typ, exp: Math.floor(Date.now() / 1000) + ttlSeconds };
+  return [toBase64Url(JSON.stringify({ alg: 'none', typ: 'JWT' })), toBase64Url(JSON.stringify(claims)), 'mock'].join('.');
+};
+
+const readToken = (token: string | undefined, typ: TokenClaims['typ']): TokenClaims | null => {
+  try {
+    const payload = token?.split('.')[1];
+    if (!payload) return null;
+    const claims = JSON.parse(fromBase64Url(payload)) as TokenClaims;
+    return claims.typ === typ && claims.exp * 1000 > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+const issueTokens = (username: string) => ({
+  access_token: issueToken(username, 'access', ACCESS_TOKEN_TTL_S),
+  refresh_token: issueToken(username, 'refresh', REFRESH_TOKEN_TTL_S),
+  token_type: 'bearer',
+  user: { username, roles: mockUsers.find((u) => u.username === username)?.roles ?? [] },
+});
+
+const requireToken = (token: string | undefined) => {
+  if (!readToken(token, 'access')) throw unauthorized('Not authenticated');
+};
+
+const matchKeywords = (candidate: MockCandidate, keywords: string[]) => {
+  const haystack = [candidate.name, candidate.job_title, candidate.skills, candidate.full_text]
+    .join('\n')
+    .toLowerCase();
+  return keywords.filter((keyword) => haystack.includes(keyword.toLowerCase()));
+};
+
+const toSearchResult = (candidate: MockCandidate, matched: string[]): SearchResult => {
+  const { contact_id, name, email, job_title, full_text, skills, cv_url_link, location, years_of_experience, uploaded_at } =
+    candidate;
+  return {
+    contact_id,
+    name,
+    email,
+    job_title,
+    full_text,
+    skills,
+    cv_url_link,
+    location,
+    years_of_experience,
+    uploaded_at,
+    matched_keywords: matched,
+  };
+};
+
+const search = (keywords: string[], mode: SearchMode): SearchResult[] =>
+  db.candidates.flatMap((candidate) => {
+    const matched = matchKeywords(candidate, keywords);
+    const isMatch = mode === 'and' ? matched.length === keywords.length : matched.length > 0;
+    return isMatch ? [toSearchResult(candidate, matched)] : [];
+  });
+
+const searchByQuery = (query: QueryNode): SearchResult[] =>
+  db.candidates.flatMap((candidate) => {
+    const text = {
+      all: [candidate.name, candidate.job_title, candidate.skills, candidate.full_text].join('\n'),
+      title: candidate.job_title,
+      skills: candidate.skills,
+    };
+    return evaluateQuery(query, text) ? [toSearchResult(candidate, matchingTerms(query, text))] : [];
+  });
+
+// Every skill, plus every word of the titles and CV texts
+const vocabulary = (): string[] => {
+  const terms = new Map<string, string>();
+  db.candidates.forEach((candidate) => {
+    [...splitSkills(candidate.skills), ...vocabularyWords(`${candidate.job_title}\n${candidate.full_text}`)].forEach((term) => {
+      if (!terms.has(term.toLowerCase())) terms.set(term.toLowerCase(), term);
+    });
+  });
+  return Array.from(terms.values());
+};
+
+// Cursors are plain offsets; without `limit` everything is one page
+const paginate = (results: SearchResult[], query: URLSearchParams) => {
+  const limit = Number(query.get('limit'));
+  if (!limit) return { results, total: results.length };
+  const offset = Number(query.get('cursor')) || 0;
+  const next = offset + limit;
+  return {
+    results: results.slice(offset, next),
+    total: results.length,
+    next_cursor: next < results.length ? String(next) : undefined,
+  };
+};
+
+// Where each value appears in the candidate's text, like the parser reports it
+const findSpans = (text: string, values: Array<[field: string, value: string]>): SourceSpan[] =>
+  values.flatMap(([field, value]) => {
+    const start = value ? text.indexOf(value) : -1;
+    return start === -1 ? [] : [{ field, start, end: start + value.length, page: 1 }];
+  });
+
+const toParsedResume = (candidate: MockCandidate): ParsedResume => {
+  const skills = candidate.skills.split(',').map((skill) => skill.trim()).filter(Boolean);
+  return {
+    contact_id: candidate.contact_id,
+    name: candidate.name,
+    email: candidate.email,
+    phone: candidate.phone,
+    job_title: candidate.job_title,
+    summary: candidate.summary,
+    years_of_experience: parseInt(candidate.experience, 10) || undefined,
+    skills,
+    experience: [{ title: candidate.job_title, company: candidate.company, description: candidate.summary }],
+    education: candidate.education,
+    languages: candidate.languages,
+    links: [
+      { type: 'linkedin', url: `https://www.linkedin.com/in/${candidate.email.split('@')[0].replace(/\./g, '-')}` },
+      ...(candidate.cv_url_link ? [{ type: 'other' as const, url: candidate.cv_url_link }] : []),
+    ],
+    review_status: candidate.review_status ?? 'pending',
+    source_text: candidate.full_text,
+    source_spans: findSpans(candidate.full_text, [
+      ['name', candidate.name],
+      ['job_title', candidate.job_title],
+      ['summary', candidate.summary],
+      ['years_of_experience', candidate.experience],
+      ...skills.map((skill, index): [string, string] => [`skills.${index}`, skill]),
+    ]),
+  };
+};
+
+const findCandidate = (contactId: string) => {
+  const candidate = db.candidates.find((c) => c.contact_id === contactId);
+  if (!candidate) throw notFound(`Candidate ${contactId} not found`);
+  return candidate;
+};
+
+const normalizers: Record<DuplicateField, (value: string) => string> = {
+  email: (value) => value.trim().toLowerCase(),
+  phone: (value) => value.replace(/\D/g, '').replace(/^0+/, ''),
+  name: (value) => value.trim().toLowerCase().replace(/\s+/g, ' '),
+};
+
+const findMatches = (request: DuplicateMatchRequest): CandidateMatch[] =>
+  db.candidates.flatMap((candidate) => {
+    if (candidate.contact_id === request.exclude_contact_id) return [];
+    const matchedOn = (Object.keys(normalizers) as DuplicateField[]).filter((field) => {
+      const wanted = normalizers[field](request[field] ?? '');
+      return wanted !== '' && normalizers[field](candidate[field]) === wanted;
+    });
+    if (matchedOn.length === 0) return [];
+
+    const { contact_id, name, email, phone, job_title } = candidate;
+    return [{ contact_id, name, email, phone, job_title, matched_on: matchedOn }];
+  });
+
+const mergeInto = (target: MockCandidate, source: MockCandidate) => {
+  (['name', 'email', 'phone', 'job_title', 'summary', 'company'] as const).forEach((field) => {
+    if (!target[field]) target[field] = source[field];
+  });
+  const skills = new Set([...target.skills.split(', '), ...source.skills.split(', ')].filter(Boolean));
+  target.skills = Array.from(skills).join(', ');
+  target.full_text = [target.full_text, source.full_text].join('\n');
+  target.languages = [
+    ...target.languages,
+    ...source.languages.filter((entry) => !target.languages.some((known) => known.language === entry.language)),
+  ];
+};
+
+const routes: Array<[Method, string, Handler]> = [
+  ['POST', '/auth/login', ({ body }) => {
+    const { username, password } = (body as LoginRequest | undefined) ?? { username: '', password: '' };
+    const user = mockUsers.find((u) => u.username === username && u.password === password);
+    if (!user) throw unauthorized('Invalid username or password');
+    return issueTokens(user.username);
+  }],
+
+  ['POST', '/auth/refresh', ({ body }) => {
+    const claims = readToken((body as RefreshRequest | undefined)?.refresh_token, 'refresh');
+    if (!claims) throw unauthorized('Refresh token expired');
+    return issueTokens(claims.sub);
+  }],
+
+  ['GET', '/search/', ({ query }) => {
+    const keywords = query.getAll('keywords').filter(Boolean);
+    const mode: SearchMode = query.get('mode') === 'and' ? 'and' : 'or';
+    const booleanQuery = query.get('q');
+    if (booleanQuery) {
+      const parsed = parseQuery(booleanQuery);
+      if (!parsed.ok) throw badRequest(`Invalid query: ${parsed.error.message}`);
+      return { keywords, mode, query: booleanQuery, ...paginate(searchByQuery(parsed.query), query) };
+    }
+    return { keywords, mode, ...paginate(search(keywords, mode), query) };
+  }],
+
+  ['GET', '/search/vocabulary/', () => ({ terms: vocabulary() })],
+
+  ['PUT', '/resumes/:contactId', ({ params, body }) => {
+    const candidate = findCandidate(params.contactId);
+    const update = body as ResumeUpdateRequest | undefined;
+    if (!update?.name?.trim()) throw badRequest('Name is required');
+    const { name, email, phone, job_title } = update;
+    Object.assign(candidate, { name, email, phone, job_title, skills: update.skills.join(', ') });
+    return toParsedResume(candidate);
+  }],
+
+  ['POST', '/resumes/:contactId/approve', ({ params }) => {
+    const candidate = findCandidate(params.contactId);
+    candidate.review_status = 'approved';
+    return toParsedResume(candidate);
+  }],
+
+  ['POST', '/candidates/match', ({ body }) => ({
+    matches: findMatches((body as DuplicateMatchRequest | undefined) ?? { name: '', email: '', phone: '' }),
+  })],
+
+  ['POST', '/resumes/:contactId/resolve_duplicate', ({ params, body }) => {
+    const source = findCandidate(params.contactId);
+    const { target_contact_id, action } = (body ?? {}) as Partial<ResolveDuplicateRequest>;
+    if (!target_contact_id || target_contact_id === source.contact_id) throw badRequest('A different target candidate is required');
+    const target = findCandidate(target_contact_id);
+
+    if (action === 'merge') {
+      mergeInto(target, source);
+    } else if (action === 'replace') {
+      Object.assign(target, { ...source, contact_id: target.contact_id, review_status: undefined });
+    } else if (action !== 'skip') {
+      throw badRequest(`Unknown action "${action}"`);
+    }
+    db.candidates = db.candidates.filter((candidate) => candidate !== source);
+    return toParsedResume(target);
+  }],
+
+  ['POST', '/hubspot/lists/search', ({ body }) => {
+    const limit = (body as { limit?: number } | undefined)?.limit ?? 100;
+    return { lists: db.lists.slice(0, limit) };
+  }],
+
+  ['POST', '/hubspot/lists/create', ({ body }) => {
+    const name = (body as CreateHubSpotListRequest | undefined)?.name?.trim();
+    if (!name) throw badRequest('List name is required');
+    if (db.lists.some((list) => list.name.toLowerCase() === name.toLowerCase())) {
+      throw badRequest(`A list named "${name}" already exists`);
+    }
+
+    const list: HubSpotList = { listId: String(200 + db.lists.length), name };
+    db.lists.push(list);
+    return list;
+  }],
+
+  ['POST', '/hubspot/lists/:listId/add_contacts', ({ params, body }) => {
+    if (!db.lists.some((list) => list.listId === params.listId)) {
+      throw notFound(`List ${params.listId} not found`);
+    }
+    const contactIds = (body as AddContactsRequest | undefined)?.contact_ids ?? [];
+    const members = db.listMembers.get(params.listId) ?? new Set<string>();
+    contactIds.forEach((id) => members.add(id));
+    db.listMembers.set(params.listId, members);
+    return { listId: params.listId, added: contactIds.length };
+  }],
+];
+
+const matchRoute = (pattern: string, path: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/');
+  const pathParts = path.split('/');
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+export const mockRequest = async (
+  method: Method,
+  path: string,
+  options: { query?: URLSearchParams; body?: unknown; signal?: AbortSignal; token?: string } = {}
+): Promise<unknown> => {
+  await delay(config.mockLatencyMs, options.signal);
+  if (!path.startsWith('/auth/')) requireToken(options.token);
+
+  for (const [routeMethod, pattern, handler] of routes) {
+    const params = routeMethod === method ? matchRoute(pattern, path) : null;
+    if (params) {
+      // Round-trip through JSON so callers never share objects with the "database"
+      return JSON.parse(JSON.stringify(handler({
+        method,
+        params,
+        query: options.query ?? new URLSearchParams(),
+        body: options.body,
+      }) ?? null));
+    }
+  }
+  throw notFound(`Mock backend has no route for ${method} ${path}`);
+};
+
+/**
+ * Simulates a multipart upload with progress events, then adds the "parsed"
+ * candidate to the dataset so it shows up in later searches.
+ */
+export const mockParseResume = async (
+  file: File,
+  options: { onProgress?: (percent: number) => void; signal?: AbortSignal; token?: string } = {}
+): Promise<ParsedResume> => {
+  requireToken(options.token);
+  const steps = 5;
+  for (let step = 1; step <= steps; step++) {
+    await delay(config.mockLatencyMs / steps, options.signal);
+    options.onProgress?.((step / steps) * 100);
+  }
+
+  const candidate = candidateFromFile(file, String(db.nextId++));
+  db.candidates.push(candidate);
+  return toParsedResume(candidate);
+};
@@ -0,0 +1,35 @@
+import type { AuthUser, Role } from '../types/api';
+
+export type Permission =
+  | 'resumes:upload'
+  | 'candidates:search'
+  | 'hubspot:add_contacts'
+  | 'hubspot:create_lists'
+  | 'settings:manage';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  recruiter: 'Recruiter',
+  viewer: 'Viewer',
+};
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ['resumes:upload', 'candidates:search', 'hubspot:add_contacts', 'hubspot:create_lists', 'settings:manage'],
+  recruiter: ['resumes:upload', 'candidates:search', 'hubspot:add_contacts', 'hubspot:create_lists'],
+  viewer: ['candidates:search'],
+};
+
+// Users from a backend that doesn't send roles keep the access they had
+// before roles existed.
+const DEFAULT_ROLES: Role[] = ['recruiter'];
+
+// Roles this client doesn't know (e.g. "guest") grant nothing, so a user with
+// only those gets no permissions rather than the default ones.
+export const rolesOf = (user: AuthUser | null): Role[] => {
+  if (!user) return [];
+  if (!user.roles) return DEFAULT_ROLES;
+  return user.roles.filter((role): role is Role => role in ROLE_PERMISSIONS);
+};
+
+export const hasPermission = (user: AuthUser | null, permission: Permission) =>
+  rolesOf(user).some((role) => ROLE_PERMISSIONS[role].includes(permission));
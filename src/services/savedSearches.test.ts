@@ -0,0 +1,108 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  claimDueSearches,
+  createSavedSearch,
+  deleteSavedSearch,
+  loadSavedSearches,
+  markSeen,
+  recordRun,
+  savedSearchPath,
+  setRerunSchedule,
+  subscribeSavedSearches,
+  updateSavedSearchParams,
+} from './savedSearches';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.useFakeTimers();
+  vi.setSystemTime(Date.parse('2024-06-01T08:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('saved searches', () => {
+  it('are kept per owner, skipping malformed entries', () => {
+    createSavedSearch('ada', 'Java in Berlin', 'q=Java&location=Berlin', ['1', '2']);
+    localStorage.setItem('savedSearches:bob', JSON.stringify([{ id: 'x' }, 'junk']));
+    expect(loadSavedSearches('ada')).toMatchObject([{ name: 'Java in Berlin', seenIds: ['1', '2'], newIds: [] }]);
+    expect(loadSavedSearches('bob')).toEqual([]);
+    localStorage.setItem('savedSearches:cy', '{not json');
+    expect(loadSavedSearches('cy')).toEqual([]);
+  });
+
+  it('are updated and deleted by id', () => {
+    const search = createSavedSearch('ada', 'Java', 'q=Java', []);
+    updateSavedSearchParams('ada', search.id, 'q=Java&mode=and');
+    expect(loadSavedSearches('ada')[0].params).toBe('q=Java&mode=and');
+    deleteSavedSearch('ada', search.id);
+    expect(loadSavedSearches('ada')).toEqual([]);
+  });
+
+  it('link to the search page with their parameters', () => {
+    const search = createSavedSearch('ada', 'Java', 'q=Java&mode=and', []);
+    expect(savedSearchPath(search)).toBe(`/search?q=Java&mode=and&saved=${search.id}`);
+  });
+
+  it('notify subscribers of changes', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeSavedSearches(listener);
+    createSavedSearch('ada', 'Java', 'q=Java', []);
+    unsubscribe();
+    createSavedSearch('ada', 'Vue', 'q=Vue', []);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('recordRun', () => {
+  it('returns the candidates found for the first time', () => {
+    const search = createSavedSearch('ada', 'Java', 'q=Java', ['1']);
+    expect(recordRun('ada', search.id, ['1', '2'], false)).toEqual(['2']);
+    expect(recordRun('ada', search.id, ['1', '2'], false)).toEqual([]);
+    expect(recordRun('ada', 'missing', ['3'], false)).toEqual([]);
+  });
+
+  it('collects new candidates from scheduled runs until the user runs the search', () => {
+    const search = createSavedSearch('ada', 'Java', 'q=Java', ['1']);
+    recordRun('ada', search.id, ['1', '2'], true);
+    recordRun('ada', search.id, ['1', '2', '3'], true);
+    expect(loadSavedSearches('ada')[0].newIds).toEqual(['2', '3']);
+    recordRun('ada', search.id, ['1', '2', '3'], false);
+    expect(loadSavedSearches('ada')[0].newIds).toEqual([]);
+  });
+
+  it('counts candidates from later pages as seen', () => {
+    const search = createSavedSearch('ada', 'Java', 'q=Java', ['1']);
+    markSeen('ada', search.id, ['2']);
+    expect(recordRun('ada', search.id, ['1', '2', '3'], true)).toEqual(['3']);
+  });
+});
+
+describe('claimDueSearches', () => {
+  it('returns scheduled searches that are due and moves their next run on', () => {
+    const daily = createSavedSearch('ada', 'Daily', 'q=a', []);
+    const weekly = createSavedSearch('ada', 'Weekly', 'q=b', []);
+    createSavedSearch('ada', 'Manual', 'q=c', []);
+    setRerunSchedule('ada', daily.id, 'daily');
+    setRerunSchedule('ada', weekly.id, 'weekly');
+
+    const now = Date.now();
+    expect(claimDueSearches('ada', now + DAY_MS - 1)).toEqual([]);
+    expect(claimDueSearches('ada', now + DAY_MS).map((search) => search.name)).toEqual(['Daily']);
+    // Claimed: another tab checking at the same time gets nothing
+    expect(claimDueSearches('ada', now + DAY_MS)).toEqual([]);
+    expect(loadSavedSearches('ada')[0].nextRunAt).toBe(now + 2 * DAY_MS);
+    expect(claimDueSearches('ada', now + 7 * DAY_MS).map((search) => search.name)).toEqual(['Daily', 'Weekly']);
+  });
+
+  it('ignores searches whose schedule was turned off', () => {
+    const search = createSavedSearch('ada', 'Daily', 'q=a', []);
+    setRerunSchedule('ada', search.id, 'daily');
+    setRerunSchedule('ada', search.id, undefined);
+    expect(claimDueSearches('ada', Date.now() + 30 * DAY_MS)).toEqual([]);
+  });
+});
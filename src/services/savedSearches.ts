@@ -0,0 +1,170 @@
+// Named searches per user, in localStorage. A saved search keeps the search's
+// URL parameters (query, mode, filters and sort) and the candidates its runs
+// have found, so the next run can tell which ones are new.
+
+export type RerunSchedule = 'daily' | 'weekly';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RERUN_SCHEDULES: Array<{ id: RerunSchedule; label: string; intervalMs: number }> = [
+  { id: 'daily', label: 'Daily', intervalMs: DAY_MS },
+  { id: 'weekly', label: 'Weekly', intervalMs: 7 * DAY_MS },
+];
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  /** The search's URL parameters, e.g. "q=Java&mode=and&location=Berlin". */
+  params: string;
+  createdAt: number;
+  lastRunAt?: number;
+  /** Contact ids found by any run so far. */
+  seenIds: string[];
+  /** Found by scheduled runs since the user last ran the search themselves. */
+  newIds: string[];
+  schedule?: RerunSchedule;
+  nextRunAt?: number;
+}
+
+// The oldest ids are forgotten beyond this, which at worst shows a candidate as new again
+const MAX_SEEN_IDS = 5000;
+
+const STORAGE_PREFIX = 'savedSearches:';
+
+const storageKey = (owner: string) => `${STORAGE_PREFIX}${owner}`;
+
+const listeners = new Set<() => void>();
+
+const isSavedSearch = (value: unknown): value is SavedSearch => {
+  const search = value as SavedSearch | null;
+  return (
+    !!search &&
+    typeof search.id === 'string' &&
+    typeof search.name === 'string' &&
+    typeof search.params === 'string' &&
+    Array.isArray(search.seenIds) &&
+    Array.isArray(search.newIds)
+  );
+};
+
+export const loadSavedSearches = (owner: string): SavedSearch[] => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(storageKey(owner)) || '[]');
+    return Array.isArray(saved) ? saved.filter(isSavedSearch) : [];
+  } catch {
+    return [];
+  }
+};
+
+const write = (owner: string, searches: SavedSearch[]) => {
+  localStorage.setItem(storageKey(owner), JSON.stringify(searches));
+  listeners.forEach((listener) => listener());
+};
+
+const update = (owner: string, id: string, change: (search: SavedSearch) => SavedSearch) =>
+  write(owner, loadSavedSearches(owner).map((search) => (search.id === id ? change(search) : search)));
+
+const nextRunAfter = (schedule: RerunSchedule | undefined, time: number) => {
+  const option = RERUN_SCHEDULES.find((candidate) => candidate.id === schedule);
+  return option ? time + option.intervalMs : undefined;
+};
+
+const withSeen = (seenIds: string[], found: string[]) => {
+  const seen = new Set(seenIds);
+  return [...seenIds, ...found.filter((id) => !seen.has(id))].slice(-MAX_SEEN_IDS);
+};
+
+/** Saves a search; the candidates it shows now count as seen. */
+export const createSavedSearch = (owner: string, name: string, params: string, foundIds: string[]): SavedSearch => {
+  const now = Date.now();
+  const search: SavedSearch = {
+    id: `${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    params,
+    createdAt: now,
+    lastRunAt: now,
+    seenIds: withSeen([], foundIds),
+    newIds: [],
+  };
+  write(owner, [...loadSavedSearches(owner), search]);
+  return search;
+};
+
+/** Replaces the query, filters and sort of a saved search, keeping what it has found. */
+export const updateSavedSearchParams = (owner: string, id: string, params: string) =>
+  update(owner, id, (search) => ({ ...search, params }));
+
+export const deleteSavedSearch = (owner: string, id: string) =>
+  write(owner, loadSavedSearches(owner).filter((search) => search.id !== id));
+
+/** Turns scheduled re-runs on or off; the first one is an interval from now. */
+export const setRerunSchedule = (owner: string, id: string, schedule: RerunSchedule | undefined) =>
+  update(owner, id, (search) => ({ ...search, schedule, nextRunAt: nextRunAfter(schedule, Date.now()) }));
+
+/**
+ * Records a run and returns the candidates it found for the first time. A
+ * scheduled run adds them to `newIds` for the user to look at; a run by the
+ * user clears `newIds`, since they see the results.
+ */
+export const recordRun = (owner: string, id: string, foundIds: string[], scheduled: boolean): string[] => {
+  const search = loadSavedSearches(owner).find((candidate) => candidate.id === id);
+  if (!search) return [];
+
+  const seen = new Set(search.seenIds);
+  const fresh = foundIds.filter((contactId) => !seen.has(contactId));
+  const now = Date.now();
+  update(owner, id, (current) => ({
+    ...current,
+    lastRunAt: now,
+    seenIds: withSeen(current.seenIds, foundIds),
+    newIds: scheduled ? withSeen(current.newIds, fresh) : [],
+    nextRunAt: nextRunAfter(current.schedule, now),
+  }));
+  return fresh;
+};
+
+/** Adds candidates shown later in the same run, e.g. from the next page. */
+export const markSeen = (owner: string, id: string, foundIds: string[]) => {
+  const search = loadSavedSearches(owner).find((candidate) => candidate.id === id);
+  if (!search) return;
+  const seen = new Set(search.seenIds);
+  if (foundIds.every((contactId) => seen.has(contactId))) return;
+  update(owner, id, (current) => ({ ...current, seenIds: withSeen(current.seenIds, foundIds) }));
+};
+
+/**
+ * The scheduled searches due at `now`. Their next run is moved on right away,
+ * so another tab checking at the same time doesn't run them as well.
+ */
+export const claimDueSearches = (owner: string, now = Date.now()): SavedSearch[] => {
+  const searches = loadSavedSearches(owner);
+  const due = searches.filter((search) => search.schedule && search.nextRunAt !== undefined && search.nextRunAt <= now);
+  if (due.length > 0) {
+    const dueIds = new Set(due.map((search) => search.id));
+    write(
+      owner,
+      searches.map((search) => (dueIds.has(search.id) ? { ...search, nextRunAt: nextRunAfter(search.schedule, now) } : search))
+    );
+  }
+  return due;
+};
+
+/** Where the search page runs a saved search. */
+export const savedSearchPath = (search: SavedSearch) => {
+  const params = new URLSearchParams(search.params);
+  params.set('saved', search.id);
+  return `/search?${params}`;
+};
+
+/** Calls `listener` after any change to saved searches, in this tab or another. */
+export const subscribeSavedSearches = (listener: () => void) => {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key?.startsWith(STORAGE_PREFIX)) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
@@ -0,0 +1,116 @@
+import { ApiError } from './errors';
+
+// A small runtime schema checker for backend responses. A schema is a function
+// that returns the checked value or throws a SchemaError; `withFallback` turns
+// a failure into a default plus a warning, so one bad field doesn't throw away
+// an otherwise usable response.
+
+export interface Validated<T> {
+  data: T;
+  /** Problems that were worked around, e.g. "results[3].email: expected a string, got number". */
+  warnings: string[];
+}
+
+interface Context {
+  path: string;
+  warnings: string[];
+}
+
+export type Schema<T> = (value: unknown, ctx: Context) => T;
+
+class SchemaError extends Error {}
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : typeof value;
+};
+
+const fail = (ctx: Context, expected: string, value: unknown): never => {
+  const where = ctx.path || 'response';
+  throw new SchemaError(
+    value === undefined ? `${where} is missing` : `${where}: expected ${expected}, got ${describe(value)}`
+  );
+};
+
+const at = (ctx: Context, key: string | number): Context => ({
+  ...ctx,
+  path: typeof key === 'number' ? `${ctx.path}[${key}]` : ctx.path ? `${ctx.path}.${key}` : key,
+});
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const string = (): Schema<string> => (value, ctx) =>
+  typeof value === 'string' ? value : fail(ctx, 'a string', value);
+
+export const number = (): Schema<number> => (value, ctx) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(ctx, 'a number', value);
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => (value, ctx) =>
+  values.includes(value as T) ? (value as T) : fail(ctx, `one of ${values.join(', ')}`, value);
+
+/** `null` and missing values become `undefined`. */
+export const optional = <T,>(schema: Schema<T>): Schema<T | undefined> => (value, ctx) =>
+  value === undefined || value === null ? undefined : schema(value, ctx);
+
+/**
+ * An array of `item`. With `skipInvalid`, items that fail are dropped with a
+ * warning instead of failing the whole array.
+ */
+export const array = <T,>(item: Schema<T>, { skipInvalid = false } = {}): Schema<T[]> => (value, ctx) => {
+  if (!Array.isArray(value)) return fail(ctx, 'an array', value);
+  return value.flatMap((entry, index) => {
+    if (!skipInvalid) return [item(entry, at(ctx, index))];
+    try {
+      return [item(entry, at(ctx, index))];
+    } catch (err) {
+      if (!(err instanceof SchemaError)) throw err;
+      ctx.warnings.push(`${err.message} (skipped)`);
+      return [];
+    }
+  });
+};
+
+type Shape = Record<string, Schema<unknown>>;
+type Infer<S extends Shape> = { [K in keyof S]: S[K] extends Schema<infer T> ? T : never };
+
+/** An object with the given fields; unknown fields are dropped, `undefined` ones left out. */
+export const object = <S extends Shape>(shape: S): Schema<Infer<S>> => (value, ctx) => {
+  if (!isRecord(value)) return fail(ctx, 'an object', value);
+  const result: Record<string, unknown> = {};
+  Object.entries(shape).forEach(([key, schema]) => {
+    const field = schema(value[key], at(ctx, key));
+    if (field !== undefined) result[key] = field;
+  });
+  return result as Infer<S>;
+};
+
+/** Uses `fallback` (and records a warning) when `schema` rejects the value. */
+export const withFallback = <T,>(schema: Schema<T>, fallback: T): Schema<T> => (value, ctx) => {
+  try {
+    return schema(value, ctx);
+  } catch (err) {
+    if (!(err instanceof SchemaError)) throw err;
+    ctx.warnings.push(err.message);
+    return fallback;
+  }
+};
+
+/** Rewrites the raw value before `schema` sees it, e.g. to accept an older format. */
+export const preprocess = <T,>(transform: (value: unknown) => unknown, schema: Schema<T>): Schema<T> =>
+  (value, ctx) => schema(transform(value), ctx);
+
+/**
+ * Checks `value` against `schema`. Throws an ApiError of kind 'validation'
+ * when the response can't be used at all.
+ */
+export const validate = <T,>(schema: Schema<T>, value: unknown, what: string): Validated<T> => {
+  const ctx: Context = { path: '', warnings: [] };
+  try {
+    return { data: schema(value, ctx), warnings: ctx.warnings };
+  } catch (err) {
+    if (!(err instanceof SchemaError)) throw err;
+    throw new ApiError('validation', `The server sent an invalid ${what} (${err.message}).`, { detail: value });
+  }
+};
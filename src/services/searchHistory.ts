@@ -0,0 +1,157 @@
+import type { SearchResult } from '../types/api';
+import { formatQuery } from '../utils/searchQuery';
+import { splitSkills } from '../utils/resumeValidation';
+
+// Per-user search history in localStorage: the query clauses searched for,
+// and the skills and job titles seen in results. The search box suggests
+// both while typing.
+
+export interface SearchHistory {
+  /** Clauses searched for, most recently used first. */
+  terms: Array<{ clause: string; usedAt: number }>;
+  /** Skills and job titles from results, with how many results had them. */
+  skills: Array<{ value: string; count: number }>;
+  titles: Array<{ value: string; count: number }>;
+}
+
+export type SuggestionSource = 'history' | 'skill' | 'title';
+
+export interface TermSuggestion {
+  /** The clause added as a chip, e.g. `title:"data engineer"`. */
+  clause: string;
+  /** What the list shows, e.g. "Data Engineer". */
+  label: string;
+  source: SuggestionSource;
+}
+
+export const EMPTY_HISTORY: SearchHistory = { terms: [], skills: [], titles: [] };
+
+const MAX_TERMS = 100;
+// Rarely seen values are dropped first beyond this
+const MAX_VALUES = 500;
+
+const storageKey = (owner: string) => `searchHistory:${owner}`;
+
+export const loadSearchHistory = (owner: string): SearchHistory => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(owner)) || 'null') as Partial<SearchHistory> | null;
+    return {
+      terms: Array.isArray(saved?.terms) ? saved.terms.filter((term) => typeof term?.clause === 'string') : [],
+      skills: Array.isArray(saved?.skills) ? saved.skills.filter((skill) => typeof skill?.value === 'string') : [],
+      titles: Array.isArray(saved?.titles) ? saved.titles.filter((title) => typeof title?.value === 'string') : [],
+    };
+  } catch {
+    return EMPTY_HISTORY;
+  }
+};
+
+const save = (owner: string, history: SearchHistory) => {
+  try {
+    localStorage.setItem(storageKey(owner), JSON.stringify(history));
+  } catch (err) {
+    // History is a convenience; a full or disabled storage mustn't break searching
+    console.error('Failed to save search history:', err);
+  }
+  return history;
+};
+
+/** Moves the clauses of a search to the top of the history. */
+export const recordSearchTerms = (owner: string, clauses: string[]): SearchHistory => {
+  const history = loadSearchHistory(owner);
+  const now = Date.now();
+  const used = new Set(clauses.map((clause) => clause.toLowerCase()));
+  const terms = [
+    ...clauses.map((clause) => ({ clause, usedAt: now })),
+    ...history.terms.filter((term) => !used.has(term.clause.toLowerCase())),
+  ].slice(0, MAX_TERMS);
+  return save(owner, { ...history, terms });
+};
+
+const countValues = (known: SearchHistory['skills'], values: string[]) => {
+  const counts = new Map(known.map((entry) => [entry.value.toLowerCase(), entry]));
+  values.forEach((value) => {
+    const entry = counts.get(value.toLowerCase());
+    counts.set(value.toLowerCase(), { value: entry?.value ?? value, count: (entry?.count ?? 0) + 1 });
+  });
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_VALUES);
+};
+
+/** Adds the skills and job titles of newly loaded results to what's suggested. */
+export const recordResultValues = (owner: string, results: SearchResult[]): SearchHistory => {
+  const history = loadSearchHistory(owner);
+  if (results.length === 0) return history;
+  return save(owner, {
+    ...history,
+    skills: countValues(history.skills, results.flatMap((result) => splitSkills(result.skills || ''))),
+    titles: countValues(
+      history.titles,
+      results.map((result) => result.job_title?.trim()).filter((title): title is string => !!title)
+    ),
+  });
+};
+
+export const clearSearchHistory = (owner: string): SearchHistory => {
+  try {
+    localStorage.removeItem(storageKey(owner));
+  } catch {
+    // Nothing to clear
+  }
+  return EMPTY_HISTORY;
+};
+
+/**
+ * Suggestions for what's typed: past clauses first, then skills and job
+ * titles by how often they were seen, each with matches at the start of a
+ * word ahead of matches inside one. With nothing typed, the recent clauses.
+ */
+export const suggestTerms = (
+  history: SearchHistory,
+  input: string,
+  exclude: string[],
+  limit = 8
+): TermSuggestion[] => {
+  const typed = input.trim().toLowerCase();
+  const excluded = new Set(exclude.map((clause) => clause.toLowerCase()));
+  const candidates: TermSuggestion[] = [
+    ...history.terms.map((term) => ({ clause: term.clause, label: term.clause, source: 'history' as const })),
+    ...history.skills.map((skill) => ({
+      clause: formatQuery({ type: 'term', value: skill.value }),
+      label: skill.value,
+      source: 'skill' as const,
+    })),
+    ...history.titles.map((title) => ({
+      clause: formatQuery({ type: 'term', value: title.value, field: 'title' }),
+      label: title.value,
+      source: 'title' as const,
+    })),
+  ];
+
+  if (!typed) {
+    return candidates
+      .filter((candidate) => candidate.source === 'history' && !excluded.has(candidate.clause.toLowerCase()))
+      .slice(0, limit);
+  }
+
+  const rank = (label: string) => {
+    const text = label.toLowerCase();
+    const at = text.indexOf(typed);
+    if (at === -1) return -1;
+    return at === 0 || /[\s("/-]/.test(text[at - 1]) ? 0 : 1;
+  };
+
+  const seen = new Set<string>();
+  return candidates
+    .map((candidate) => ({ candidate, rank: rank(candidate.label) }))
+    .filter(({ candidate, rank }) => {
+      const key = candidate.clause.toLowerCase();
+      if (rank === -1 || excluded.has(key) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    // Array sort is stable, so the order above holds within a rank
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+};
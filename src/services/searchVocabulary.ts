@@ -0,0 +1,37 @@
+import { getSearchVocabulary } from './api';
+import { loadSearchHistory } from './searchHistory';
+import { vocabularyWords } from '../utils/fuzzyMatch';
+
+// The vocabulary typo-tolerant search and "Did you mean" compare terms with:
+// the backend's `/search/vocabulary/` list, plus the skills and job titles the
+// user has seen in results. Backends without the endpoint only get the latter.
+
+// New CVs add words, so the backend's list is fetched again after this
+const CACHE_MS = 10 * 60 * 1000;
+
+let cached: { at: number; terms: Promise<string[]> } | null = null;
+
+const indexedTerms = () => {
+  if (!cached || Date.now() - cached.at > CACHE_MS) {
+    const terms = getSearchVocabulary()
+      .then(({ terms }) => terms)
+      .catch((err) => {
+        // Not retried until the cache expires, so a backend without the endpoint isn't asked every search
+        console.warn('Search vocabulary unavailable, using the one from earlier results:', err);
+        return [];
+      });
+    cached = { at: Date.now(), terms };
+  }
+  return cached.terms;
+};
+
+export const loadSearchVocabulary = async (owner: string | undefined): Promise<string[]> => {
+  const terms = await indexedTerms();
+  if (!owner) return terms;
+  const history = loadSearchHistory(owner);
+  return [
+    ...terms,
+    ...history.skills.map((skill) => skill.value),
+    ...history.titles.flatMap((title) => vocabularyWords(title.value)),
+  ];
+};
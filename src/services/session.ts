@@ -0,0 +1,100 @@
+import { config } from '../config';
+import type { AuthUser, TokenResponse } from '../types/api';
+
+// Holds the signed-in user and their tokens. Persisted to localStorage under
+// the same "auth" key the app has always used, so the API client can read
+// the access token without going through React state, and other tabs see
+// sign-ins, refreshes and sign-outs through `storage` events.
+
+export interface Session {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken: string;
+  /** Epoch ms after which the session is no longer valid. */
+  expiresAt: number;
+}
+
+const STORAGE_KEY = 'auth';
+
+let current: Session | null = null;
+let unauthorizedHandler: (() => void) | null = null;
+
+const isSession = (value: unknown): value is Session => {
+  const session = value as Session | null;
+  return (
+    !!session &&
+    typeof session.accessToken === 'string' &&
+    typeof session.refreshToken === 'string' &&
+    typeof session.expiresAt === 'number' &&
+    typeof session.user?.username === 'string'
+  );
+};
+
+/** Reads `exp` from a JWT without verifying it. */
+const tokenExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const { exp } = JSON.parse(atob(payload)) as { exp?: unknown };
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Builds a session from a token response. It lives as long as the refresh token. */
+export const createSession = (user: AuthUser, tokens: TokenResponse): Session => ({
+  user,
+  accessToken: tokens.access_token,
+  refreshToken: tokens.refresh_token,
+  expiresAt: tokenExpiry(tokens.refresh_token) ?? Date.now() + config.session.maxAgeMs,
+});
+
+export const isExpired = (session: Session) => session.expiresAt <= Date.now();
+
+export const loadSession = (): Session | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    // Sessions saved before token auth only hold `{ user }`; treat them as signed out
+    current = isSession(saved) && !isExpired(saved) ? saved : null;
+  } catch {
+    current = null;
+  }
+  if (!current) localStorage.removeItem(STORAGE_KEY);
+  return current;
+};
+
+export const getSession = () => current;
+
+export const saveSession = (session: Session) => {
+  current = session;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+};
+
+export const clearSession = () => {
+  current = null;
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Calls `listener` whenever another tab signs in, refreshes tokens or signs
+ * out. `storage` events never fire in the tab that made the change.
+ */
+export const subscribeToOtherTabs = (listener: (session: Session | null) => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY || event.key === null) {
+      listener(loadSession());
+    }
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+};
+
+/** Registers the callback run when the backend rejects the session for good. */
+export const onUnauthorized = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+export const notifyUnauthorized = () => {
+  clearSession();
+  unauthorizedHandler?.();
+};
@@ -0,0 +1,56 @@
+import { DEFAULT_TAXONOMY, type TaxonomyEntry } from '../utils/skillTaxonomy';
+
+// The skill taxonomy used to expand search terms, in localStorage. It is a
+// preference of this browser, not synced anywhere: everyone signing in on it
+// shares it, and any of them can edit it. Until then, the built-in one applies.
+
+const STORAGE_KEY = 'skillTaxonomy';
+
+const listeners = new Set<() => void>();
+
+const isEntry = (value: unknown): value is TaxonomyEntry => {
+  const entry = value as TaxonomyEntry | null;
+  return (
+    !!entry &&
+    typeof entry.name === 'string' &&
+    Array.isArray(entry.synonyms) &&
+    entry.synonyms.every((synonym) => typeof synonym === 'string') &&
+    Array.isArray(entry.abbreviations) &&
+    entry.abbreviations.every((abbreviation) => typeof abbreviation === 'string') &&
+    Array.isArray(entry.children) &&
+    entry.children.every((child) => typeof child === 'string')
+  );
+};
+
+export const loadSkillTaxonomy = (): TaxonomyEntry[] => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return Array.isArray(saved) ? saved.filter(isEntry) : DEFAULT_TAXONOMY;
+  } catch {
+    return DEFAULT_TAXONOMY;
+  }
+};
+
+export const saveSkillTaxonomy = (taxonomy: TaxonomyEntry[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(taxonomy));
+  listeners.forEach((listener) => listener());
+};
+
+/** Goes back to the built-in taxonomy. */
+export const resetSkillTaxonomy = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  listeners.forEach((listener) => listener());
+};
+
+/** Calls `listener` after every change, including ones made in other tabs. */
+export const subscribeSkillTaxonomy = (listener: () => void) => {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
@@ -0,0 +1,134 @@
+import type { CandidateMatch, ParsedResume } from '../types/api';
+import { parsedResumeSchema } from './apiSchemas';
+import { validate } from './schema';
+import type { UploadItem, UploadQueue, UploadStatus } from './uploadQueue';
+
+// Upload history in IndexedDB, one record per file and per user. The file
+// itself is stored too (IndexedDB can hold Blobs), so an upload interrupted by
+// a reload can be resumed and parsed files can be previewed later.
+
+const DB_NAME = 'cv-parser';
+const DB_VERSION = 1;
+const STORE = 'uploads';
+
+export interface UploadRecord {
+  id: string;
+  owner: string;
+  file: File;
+  contentHash?: string;
+  status: UploadStatus;
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+  parsedData?: ParsedResume;
+  warnings?: string[];
+  duplicates?: CandidateMatch[];
+  errorMessage?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('owner', 'owner');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const withStore = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+export const loadUploads = async (owner: string): Promise<UploadRecord[]> => {
+  const records = await withStore('readonly', (store) => store.index('owner').getAll(owner));
+  return (records as UploadRecord[]).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveUpload = (record: UploadRecord) => withStore('readwrite', (store) => store.put(record));
+
+export const deleteUpload = (id: string) => withStore('readwrite', (store) => store.delete(id));
+
+const toRecord = (item: UploadItem, owner: string): UploadRecord => ({
+  id: item.id,
+  owner,
+  file: item.file,
+  contentHash: item.contentHash,
+  status: item.status,
+  attempts: item.attempts,
+  createdAt: item.createdAt,
+  updatedAt: item.updatedAt,
+  parsedData: item.parsedData,
+  warnings: item.warnings,
+  duplicates: item.duplicates,
+  errorMessage: item.errorMessage,
+});
+
+// Records saved by older versions of the app may hold an older resume shape
+const upgradeParsedData = (parsedData: unknown): ParsedResume | undefined => {
+  if (parsedData === undefined) return undefined;
+  try {
+    return validate(parsedResumeSchema, parsedData, 'saved resume').data;
+  } catch {
+    return undefined;
+  }
+};
+
+export const toUploadItem = (record: UploadRecord): UploadItem => ({
+  id: record.id,
+  file: record.file,
+  contentHash: record.contentHash,
+  status: record.status,
+  progress: record.status === 'success' ? 100 : 0,
+  attempts: record.attempts,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+  parsedData: upgradeParsedData(record.parsedData),
+  warnings: record.warnings,
+  duplicates: record.duplicates,
+  errorMessage: record.errorMessage,
+});
+
+/**
+ * Mirrors every change in `queue` into IndexedDB until the returned function
+ * is called. Progress ticks are skipped; only changes to anything else are
+ * written.
+ */
+export const persistQueue = (queue: UploadQueue, owner: string) => {
+  let previous = new Map(queue.getItems().map((item) => [item.id, item]));
+
+  const sync = () => {
+    const current = new Map(queue.getItems().map((item) => [item.id, item]));
+
+    current.forEach((item, id) => {
+      const before = previous.get(id);
+      if (before === item) return;
+      if (before && before.updatedAt === item.updatedAt) return; // progress only
+      saveUpload(toRecord(item, owner)).catch((err) => console.error('Failed to save upload history:', err));
+    });
+    previous.forEach((_, id) => {
+      if (!current.has(id)) {
+        deleteUpload(id).catch((err) => console.error('Failed to delete upload history:', err));
+      }
+    });
+
+    previous = current;
+  };
+
+  return queue.subscribe(sync);
+};
@@ -0,0 +1,341 @@
+import { config } from '../config';
+import type { CandidateMatch, ParsedResume } from '../types/api';
+import { ApiError, findDuplicateCandidates, getErrorMessage, parseResume, type ParseResumeOptions, type Validated } from './api';
+
+export type UploadStatus =
+  | 'queued'
+  | 'uploading'
+  | 'retrying'
+  | 'paused'
+  | 'success'
+  | 'error'
+  | 'cancelled';
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  /** SHA-256 of the file, used to spot re-uploads of the same file. */
+  contentHash?: string;
+  status: UploadStatus;
+  progress: number;
+  /** Upload attempts made so far, including the one in flight. */
+  attempts: number;
+  parsedData?: ParsedResume;
+  /** Fields the parser response got wrong and that were left blank. */
+  warnings?: string[];
+  /** Existing candidates that look like the same person, until the user decides. */
+  duplicates?: CandidateMatch[];
+  errorMessage?: string;
+  /** Epoch ms of the next automatic retry while `status` is 'retrying'. */
+  nextRetryAt?: number;
+  createdAt: number;
+  /** Bumped on every change except progress ticks. */
+  updatedAt: number;
+}
+
+export interface UploadSummary {
+  total: number;
+  counts: Record<UploadStatus, number>;
+  /** 0–100 across every file that hasn't been cancelled. */
+  progress: number;
+  /** Nothing is queued, uploading or waiting to retry. */
+  isIdle: boolean;
+}
+
+interface UploadQueueOptions {
+  upload: (file: File, options: ParseResumeOptions) => Promise<Validated<ParsedResume>>;
+  /** Looks for existing candidates matching a freshly parsed resume. */
+  findDuplicates?: (resume: ParsedResume) => Promise<CandidateMatch[]>;
+  concurrency: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+}
+
+const ACTIVE: UploadStatus[] = ['queued', 'uploading', 'retrying'];
+const FINISHED: UploadStatus[] = ['success', 'error', 'cancelled'];
+
+// Network failures, timeouts, rate limiting and server errors are worth
+// another try; 4xx responses and unreadable bodies are not.
+const isRetryable = (err: unknown) =>
+  err instanceof ApiError &&
+  (err.kind === 'network' ||
+    err.kind === 'timeout' ||
+    (err.kind === 'http' && err.status !== undefined && (err.status >= 500 || err.status === 429)));
+
+/**
+ * Uploads resumes a few at a time. Items can be paused, resumed, cancelled
+ * and retried individually or all at once; transient failures are retried
+ * automatically with exponential backoff.
+ *
+ * The item list is immutable and replaced on every change, so it can be
+ * read directly with `useSyncExternalStore`.
+ */
+export class UploadQueue {
+  private items: UploadItem[] = [];
+  private listeners = new Set<() => void>();
+  private controllers = new Map<string, AbortController>();
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly options: UploadQueueOptions;
+
+  constructor(options: UploadQueueOptions) {
+    this.options = options;
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getItems = () => this.items;
+
+  /** Queues `files`; `contentHashes`, if given, line up with `files` by index. */
+  add(files: File[], contentHashes: string[] = []) {
+    const now = Date.now();
+    const newItems: UploadItem[] = files.map((file, index) => ({
+      id: now + Math.random().toString(),
+      file,
+      contentHash: contentHashes[index],
+      status: 'queued',
+      progress: 0,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    }));
+    this.setItems([...this.items, ...newItems]);
+    this.pump();
+    return newItems;
+  }
+
+  /**
+   * Restores items from a previous visit in front of the current ones.
+   * Anything that was still in flight comes back paused, so nothing starts
+   * uploading again without the user asking.
+   */
+  hydrate(items: UploadItem[]) {
+    const known = new Set(this.items.map((item) => item.id));
+    const restored = items
+      .filter((item) => !known.has(item.id))
+      .map((item): UploadItem =>
+        ACTIVE.includes(item.status) ? { ...item, status: 'paused', progress: 0, nextRetryAt: undefined } : item
+      );
+    this.setItems([...restored, ...this.items]);
+  }
+
+  /** Stops every upload and empties the queue, e.g. when the user signs out. */
+  reset() {
+    this.items.forEach((item) => this.stop(item.id));
+    this.setItems([]);
+  }
+
+  pause(id: string) {
+    const item = this.find(id);
+    if (!item || !ACTIVE.includes(item.status)) return;
+    this.stop(id);
+    // An interrupted upload starts over from zero when resumed
+    this.update(id, { status: 'paused', progress: 0, nextRetryAt: undefined });
+    this.pump();
+  }
+
+  resume(id: string) {
+    if (this.find(id)?.status !== 'paused') return;
+    this.update(id, { status: 'queued' });
+    this.pump();
+  }
+
+  cancel(id: string) {
+    const item = this.find(id);
+    if (!item || !(ACTIVE.includes(item.status) || item.status === 'paused')) return;
+    this.stop(id);
+    this.update(id, { status: 'cancelled', nextRetryAt: undefined });
+    this.pump();
+  }
+
+  /** Puts a failed or cancelled file back in the queue with a fresh retry budget. */
+  retry(id: string) {
+    const item = this.find(id);
+    if (!item || (item.status !== 'error' && item.status !== 'cancelled')) return;
+    this.update(id, { status: 'queued', progress: 0, attempts: 0, errorMessage: undefined });
+    this.pump();
+  }
+
+  remove(id: string) {
+    this.stop(id);
+    this.setItems(this.items.filter((item) => item.id !== id));
+    this.pump();
+  }
+
+  pauseAll() {
+    this.items.filter((item) => ACTIVE.includes(item.status)).forEach((item) => this.pause(item.id));
+  }
+
+  resumeAll() {
+    this.items.filter((item) => item.status === 'paused').forEach((item) => this.resume(item.id));
+  }
+
+  cancelAll() {
+    this.items.forEach((item) => this.cancel(item.id));
+  }
+
+  retryFailed() {
+    this.items.filter((item) => item.status === 'error').forEach((item) => this.retry(item.id));
+  }
+
+  /** Replaces a parsed file's data after the user has reviewed it. */
+  setParsedData(id: string, parsedData: ParsedResume) {
+    if (this.find(id)?.status !== 'success') return;
+    this.update(id, { parsedData, warnings: undefined });
+  }
+
+  /** Closes the duplicate prompt, with the record that remains if it changed. */
+  resolveDuplicates(id: string, parsedData?: ParsedResume) {
+    const item = this.find(id);
+    if (!item?.duplicates) return;
+    this.update(id, { duplicates: undefined, parsedData: parsedData ?? item.parsedData });
+  }
+
+  /** Drops every finished file (parsed, failed or cancelled) from the list. */
+  clearHistory() {
+    this.setItems(this.items.filter((item) => !FINISHED.includes(item.status)));
+  }
+
+  private find(id: string) {
+    return this.items.find((item) => item.id === id);
+  }
+
+  private setItems(items: UploadItem[]) {
+    this.items = items;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private update(id: string, changes: Partial<UploadItem>) {
+    const isProgressOnly = Object.keys(changes).every((key) => key === 'progress');
+    this.setItems(this.items.map((item) => {
+      if (item.id !== id) return item;
+      // Strictly increasing, so two changes within one millisecond still differ
+      return isProgressOnly
+        ? { ...item, ...changes }
+        : { ...item, ...changes, updatedAt: Math.max(Date.now(), item.updatedAt + 1) };
+    }));
+  }
+
+  /** Aborts the upload in flight and any pending retry for `id`. */
+  private stop(id: string) {
+    this.controllers.get(id)?.abort();
+    this.controllers.delete(id);
+    clearTimeout(this.retryTimers.get(id));
+    this.retryTimers.delete(id);
+  }
+
+  private pump() {
+    while (this.controllers.size < this.options.concurrency) {
+      const next = this.items.find((item) => item.status === 'queued');
+      if (!next) return;
+      this.start(next);
+    }
+  }
+
+  private async start(item: UploadItem) {
+    const controller = new AbortController();
+    this.controllers.set(item.id, controller);
+    const attempts = item.attempts + 1;
+    this.update(item.id, { status: 'uploading', progress: 0, attempts, errorMessage: undefined, nextRetryAt: undefined });
+
+    try {
+      const { data: parsedData, warnings } = await this.options.upload(item.file, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (!controller.signal.aborted) this.update(item.id, { progress });
+        },
+      });
+      const duplicates = await this.checkDuplicates(parsedData);
+      if (!controller.signal.aborted) {
+        this.update(item.id, {
+          status: 'success',
+          progress: 100,
+          parsedData,
+          warnings: warnings.length > 0 ? warnings : undefined,
+          duplicates: duplicates.length > 0 ? duplicates : undefined,
+        });
+      }
+    } catch (err) {
+      // Paused, cancelled or removed: whoever aborted already set the status
+      if (controller.signal.aborted) return;
+
+      const errorMessage = getErrorMessage(err, 'Upload failed');
+      if (isRetryable(err) && attempts <= this.options.maxRetries) {
+        this.scheduleRetry(item.id, attempts, errorMessage);
+      } else {
+        this.update(item.id, { status: 'error', errorMessage });
+      }
+    } finally {
+      if (this.controllers.get(item.id) === controller) {
+        this.controllers.delete(item.id);
+      }
+      this.pump();
+    }
+  }
+
+  // A failed duplicate check shouldn't fail an upload that already succeeded
+  private async checkDuplicates(parsedData: ParsedResume) {
+    if (!this.options.findDuplicates) return [];
+    try {
+      return await this.options.findDuplicates(parsedData);
+    } catch (err) {
+      console.warn('Duplicate check failed:', err);
+      return [];
+    }
+  }
+
+  private scheduleRetry(id: string, attempts: number, errorMessage: string) {
+    // 1s, 2s, 4s, ... plus up to 50% jitter so a burst of failures spreads out
+    const base = this.options.retryBaseDelayMs * 2 ** (attempts - 1);
+    const delay = base + Math.random() * base * 0.5;
+
+    this.update(id, { status: 'retrying', errorMessage, nextRetryAt: Date.now() + delay });
+    this.retryTimers.set(id, setTimeout(() => {
+      this.retryTimers.delete(id);
+      if (this.find(id)?.status === 'retrying') {
+        this.update(id, { status: 'queued', nextRetryAt: undefined });
+        this.pump();
+      }
+    }, delay));
+  }
+}
+
+export const summarizeUploads = (items: UploadItem[]): UploadSummary => {
+  const counts: Record<UploadStatus, number> = {
+    queued: 0,
+    uploading: 0,
+    retrying: 0,
+    paused: 0,
+    success: 0,
+    error: 0,
+    cancelled: 0,
+  };
+  items.forEach((item) => counts[item.status]++);
+
+  const counted = items.filter((item) => item.status !== 'cancelled');
+  const progress = counted.length
+    ? counted.reduce((sum, item) => sum + (item.status === 'success' || item.status === 'error' ? 100 : item.progress), 0) / counted.length
+    : 0;
+
+  return {
+    total: items.length,
+    counts,
+    progress,
+    isIdle: counts.queued + counts.uploading + counts.retrying === 0,
+  };
+};
+
+// One queue for the whole app, so uploads keep going while the user is on
+// another page.
+export const uploadQueue = new UploadQueue({
+  upload: parseResume,
+  findDuplicates: ({ contact_id, name, email, phone }) =>
+    findDuplicateCandidates({ name, email, phone, exclude_contact_id: contact_id }),
+  concurrency: config.uploads.concurrency,
+  maxRetries: config.uploads.maxRetries,
+  retryBaseDelayMs: 1000,
+});
@@ -0,0 +1,204 @@
+// Request and response models for the CV parser backend.
+
+export type SearchMode = 'or' | 'and';
+
+export type ReviewStatus = 'pending' | 'approved';
+
+export interface ExperienceEntry {
+  title: string;
+  company: string;
+  location?: string;
+  /** As written on the CV, e.g. "2019-03" or "March 2019". */
+  start_date?: string;
+  /** Missing for the current position. */
+  end_date?: string;
+  description?: string;
+}
+
+export interface EducationEntry {
+  institution: string;
+  degree?: string;
+  field_of_study?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface LanguageSkill {
+  language: string;
+  /** Free text or CEFR level, e.g. "native", "C1". */
+  proficiency?: string;
+}
+
+export type ResumeLinkType = 'linkedin' | 'github' | 'portfolio' | 'other';
+
+export interface ResumeLink {
+  type: ResumeLinkType;
+  url: string;
+}
+
+/**
+ * Where the parser read a value: character offsets into
+ * `ParsedResume.source_text`. `field` is a path into the parsed record, e.g.
+ * "email", "skills.2" or "experience.0.company".
+ */
+export interface SourceSpan {
+  field: string;
+  start: number;
+  end: number;
+  /** Page of the original document, counted from 1, when known. */
+  page?: number;
+}
+
+export interface ParsedResume {
+  /** The record the backend stored the parse under; needed to save corrections. */
+  contact_id?: string;
+  name: string;
+  email: string;
+  phone: string;
+  job_title: string;
+  summary?: string;
+  years_of_experience?: number;
+  skills: string[];
+  experience: ExperienceEntry[];
+  education: EducationEntry[];
+  languages: LanguageSkill[];
+  links: ResumeLink[];
+  review_status?: ReviewStatus;
+  /** The CV's text as the parser extracted it. */
+  source_text?: string;
+  source_spans?: SourceSpan[];
+}
+
+/** The fields a reviewer can correct. */
+export type ResumeUpdateRequest = Pick<ParsedResume, 'name' | 'email' | 'phone' | 'job_title' | 'skills'>;
+
+export type DuplicateField = 'email' | 'phone' | 'name';
+
+/** An existing candidate that looks like the same person as a new upload. */
+export interface CandidateMatch {
+  contact_id: string;
+  name: string;
+  email: string;
+  phone: string;
+  job_title: string;
+  matched_on: DuplicateField[];
+}
+
+export interface DuplicateMatchRequest {
+  name: string;
+  email: string;
+  phone: string;
+  /** The new record itself, which would otherwise match. */
+  exclude_contact_id?: string;
+}
+
+export interface DuplicateMatchResponse {
+  matches: CandidateMatch[];
+}
+
+/**
+ * merge: fill the existing candidate's gaps from the new record.
+ * replace: overwrite the existing candidate with the new record.
+ * skip: keep the existing candidate as is.
+ * The new record is discarded in every case.
+ */
+export type DuplicateAction = 'merge' | 'replace' | 'skip';
+
+export interface ResolveDuplicateRequest {
+  target_contact_id: string;
+  action: DuplicateAction;
+}
+
+export interface SearchRequest {
+  keywords: string[];
+  mode: SearchMode;
+  /** Boolean query, e.g. `(React OR Vue) AND NOT junior`; see `utils/searchQuery`. */
+  query?: string;
+  /** Page size. Backends that don't page return all results at once. */
+  limit?: number;
+  /** `next_cursor` of the previous page. */
+  cursor?: string;
+}
+
+export interface SearchResult {
+  contact_id: string;
+  name: string;
+  email: string;
+  job_title: string;
+  full_text: string;
+  skills: string;
+  matched_keywords: string[];
+  cv_url_link?: string;
+  location?: string;
+  years_of_experience?: number;
+  /** When the CV was uploaded, as an ISO 8601 timestamp. */
+  uploaded_at?: string;
+}
+
+export interface SearchResponse {
+  keywords: string[];
+  mode: string;
+  /** Echoed by backends that evaluated `SearchRequest.query`; older ones only match `keywords`. */
+  query?: string;
+  results: SearchResult[];
+  /** Results on all pages, from backends that page. */
+  total?: number;
+  /** Where the next page starts; missing on the last page. */
+  next_cursor?: string;
+}
+
+/** Words and skills that occur in indexed CVs, for typo-tolerant search. */
+export interface SearchVocabularyResponse {
+  terms: string[];
+}
+
+export interface HubSpotList {
+  listId: string;
+  name: string;
+}
+
+export interface HubSpotListSearchRequest {
+  processingTypes: string[];
+  limit: number;
+}
+
+export interface HubSpotListSearchResponse {
+  lists: HubSpotList[];
+}
+
+export interface CreateHubSpotListRequest {
+  name: string;
+}
+
+export interface CreateHubSpotListResponse {
+  listId: string;
+  name?: string;
+}
+
+export interface AddContactsRequest {
+  contact_ids: string[];
+}
+
+export type Role = 'admin' | 'recruiter' | 'viewer';
+
+export interface AuthUser {
+  username: string;
+  /** Missing on sessions from backends that predate roles. */
+  roles?: Role[];
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface RefreshRequest {
+  refresh_token: string;
+}
+
+export interface TokenResponse {
+  access_token: string;
+  refresh_token: string;
+  token_type?: string;
+  user?: AuthUser;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { closeWords, correctQuery, editDistance, fuzzyExpandQuery, stem, vocabularyWords } from './fuzzyMatch';
+import { formatQuery, parseQuery, type QueryNode } from './searchQuery';
+
+const parse = (input: string): QueryNode => {
+  const result = parseQuery(input);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.query;
+};
+
+const VOCABULARY = ['Python', 'Java', 'JavaScript', 'Manager', 'Management', 'Berlin', 'SQL'];
+
+describe('vocabularyWords', () => {
+  it('keeps words like C++ and Node.js whole', () => {
+    expect(vocabularyWords('Node.js, C++ and C#. Done.')).toEqual(['Node.js', 'C++', 'and', 'C#', 'Done']);
+  });
+});
+
+describe('editDistance', () => {
+  it('counts insertions, deletions, substitutions and swaps', () => {
+    expect(editDistance('python', 'pyhton')).toBe(1);
+    expect(editDistance('java', 'jaav')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('same', 'same')).toBe(0);
+  });
+
+  it('stops counting past the maximum', () => {
+    expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+    expect(editDistance('a', 'abcdef', 2)).toBe(3);
+  });
+});
+
+describe('stem', () => {
+  it('drops common suffixes, keeping at least four letters', () => {
+    expect(stem('Managing')).toBe('manag');
+    expect(stem('manager')).toBe('manag');
+    expect(stem('things')).toBe('thing');
+    expect(stem('sing')).toBe('sing');
+  });
+});
+
+describe('closeWords', () => {
+  it('finds typos and words with the same stem, nearest first', () => {
+    expect(closeWords('Pyhton', VOCABULARY)).toEqual(['Python']);
+    expect(closeWords('managing', VOCABULARY)).toEqual(['Manager']);
+  });
+
+  it('allows no typos in short terms', () => {
+    expect(closeWords('SQK', VOCABULARY)).toEqual([]);
+  });
+});
+
+describe('fuzzyExpandQuery', () => {
+  it('adds close words in the same field and records what they stand for', () => {
+    const { query, synonymOf } = fuzzyExpandQuery(parse('title:Pyhton AND "Berlni office"'), VOCABULARY);
+    expect(formatQuery(query)).toBe('(title:Pyhton OR title:Python) AND "Berlni office"');
+    expect(synonymOf).toEqual(new Map([['python', 'Pyhton']]));
+  });
+
+  it('expands excluded terms without recording them', () => {
+    const { query, synonymOf } = fuzzyExpandQuery(parse('NOT Jaav'), VOCABULARY);
+    expect(formatQuery(query)).toBe('NOT (Jaav OR Java)');
+    expect(synonymOf.size).toBe(0);
+  });
+});
+
+describe('correctQuery', () => {
+  it('replaces unknown words with the nearest known one', () => {
+    expect(formatQuery(correctQuery(parse('Pyhton AND Berlin'), VOCABULARY)!)).toBe('Python AND Berlin');
+  });
+
+  it('returns null when every word is known or has no close one', () => {
+    expect(correctQuery(parse('Python OR Zzzzz'), VOCABULARY)).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { positiveTerms, type QueryNode } from './searchQuery';
+import type { ExpandedQuery } from './skillTaxonomy';
+
+// Typo-tolerant matching against the search vocabulary, the words and skills
+// that occur in indexed CVs. A term is close to a word when it is a few typos
+// away (more for longer words) or shares its stem, e.g. "Pyhton" and
+// "Python", or "managing" and "manager".
+
+// Close words added per term, nearest first
+const MAX_CLOSE_WORDS = 5;
+
+/** Words in `text` as the vocabulary lists them, e.g. "C++", "Node.js". */
+export const vocabularyWords = (text: string): string[] =>
+  (text.match(/[\p{L}\p{N}][\p{L}\p{N}+#.]*/gu) ?? []).map((word) => word.replace(/\.+$/, ''));
+
+/** Typos allowed in a term: none in short ones, where any change makes another word. */
+const allowedTypos = (term: string) => (term.length <= 3 ? 0 : term.length <= 7 ? 1 : 2);
+
+/**
+ * Edits (insertions, deletions, substitutions and swaps of neighbours) to
+ * turn `a` into `b`; anything over `max` is reported as `max + 1`.
+ */
+export const editDistance = (a: string, b: string, max = Infinity): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let before: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) value = Math.min(value, before[j - 2] + 1);
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    before = previous;
+    previous = current;
+  }
+  return Math.min(previous[b.length], max + 1);
+};
+
+const SUFFIXES = ['ments', 'ment', 'ings', 'ing', 'ers', 'er', 'ed', 'es', 's', 'ion', 'ions', 'ist', 'ists'];
+
+/** A rough English stem, enough to tell "developer" and "development" belong together. */
+export const stem = (word: string): string => {
+  const lower = word.toLowerCase();
+  const suffix = SUFFIXES.filter((candidate) => lower.endsWith(candidate) && lower.length - candidate.length >= 4)
+    .sort((a, b) => b.length - a.length)[0];
+  return suffix ? lower.slice(0, -suffix.length) : lower;
+};
+
+/** Vocabulary words close to `term` but not the same, nearest first. */
+export const closeWords = (term: string, vocabulary: string[]): string[] => {
+  const lower = term.toLowerCase();
+  const typos = allowedTypos(lower);
+  const termStem = stem(lower);
+  const seen = new Set<string>([lower]);
+  const close: Array<{ word: string; distance: number }> = [];
+  for (const word of vocabulary) {
+    const key = word.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const distance = editDistance(lower, key, typos);
+    if (distance <= typos) close.push({ word, distance });
+    // Same stem counts as one typo, so real typos come first
+    else if (termStem.length >= 4 && stem(key) === termStem) close.push({ word, distance: typos + 1 });
+  }
+  return close
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_CLOSE_WORDS)
+    .map(({ word }) => word);
+};
+
+/**
+ * The query with each term also looking for its close words, in the same
+ * field. Phrases are left alone: their words are only close together.
+ */
+export const fuzzyExpandQuery = (query: QueryNode, vocabulary: string[]): ExpandedQuery => {
+  const synonymOf = new Map<string, string>();
+  const searched = new Set(positiveTerms(query).map((term) => term.toLowerCase()));
+
+  const expand = (node: QueryNode, positive: boolean): QueryNode => {
+    switch (node.type) {
+      case 'term': {
+        if (/\s/.test(node.value.trim())) return node;
+        const words = closeWords(node.value, vocabulary);
+        if (words.length === 0) return node;
+        if (positive) {
+          words.forEach((word) => {
+            if (!searched.has(word.toLowerCase()) && !synonymOf.has(word.toLowerCase())) synonymOf.set(word.toLowerCase(), node.value);
+          });
+        }
+        return { type: 'or', children: [node, ...words.map((value) => ({ type: 'term' as const, value, field: node.field }))] };
+      }
+      case 'not':
+        return { type: 'not', child: expand(node.child, false) };
+      default:
+        return { type: node.type, children: node.children.map((child) => expand(child, positive)) };
+    }
+  };
+
+  return { query: expand(query, true), synonymOf };
+};
+
+/**
+ * The query with each word that isn't in the vocabulary replaced by the
+ * nearest one that is, for "Did you mean"; null when nothing would change.
+ */
+export const correctQuery = (query: QueryNode, vocabulary: string[]): QueryNode | null => {
+  const known = new Set(vocabulary.map((word) => word.toLowerCase()));
+  let changed = false;
+
+  const correctWord = (word: string) => {
+    if (known.has(word.toLowerCase())) return word;
+    const [nearest] = closeWords(word, vocabulary);
+    if (!nearest) return word;
+    changed = true;
+    return nearest;
+  };
+
+  const correct = (node: QueryNode): QueryNode => {
+    switch (node.type) {
+      case 'term':
+        return { ...node, value: node.value.split(/\s+/).map(correctWord).join(' ') };
+      case 'not':
+        return { type: 'not', child: correct(node.child) };
+      default:
+        return { type: node.type, children: node.children.map(correct) };
+    }
+  };
+
+  const corrected = correct(query);
+  return changed ? corrected : null;
+};
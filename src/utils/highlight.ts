@@ -0,0 +1,62 @@
+/**
+ * Case-insensitive pattern matching any of `terms`, longest first; null when
+ * there are none. Any run of whitespace in a term matches any other, since
+ * rendered documents rarely keep the original spacing and line breaks.
+ */
+export const termPattern = (terms: string[]): RegExp | null => {
+  const escaped = terms
+    .map((term) => term.trim())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+  return escaped.length > 0 ? new RegExp(escaped.join('|'), 'gi') : null;
+};
+
+export const countMatches = (text: string, pattern: RegExp | null) =>
+  pattern ? (text.match(pattern) ?? []).length : 0;
+
+/**
+ * Wraps every match of `pattern` in the text under `root` in a `<mark>`, and
+ * returns the marks in document order. Matches are found within single text
+ * nodes, so a term split across elements isn't marked.
+ */
+export const highlightElement = (root: HTMLElement, pattern: RegExp | null): HTMLElement[] => {
+  if (!pattern) return [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (!(node.parentElement?.closest('mark, style, script'))) textNodes.push(node as Text);
+  }
+
+  const marks: HTMLElement[] = [];
+  for (const node of textNodes) {
+    const text = node.data;
+    const matches = Array.from(text.matchAll(pattern));
+    if (matches.length === 0) continue;
+
+    const fragment = document.createDocumentFragment();
+    let last = 0;
+    for (const match of matches) {
+      const start = match.index ?? 0;
+      fragment.append(text.slice(last, start));
+      const mark = document.createElement('mark');
+      mark.textContent = match[0];
+      fragment.append(mark);
+      marks.push(mark);
+      last = start + match[0].length;
+    }
+    fragment.append(text.slice(last));
+    node.replaceWith(fragment);
+  }
+  return marks;
+};
+
+/** Undoes `highlightElement`, putting the marked text back as it was. */
+export const removeHighlights = (marks: HTMLElement[]) => {
+  for (const mark of marks) {
+    const parent = mark.parentNode;
+    if (!parent) continue;
+    parent.replaceChild(document.createTextNode(mark.textContent ?? ''), mark);
+    parent.normalize();
+  }
+};
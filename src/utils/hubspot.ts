@@ -0,0 +1,4 @@
+const HUBSPOT_PORTAL_ID = '146170484';
+
+export const hubSpotContactUrl = (contactId: string): string =>
+  `https://app.hubspot.com/contacts/${HUBSPOT_PORTAL_ID}/contact/${contactId}`;
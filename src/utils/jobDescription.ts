@@ -0,0 +1,155 @@
+import type { TaxonomyEntry } from './skillTaxonomy';
+
+// Reads what a job asks for out of its description: the title, seniority and
+// the skills it requires or would like. Skills are recognised from a list of
+// known ones (the skill taxonomy, common skills and those seen in results);
+// the section a skill appears in, e.g. "Requirements" or "Nice to have",
+// decides which kind it is.
+
+export type Seniority = 'junior' | 'mid' | 'senior' | 'lead';
+
+export const SENIORITY_LEVELS: Array<{ id: Seniority; label: string; minYears: number }> = [
+  { id: 'junior', label: 'Junior', minYears: 0 },
+  { id: 'mid', label: 'Mid-level', minYears: 2 },
+  { id: 'senior', label: 'Senior', minYears: 5 },
+  { id: 'lead', label: 'Lead / Principal', minYears: 8 },
+];
+
+export interface JobRequirements {
+  title: string;
+  seniority?: Seniority;
+  /** From e.g. "5+ years of experience"; otherwise the seniority's minimum. */
+  minYears?: number;
+  required: string[];
+  niceToHave: string[];
+}
+
+export const EMPTY_REQUIREMENTS: JobRequirements = { title: '', required: [], niceToHave: [] };
+
+// Recognised without being in the taxonomy. One-letter languages and "Go"
+// are left out: they're too common as words.
+export const COMMON_SKILLS = [
+  'Python', 'Java', 'Kotlin', 'Scala', 'C++', 'C#', '.NET', 'Ruby', 'Rails', 'PHP', 'Laravel', 'Golang', 'Rust',
+  'Swift', 'Objective-C', 'HTML', 'CSS', 'Sass', 'Tailwind', 'Redux', 'Next.js', 'Svelte', 'GraphQL', 'REST',
+  'Spring Boot', 'Django', 'Flask', 'FastAPI', 'Express', 'SQL', 'MySQL', 'MongoDB', 'Redis', 'Elasticsearch',
+  'Kafka', 'RabbitMQ', 'Docker', 'Terraform', 'Ansible', 'AWS', 'Azure', 'GCP', 'Linux', 'Git', 'CI/CD',
+  'Jenkins', 'GitHub Actions', 'Jest', 'Cypress', 'Selenium', 'Playwright', 'Test Automation', 'Microservices',
+  'Spark', 'Airflow', 'dbt', 'Pandas', 'TensorFlow', 'PyTorch', 'Tableau', 'Power BI', 'Excel', 'Figma',
+  'Scrum', 'Agile', 'Jira', 'SAP', 'Salesforce', 'HubSpot', 'SEO', 'Data Science', 'Deep Learning', 'NLP',
+  'English', 'German',
+];
+
+type SectionKind = 'required' | 'niceToHave' | 'ignored' | 'general';
+
+const SECTION_HEADINGS: Array<[SectionKind, RegExp]> = [
+  ['niceToHave', /nice[- ]to[- ]have|bonus|plus|preferred|desirable|ideally/i],
+  ['required', /requirement|qualification|must[- ]have|what you (?:bring|need|have)|you (?:have|bring)|your profile|skills|who you are|we(?:'re| are) looking for/i],
+  ['ignored', /benefit|we offer|what you get|perks|about us|about the company|who we are|how to apply/i],
+  ['general', /responsibilit|what you(?:'ll| will) do|your (?:role|tasks|mission)|the role|tasks/i],
+];
+
+// A sentence inside any section that marks its skills as optional
+const NICE_TO_HAVE_LINE = /nice[- ]to[- ]have|\ba plus\b|\bbonus\b|\bpreferred\b|\bideally\b|\bdesirable\b/i;
+
+const SENIORITY_PATTERNS: Array<[Seniority, RegExp]> = [
+  ['lead', /\b(?:lead|principal|staff|head of)\b/i],
+  ['senior', /\b(?:senior|sr\.?)(?=\s|$)/i],
+  ['mid', /\b(?:mid[- ]?level|intermediate)\b/i],
+  ['junior', /\b(?:junior|jr\.?|entry[- ]level|graduate|intern)(?=\s|$)/i],
+];
+
+// "(m/w/d)", "(f/m/x)" and the like, which job titles in some countries carry
+const GENDER_MARKER = /\s*\((?:[mwfdx]\s*\/\s*){1,3}[mwfdx]\)\s*/gi;
+
+/** The seniority a text (e.g. a job title) names, if any. */
+export const detectSeniority = (text: string): Seniority | undefined =>
+  SENIORITY_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+
+const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Matches `skill` as a whole word. Short abbreviations like "ML" have to
+ * match in case too, or they'd be found in ordinary words and units.
+ */
+const skillPattern = (skill: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}+#.])${escape(skill)}(?![\\p{L}\\p{N}+#])`, skill.length <= 3 ? 'u' : 'iu');
+
+const BULLET = /^(?:[-•·▪–*]|\d+[.)])\s/;
+
+// Headings are short lines of their own, or end in a colon; list items never are
+const headingKind = (line: string): SectionKind | null => {
+  if (BULLET.test(line)) return null;
+  const heading = line.replace(/^[#*\s]+|[*:\s]+$/g, '');
+  if (!heading || /[.!?]$/.test(heading) || (!line.endsWith(':') && heading.split(/\s+/).length > 5)) return null;
+  return SECTION_HEADINGS.find(([, pattern]) => pattern.test(heading))?.[0] ?? null;
+};
+
+const extractTitle = (lines: string[]) => {
+  const labelled = lines.map((line) => line.match(/^(?:job title|position|role)\s*[:\-–]\s*(.+)$/i)).find(Boolean);
+  const title =
+    labelled?.[1] ??
+    lines.find((line) => line.length <= 80 && !headingKind(line) && !/[.!?]$/.test(line)) ??
+    '';
+  return title.replace(GENDER_MARKER, ' ').replace(/^[#*\s]+|[*\s]+$/g, '').trim();
+};
+
+/** What `text` asks for; `knownSkills` are recognised besides the taxonomy's. */
+export const extractJobRequirements = (
+  text: string,
+  taxonomy: TaxonomyEntry[],
+  knownSkills: string[] = COMMON_SKILLS
+): JobRequirements => {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const title = extractTitle(lines);
+
+  // Every way of writing a skill, to the name it's listed under
+  const names = new Map<string, string>();
+  taxonomy.forEach((entry) =>
+    [entry.name, ...entry.synonyms, ...entry.abbreviations].forEach((value) => names.set(value, entry.name))
+  );
+  knownSkills.forEach((skill) => {
+    if (!Array.from(names.keys()).some((value) => value.toLowerCase() === skill.toLowerCase())) names.set(skill, skill);
+  });
+  const patterns = Array.from(names, ([value, name]) => ({ name, pattern: skillPattern(value) }));
+
+  const found: Record<'required' | 'niceToHave' | 'general', string[]> = { required: [], niceToHave: [], general: [] };
+  let section: SectionKind = 'general';
+  for (const line of lines) {
+    const heading = headingKind(line);
+    if (heading) {
+      section = heading;
+      continue;
+    }
+    if (section === 'ignored') continue;
+    // Sentence by sentence, so "Excel is a plus" doesn't make the rest of the line optional
+    for (const sentence of line.split(/(?<=[.!?;])\s+/)) {
+      const kind = NICE_TO_HAVE_LINE.test(sentence) ? 'niceToHave' : section;
+      patterns.forEach(({ name, pattern }) => {
+        if (pattern.test(sentence) && !found[kind].includes(name)) found[kind].push(name);
+      });
+    }
+  }
+
+  // Skills outside the requirement sections count as required only when there are none
+  const hasRequirements = found.required.length > 0;
+  const required = hasRequirements ? found.required : found.general;
+  const niceToHave = [...found.niceToHave, ...(hasRequirements ? found.general : [])].filter(
+    (skill, index, all) => !required.includes(skill) && all.indexOf(skill) === index
+  );
+
+  const years = text.match(/\b(\d{1,2})\s*\+?\s*(?:(?:-|–|to)\s*\d{1,2}\s*)?years?/i);
+  const minYears = years ? Number(years[1]) : undefined;
+  // In the body, "lead" is more often a verb than a level
+  const seniority =
+    detectSeniority(title) ??
+    (minYears !== undefined ? [...SENIORITY_LEVELS].reverse().find((level) => level.minYears <= minYears)?.id : undefined) ??
+    SENIORITY_PATTERNS.find(([level, pattern]) => level !== 'lead' && pattern.test(text))?.[0];
+
+  return {
+    title,
+    seniority,
+    minYears: minYears ?? SENIORITY_LEVELS.find((level) => level.id === seniority)?.minYears,
+    required,
+    niceToHave,
+  };
+};
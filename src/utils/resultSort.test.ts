@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchResult } from '../types/api';
+import { DEFAULT_SORT, formatSort, parseSort, relevanceScore, sortResults, toggleSort } from './resultSort';
+
+const result = (contactId: string, fields: Partial<SearchResult> = {}): SearchResult => ({
+  contact_id: contactId,
+  name: contactId,
+  email: '',
+  job_title: '',
+  full_text: '',
+  skills: '',
+  matched_keywords: [],
+  ...fields,
+});
+
+describe('parseSort and formatSort', () => {
+  it('read and write keys in priority order', () => {
+    const specs = parseSort('job_title,-matched');
+    expect(specs).toEqual([
+      { key: 'job_title', direction: 'asc' },
+      { key: 'matched', direction: 'desc' },
+    ]);
+    expect(formatSort(specs)).toBe('job_title,-matched');
+  });
+
+  it('skip unknown and repeated keys, falling back to the default', () => {
+    expect(parseSort('salary,name,-name')).toEqual([{ key: 'name', direction: 'asc' }]);
+    expect(parseSort('salary')).toBe(DEFAULT_SORT);
+    expect(parseSort(null)).toBe(DEFAULT_SORT);
+    expect(formatSort(DEFAULT_SORT)).toBe('');
+  });
+});
+
+describe('toggleSort', () => {
+  it('sorts by a column alone, flipping it when clicked again', () => {
+    const byName = toggleSort(DEFAULT_SORT, 'name', false);
+    expect(byName).toEqual([{ key: 'name', direction: 'asc' }]);
+    expect(toggleSort(byName, 'name', false)).toEqual([{ key: 'name', direction: 'desc' }]);
+    expect(toggleSort(byName, 'matched', false)).toEqual([{ key: 'matched', direction: 'desc' }]);
+  });
+
+  it('adds tie-breakers with shift-click, flipping them in place', () => {
+    const specs = toggleSort(DEFAULT_SORT, 'name', true);
+    expect(specs).toEqual([...DEFAULT_SORT, { key: 'name', direction: 'asc' }]);
+    expect(toggleSort(specs, 'relevance', true)).toEqual([
+      { key: 'relevance', direction: 'asc' },
+      { key: 'name', direction: 'asc' },
+    ]);
+  });
+});
+
+describe('relevanceScore', () => {
+  it('ranks matched keywords over title matches over frequency', () => {
+    const matched = result('a', { matched_keywords: ['React', 'Vue'] });
+    const inTitle = result('b', { matched_keywords: ['React'], job_title: 'React Developer' });
+    const repeated = result('c', { matched_keywords: ['React'], full_text: 'React '.repeat(5) });
+    const score = (r: SearchResult) => relevanceScore(r, ['React']);
+    expect(score(matched)).toBeGreaterThan(score(inTitle));
+    expect(score(inTitle)).toBeGreaterThan(score(repeated));
+    expect(score(repeated)).toBeGreaterThan(score(result('d', { matched_keywords: ['React'] })));
+  });
+});
+
+describe('sortResults', () => {
+  const results = [
+    result('1', { name: 'bob', job_title: '' }),
+    result('2', { name: 'Ada', job_title: 'Engineer' }),
+    result('3', { name: 'ada', job_title: 'Analyst' }),
+  ];
+  const ids = (sorted: SearchResult[]) => sorted.map((r) => r.contact_id);
+
+  it('breaks ties with later keys, then the backend order', () => {
+    expect(ids(sortResults(results, [{ key: 'name', direction: 'asc' }], new Map()))).toEqual(['2', '3', '1']);
+    expect(
+      ids(sortResults(results, [{ key: 'name', direction: 'asc' }, { key: 'job_title', direction: 'asc' }], new Map()))
+    ).toEqual(['3', '2', '1']);
+  });
+
+  it('puts empty text last in either direction', () => {
+    expect(ids(sortResults(results, [{ key: 'job_title', direction: 'desc' }], new Map()))).toEqual(['2', '3', '1']);
+  });
+
+  it('sorts by the given relevance scores', () => {
+    const scores = new Map([['1', 5], ['2', 1], ['3', 9]]);
+    expect(ids(sortResults(results, DEFAULT_SORT, scores))).toEqual(['3', '1', '2']);
+  });
+});
@@ -0,0 +1,122 @@
+import type { SearchResult } from '../types/api';
+import { countMatches, termPattern } from './highlight';
+
+// Ordering of the loaded search results: a relevance score computed here, and
+// sorting by the table's columns, which the URL keeps as `sort=job_title,-matched`.
+
+export type SortKey = 'relevance' | 'name' | 'email' | 'job_title' | 'matched';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortSpec {
+  key: SortKey;
+  direction: SortDirection;
+}
+
+const SORT_KEYS: SortKey[] = ['relevance', 'name', 'email', 'job_title', 'matched'];
+
+/** Most relevant first, when the URL doesn't say otherwise. */
+export const DEFAULT_SORT: SortSpec[] = [{ key: 'relevance', direction: 'desc' }];
+
+// Numbers sort largest first on the first click, text A to Z
+const FIRST_DIRECTION: Record<SortKey, SortDirection> = {
+  relevance: 'desc',
+  name: 'asc',
+  email: 'asc',
+  job_title: 'asc',
+  matched: 'desc',
+};
+
+/** Reads `sort=job_title,-matched`: keys in priority order, `-` for descending. Unknown keys are skipped. */
+export const parseSort = (value: string | null): SortSpec[] => {
+  const specs: SortSpec[] = [];
+  for (const part of (value ?? '').split(',')) {
+    const descending = part.startsWith('-');
+    const key = (descending ? part.slice(1) : part) as SortKey;
+    if (SORT_KEYS.includes(key) && !specs.some((spec) => spec.key === key)) {
+      specs.push({ key, direction: descending ? 'desc' : 'asc' });
+    }
+  }
+  return specs.length > 0 ? specs : DEFAULT_SORT;
+};
+
+/** The `sort` parameter for `specs`; empty for the default order. */
+export const formatSort = (specs: SortSpec[]): string => {
+  const isDefault =
+    specs.length === DEFAULT_SORT.length &&
+    specs.every((spec, index) => spec.key === DEFAULT_SORT[index].key && spec.direction === DEFAULT_SORT[index].direction);
+  return isDefault ? '' : specs.map((spec) => `${spec.direction === 'desc' ? '-' : ''}${spec.key}`).join(',');
+};
+
+/**
+ * The order after clicking a column header. A plain click sorts by that
+ * column alone, flipping the direction if it already was the only sort. With
+ * `addToSort` (shift-click) the column is added as the last tie-breaker, or
+ * flipped where it is if it's already part of the sort.
+ */
+export const toggleSort = (specs: SortSpec[], key: SortKey, addToSort: boolean): SortSpec[] => {
+  const existing = specs.find((spec) => spec.key === key);
+  const flipped = (spec: SortSpec): SortSpec => ({ key, direction: spec.direction === 'asc' ? 'desc' : 'asc' });
+
+  if (!addToSort) {
+    return [existing && specs.length === 1 ? flipped(existing) : { key, direction: FIRST_DIRECTION[key] }];
+  }
+  return existing
+    ? specs.map((spec) => (spec.key === key ? flipped(spec) : spec))
+    : [...specs, { key, direction: FIRST_DIRECTION[key] }];
+};
+
+// Weights of the relevance score's parts
+const MATCHED_TERM_WEIGHT = 10;
+const TITLE_MATCH_WEIGHT = 6;
+const FREQUENCY_WEIGHT = 2;
+
+/**
+ * How well a result matches `terms`: each matched keyword counts most, then a
+ * term in the job title, then how often the terms appear in the CV text —
+ * logarithmically, so a long CV repeating a word doesn't outrank a focused one.
+ */
+export const relevanceScore = (result: SearchResult, terms: string[]): number => {
+  let score = result.matched_keywords.length * MATCHED_TERM_WEIGHT;
+  for (const term of terms) {
+    const pattern = termPattern([term]);
+    if (countMatches(result.job_title, pattern) > 0) score += TITLE_MATCH_WEIGHT;
+    score += Math.log1p(countMatches(result.full_text, pattern)) * FREQUENCY_WEIGHT;
+  }
+  return Math.round(score * 10) / 10;
+};
+
+const collator = new Intl.Collator(undefined, { sensitivity: 'base', numeric: true });
+
+const compareBy = (key: SortKey, a: SearchResult, b: SearchResult, scores: Map<string, number>): number => {
+  switch (key) {
+    case 'relevance':
+      return (scores.get(a.contact_id) ?? 0) - (scores.get(b.contact_id) ?? 0);
+    case 'matched':
+      return a.matched_keywords.length - b.matched_keywords.length;
+    default:
+      return collator.compare(a[key], b[key]);
+  }
+};
+
+/**
+ * `results` in the order of `specs`; later specs break ties of earlier ones,
+ * and the backend's order breaks any remaining ties. Empty text sorts last
+ * either way.
+ */
+export const sortResults = (results: SearchResult[], specs: SortSpec[], scores: Map<string, number>): SearchResult[] =>
+  results
+    .map((result, index) => ({ result, index }))
+    .sort((a, b) => {
+      for (const { key, direction } of specs) {
+        if (key !== 'relevance' && key !== 'matched') {
+          const aEmpty = !a.result[key].trim();
+          const bEmpty = !b.result[key].trim();
+          if (aEmpty !== bEmpty) return aEmpty ? 1 : -1;
+        }
+        const order = compareBy(key, a.result, b.result, scores);
+        if (order !== 0) return direction === 'asc' ? order : -order;
+      }
+      return a.index - b.index;
+    })
+    .map(({ result }) => result);
@@ -0,0 +1,56 @@
+import type { ResumeUpdateRequest } from '../types/api';
+
+/** The review form's fields, with skills as comma-separated text. */
+export type ResumeDraft = Record<keyof ResumeUpdateRequest, string>;
+
+export type ResumeFieldErrors = Partial<Record<keyof ResumeDraft, string>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Strips spaces, dashes, dots and brackets from a phone number, keeping a
+ * leading "+" ("00" international prefixes become "+").
+ * "0049 (30) 123-45" → "+493012345".
+ */
+export const normalizePhone = (phone: string): string => {
+  const trimmed = phone.trim();
+  if (!trimmed) return '';
+  const digits = trimmed.replace(/\D/g, '');
+  if (trimmed.startsWith('+')) return `+${digits}`;
+  if (digits.startsWith('00')) return `+${digits.slice(2)}`;
+  return digits;
+};
+
+export const splitSkills = (skills: string) =>
+  skills.split(/[,;\n]/).map((skill) => skill.trim()).filter(Boolean);
+
+/** Field errors for a reviewed resume; an empty object means it is valid. */
+export const validateResume = (fields: ResumeDraft): ResumeFieldErrors => {
+  const errors: ResumeFieldErrors = {};
+
+  if (!fields.name.trim()) {
+    errors.name = 'Name is required';
+  }
+
+  const email = fields.email.trim();
+  if (email && !EMAIL_PATTERN.test(email)) {
+    errors.email = 'Enter a valid email address';
+  }
+
+  // E.164 allows up to 15 digits; anything under 7 is not a reachable number
+  const phoneDigits = normalizePhone(fields.phone).replace('+', '');
+  if (fields.phone.trim() && (phoneDigits.length < 7 || phoneDigits.length > 15)) {
+    errors.phone = 'Enter a valid phone number';
+  }
+
+  return errors;
+};
+
+/** Trims every field and normalizes the phone number, ready to send. */
+export const cleanResume = (fields: ResumeDraft): ResumeUpdateRequest => ({
+  name: fields.name.trim(),
+  email: fields.email.trim(),
+  phone: normalizePhone(fields.phone),
+  job_title: fields.job_title.trim(),
+  skills: splitSkills(fields.skills),
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchResult } from '../types/api';
+import {
+  EMPTY_FILTERS,
+  applyFilters,
+  computeFacets,
+  countActiveFilters,
+  readFilters,
+  writeFilters,
+  type SearchFilters,
+} from './searchFilters';
+
+const NOW = Date.parse('2024-06-30T12:00:00Z');
+
+const result = (contactId: string, fields: Partial<SearchResult> = {}): SearchResult => ({
+  contact_id: contactId,
+  name: contactId,
+  email: '',
+  job_title: '',
+  full_text: '',
+  skills: '',
+  matched_keywords: [],
+  ...fields,
+});
+
+const results = [
+  result('ada', { job_title: 'Data Engineer', skills: 'Python, SQL', location: 'Berlin', years_of_experience: 4, uploaded_at: '2024-06-25T00:00:00Z', cv_url_link: 'https://cv/ada' }),
+  result('bob', { job_title: 'data engineer ', skills: 'Java, SQL, sql', location: 'Hamburg', years_of_experience: 12, uploaded_at: '2023-01-01T00:00:00Z' }),
+  result('cy', { job_title: 'Frontend Developer', skills: 'React', years_of_experience: 1 }),
+];
+
+const filters = (change: Partial<SearchFilters>): SearchFilters => ({ ...EMPTY_FILTERS, ...change });
+
+describe('readFilters and writeFilters', () => {
+  it('round-trip through the URL, keeping other parameters', () => {
+    const selected = filters({ titles: ['Data Engineer'], skills: ['SQL', 'Python'], experience: ['3-5'], uploadedWithin: '30d', cvLink: 'with' });
+    const params = writeFilters(new URLSearchParams('q=Java&title=old'), selected);
+    expect(params.get('q')).toBe('Java');
+    expect(readFilters(params)).toEqual({ ...selected, locations: [] });
+  });
+
+  it('ignores unknown values', () => {
+    expect(readFilters(new URLSearchParams('years=99&uploaded=1d&cv=maybe&skill='))).toEqual({
+      ...EMPTY_FILTERS,
+      uploadedWithin: undefined,
+      cvLink: undefined,
+    });
+  });
+});
+
+describe('countActiveFilters', () => {
+  it('counts every selected value', () => {
+    expect(countActiveFilters(filters({ skills: ['SQL', 'Java'], cvLink: 'without' }))).toBe(3);
+    expect(countActiveFilters(EMPTY_FILTERS)).toBe(0);
+  });
+});
+
+describe('applyFilters', () => {
+  const ids = (selected: SearchFilters) => applyFilters(results, selected, NOW).map((r) => r.contact_id);
+
+  it('matches any value within a filter, ignoring case and spaces', () => {
+    expect(ids(filters({ titles: ['DATA ENGINEER'] }))).toEqual(['ada', 'bob']);
+    expect(ids(filters({ skills: ['python', 'react'] }))).toEqual(['ada', 'cy']);
+  });
+
+  it('requires every filter to match', () => {
+    expect(ids(filters({ skills: ['SQL'], locations: ['Hamburg'] }))).toEqual(['bob']);
+    expect(ids(filters({ experience: ['10+'] }))).toEqual(['bob']);
+    expect(ids(filters({ uploadedWithin: '7d' }))).toEqual(['ada']);
+    expect(ids(filters({ cvLink: 'without' }))).toEqual(['bob', 'cy']);
+  });
+});
+
+describe('computeFacets', () => {
+  it('counts each value once per result', () => {
+    const facets = computeFacets(results, EMPTY_FILTERS, NOW);
+    expect(facets.skills.find((facet) => facet.value.toLowerCase() === 'sql')?.count).toBe(2);
+    expect(facets.titles[0]).toMatchObject({ count: 2 });
+  });
+
+  it('counts a filter over the results passing the other filters', () => {
+    const facets = computeFacets(results, filters({ locations: ['Berlin'] }), NOW);
+    // Still shows Hamburg, as selecting it too would add bob
+    expect(facets.locations.map((facet) => facet.value)).toEqual(['Berlin', 'Hamburg']);
+    expect(facets.skills.map((facet) => facet.value)).toEqual(['Python', 'SQL']);
+    expect(facets.cvLink).toEqual([
+      { value: 'with', label: 'Has a CV link', count: 1 },
+      { value: 'without', label: 'No CV link', count: 0 },
+    ]);
+  });
+});
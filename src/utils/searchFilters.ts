@@ -0,0 +1,206 @@
+import type { SearchResult } from '../types/api';
+import { splitSkills } from './resumeValidation';
+
+// Filters narrow the results a search returned, on the client. Values within
+// one filter are alternatives (any of the selected titles); different filters
+// must all match.
+
+export type ValueFilter = 'titles' | 'skills' | 'locations' | 'experience';
+
+export type UploadedWithin = '7d' | '30d' | '90d' | '365d';
+
+export type CvLinkFilter = 'with' | 'without';
+
+export interface SearchFilters {
+  titles: string[];
+  skills: string[];
+  locations: string[];
+  /** Ids of `EXPERIENCE_RANGES`. */
+  experience: string[];
+  uploadedWithin?: UploadedWithin;
+  cvLink?: CvLinkFilter;
+}
+
+export const EMPTY_FILTERS: SearchFilters = { titles: [], skills: [], locations: [], experience: [] };
+
+export const EXPERIENCE_RANGES: Array<{ id: string; label: string; min: number; max: number }> = [
+  { id: '0-2', label: 'Under 3 years', min: 0, max: 3 },
+  { id: '3-5', label: '3–5 years', min: 3, max: 6 },
+  { id: '6-9', label: '6–9 years', min: 6, max: 10 },
+  { id: '10+', label: '10 years or more', min: 10, max: Infinity },
+];
+
+export const UPLOADED_WITHIN: Array<{ id: UploadedWithin; label: string; days: number }> = [
+  { id: '7d', label: 'Last 7 days', days: 7 },
+  { id: '30d', label: 'Last 30 days', days: 30 },
+  { id: '90d', label: 'Last 3 months', days: 90 },
+  { id: '365d', label: 'Last year', days: 365 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// URL parameter of each filter; the value filters may repeat
+const PARAMS = {
+  titles: 'title',
+  skills: 'skill',
+  locations: 'location',
+  experience: 'years',
+  uploadedWithin: 'uploaded',
+  cvLink: 'cv',
+} as const;
+
+export const FILTER_PARAMS: string[] = Object.values(PARAMS);
+
+const isUploadedWithin = (value: string | null): value is UploadedWithin =>
+  UPLOADED_WITHIN.some((option) => option.id === value);
+
+/** The filters in the URL. Unknown values are ignored. */
+export const readFilters = (params: URLSearchParams): SearchFilters => {
+  const uploaded = params.get(PARAMS.uploadedWithin);
+  const cv = params.get(PARAMS.cvLink);
+  return {
+    titles: params.getAll(PARAMS.titles).filter(Boolean),
+    skills: params.getAll(PARAMS.skills).filter(Boolean),
+    locations: params.getAll(PARAMS.locations).filter(Boolean),
+    experience: params.getAll(PARAMS.experience).filter((id) => EXPERIENCE_RANGES.some((range) => range.id === id)),
+    uploadedWithin: isUploadedWithin(uploaded) ? uploaded : undefined,
+    cvLink: cv === 'with' || cv === 'without' ? cv : undefined,
+  };
+};
+
+/** `params` with its filter parameters replaced by `filters`. */
+export const writeFilters = (params: URLSearchParams, filters: SearchFilters): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  FILTER_PARAMS.forEach((param) => next.delete(param));
+  filters.titles.forEach((value) => next.append(PARAMS.titles, value));
+  filters.skills.forEach((value) => next.append(PARAMS.skills, value));
+  filters.locations.forEach((value) => next.append(PARAMS.locations, value));
+  filters.experience.forEach((value) => next.append(PARAMS.experience, value));
+  if (filters.uploadedWithin) next.set(PARAMS.uploadedWithin, filters.uploadedWithin);
+  if (filters.cvLink) next.set(PARAMS.cvLink, filters.cvLink);
+  return next;
+};
+
+/** How many filters are set; each selected value counts. */
+export const countActiveFilters = (filters: SearchFilters): number =>
+  filters.titles.length +
+  filters.skills.length +
+  filters.locations.length +
+  filters.experience.length +
+  (filters.uploadedWithin ? 1 : 0) +
+  (filters.cvLink ? 1 : 0);
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** The values a result has for a value filter, as shown in the sidebar. */
+const valuesOf = (result: SearchResult, filter: ValueFilter): string[] => {
+  switch (filter) {
+    case 'titles':
+      return result.job_title.trim() ? [result.job_title.trim()] : [];
+    case 'skills':
+      return splitSkills(result.skills);
+    case 'locations':
+      return result.location?.trim() ? [result.location.trim()] : [];
+    case 'experience': {
+      const years = result.years_of_experience;
+      if (years === undefined) return [];
+      return EXPERIENCE_RANGES.filter((range) => years >= range.min && years < range.max).map((range) => range.id);
+    }
+  }
+};
+
+const isUploadedIn = (result: SearchResult, within: UploadedWithin, now: number) => {
+  const uploadedAt = result.uploaded_at ? Date.parse(result.uploaded_at) : NaN;
+  const { days } = UPLOADED_WITHIN.find((option) => option.id === within)!;
+  return !Number.isNaN(uploadedAt) && now - uploadedAt <= days * DAY_MS;
+};
+
+const hasCvLink = (result: SearchResult) => Boolean(result.cv_url_link?.trim());
+
+type FilterKey = keyof SearchFilters;
+
+const matchesFilter = (result: SearchResult, filters: SearchFilters, key: FilterKey, now: number): boolean => {
+  switch (key) {
+    case 'uploadedWithin':
+      return !filters.uploadedWithin || isUploadedIn(result, filters.uploadedWithin, now);
+    case 'cvLink':
+      return !filters.cvLink || hasCvLink(result) === (filters.cvLink === 'with');
+    default: {
+      const selected = filters[key];
+      if (selected.length === 0) return true;
+      const values = valuesOf(result, key);
+      return selected.some((value) => values.some((candidate) => sameText(candidate, value)));
+    }
+  }
+};
+
+const FILTER_KEYS: FilterKey[] = ['titles', 'skills', 'locations', 'experience', 'uploadedWithin', 'cvLink'];
+
+const matchesAll = (result: SearchResult, filters: SearchFilters, now: number, except?: FilterKey) =>
+  FILTER_KEYS.every((key) => key === except || matchesFilter(result, filters, key, now));
+
+/** The results that pass every filter. */
+export const applyFilters = (results: SearchResult[], filters: SearchFilters, now = Date.now()): SearchResult[] =>
+  countActiveFilters(filters) === 0 ? results : results.filter((result) => matchesAll(result, filters, now));
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  titles: FacetValue[];
+  skills: FacetValue[];
+  locations: FacetValue[];
+  experience: FacetValue[];
+  uploadedWithin: FacetValue[];
+  cvLink: FacetValue[];
+}
+
+const countValues = (results: SearchResult[], filter: ValueFilter): FacetValue[] => {
+  const counts = new Map<string, FacetValue>();
+  for (const result of results) {
+    // A CV listing a skill twice still counts once
+    const seen = new Set<string>();
+    for (const value of valuesOf(result, filter)) {
+      const key = value.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const facet = counts.get(key);
+      if (facet) facet.count++;
+      else counts.set(key, { value, label: value, count: 1 });
+    }
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
+
+/**
+ * Counts per filter value. Each filter is counted over the results that pass
+ * all the other filters, so a count is what selecting only that value would
+ * show, and the other values of a filter stay visible once one is selected.
+ */
+export const computeFacets = (results: SearchResult[], filters: SearchFilters, now = Date.now()): SearchFacets => {
+  const passing = (except: FilterKey) => results.filter((result) => matchesAll(result, filters, now, except));
+
+  const experienceCounts = new Map(countValues(passing('experience'), 'experience').map((facet) => [facet.value, facet.count]));
+  const uploadedPool = passing('uploadedWithin');
+  const cvPool = passing('cvLink');
+  const withCv = cvPool.filter(hasCvLink).length;
+
+  return {
+    titles: countValues(passing('titles'), 'titles'),
+    skills: countValues(passing('skills'), 'skills'),
+    locations: countValues(passing('locations'), 'locations'),
+    experience: EXPERIENCE_RANGES.map((range) => ({ value: range.id, label: range.label, count: experienceCounts.get(range.id) ?? 0 })),
+    uploadedWithin: UPLOADED_WITHIN.map((option) => ({
+      value: option.id,
+      label: option.label,
+      count: uploadedPool.filter((result) => isUploadedIn(result, option.id, now)).length,
+    })),
+    cvLink: [
+      { value: 'with', label: 'Has a CV link', count: withCv },
+      { value: 'without', label: 'No CV link', count: cvPool.length - withCv },
+    ],
+  };
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  combineQueries,
+  evaluateQuery,
+  formatQuery,
+  matchingTerms,
+  parseQuery,
+  positiveTerms,
+  splitQuery,
+  splitQueryList,
+  type QueryNode,
+} from './searchQuery';
+
+const parse = (input: string): QueryNode => {
+  const result = parseQuery(input);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.query;
+};
+
+const text = (all: string, title = '', skills = '') => ({ all: [all, title, skills].join('\n'), title, skills });
+
+describe('parseQuery', () => {
+  it('gives AND precedence over OR, and ANDs terms next to each other', () => {
+    expect(formatQuery(parse('a b OR c'))).toBe('(a AND b) OR c');
+    expect(formatQuery(parse('(React OR Vue) AND TypeScript NOT junior'))).toBe(
+      '(React OR Vue) AND TypeScript AND NOT junior'
+    );
+  });
+
+  it('reads quoted phrases, field scopes and a leading minus', () => {
+    expect(parse('title:"data engineer"')).toEqual({ type: 'term', value: 'data engineer', field: 'title' });
+    expect(formatQuery(parse('-junior skills:python'))).toBe('NOT junior AND skills:python');
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(parseQuery('React OR')).toEqual({
+      ok: false,
+      error: { message: 'OR needs a term on both sides.', start: 6, end: 8 },
+    });
+    expect(parseQuery('"unclosed')).toMatchObject({ ok: false, error: { message: 'Missing closing quote.' } });
+    expect(parseQuery('foo:bar')).toMatchObject({ ok: false, error: { start: 0, end: 4 } });
+    expect(parseQuery('  ')).toMatchObject({ ok: false, error: { message: 'Enter a search term.' } });
+  });
+});
+
+describe('formatQuery', () => {
+  it('round-trips through parseQuery', () => {
+    for (const input of ['(React OR Vue) AND TypeScript', 'title:"data engineer" OR NOT (a OR b)', '"C# (.NET)"']) {
+      const query = parse(input);
+      expect(parse(formatQuery(query))).toEqual(query);
+    }
+  });
+});
+
+describe('splitQueryList', () => {
+  it('splits at commas and line breaks outside quotes', () => {
+    expect(splitQueryList('React, "Node.js, Express"\nPython\r\n\n')).toEqual(['React', '"Node.js, Express"', 'Python']);
+  });
+});
+
+describe('combineQueries and splitQuery', () => {
+  it('are each other’s reverse', () => {
+    const clauses = [parse('React'), parse('Vue OR Angular')];
+    const combined = combineQueries(clauses, 'and');
+    expect(splitQuery(combined, 'or')).toEqual({ clauses, operator: 'and' });
+    expect(combineQueries([clauses[0]], 'or')).toEqual(clauses[0]);
+    expect(splitQuery(clauses[0], 'or')).toEqual({ clauses: [clauses[0]], operator: 'or' });
+  });
+});
+
+describe('positiveTerms', () => {
+  it('leaves out excluded terms and repeats', () => {
+    expect(positiveTerms(parse('(React OR react) AND NOT junior AND title:lead'))).toEqual(['React', 'lead']);
+  });
+});
+
+describe('evaluateQuery and matchingTerms', () => {
+  const cv = text('Built dashboards with React and TypeScript', 'Senior Frontend Developer', 'React, TypeScript, CSS');
+
+  it('matches terms case-insensitively anywhere in the text', () => {
+    expect(evaluateQuery(parse('(react OR vue) AND typescript NOT junior'), cv)).toBe(true);
+    expect(evaluateQuery(parse('React AND NOT senior'), cv)).toBe(false);
+  });
+
+  it('looks for scoped terms only in their field', () => {
+    expect(evaluateQuery(parse('title:frontend'), cv)).toBe(true);
+    expect(evaluateQuery(parse('title:dashboards'), cv)).toBe(false);
+    expect(evaluateQuery(parse('skills:css'), cv)).toBe(true);
+  });
+
+  it('ignores differences in whitespace inside phrases', () => {
+    expect(evaluateQuery(parse('"frontend   developer"'), cv)).toBe(true);
+  });
+
+  it('lists the positive terms found', () => {
+    expect(matchingTerms(parse('React OR Vue OR NOT CSS'), cv)).toEqual(['React']);
+  });
+});
@@ -0,0 +1,302 @@
+// Boolean search queries, e.g. `(React OR Vue) AND TypeScript NOT junior`.
+//
+//   or      := and ("OR" and)*
+//   and     := unary (["AND"] unary)*          adjacent clauses are ANDed
+//   unary   := ("NOT" | "-") unary | primary
+//   primary := "(" or ")" | [field ":"] (word | "quoted phrase")
+//
+// Operators must be upper case, so "and", "or" and "not" are ordinary words.
+
+export type QueryField = 'title' | 'skills';
+
+export const QUERY_FIELDS: QueryField[] = ['title', 'skills'];
+
+export type QueryNode =
+  | { type: 'term'; value: string; field?: QueryField }
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+export type QueryOperator = 'and' | 'or';
+
+export interface QuerySyntaxError {
+  message: string;
+  /** Offsets into the input of the part to mark. */
+  start: number;
+  end: number;
+}
+
+export type QueryParseResult = { ok: true; query: QueryNode } | { ok: false; error: QuerySyntaxError };
+
+type TokenKind = 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'term';
+
+interface Token {
+  kind: TokenKind;
+  start: number;
+  end: number;
+  value?: string;
+  field?: QueryField;
+}
+
+class QueryError extends Error {
+  constructor(message: string, readonly start: number, readonly end: number) {
+    super(message);
+  }
+}
+
+const OPERATORS = new Map<string, TokenKind>([['AND', 'and'], ['OR', 'or'], ['NOT', 'not']]);
+const WORD_END = /[\s()"]/;
+
+const fieldList = QUERY_FIELDS.map((field) => `${field}:`).join(' or ');
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readPhrase = (quoteAt: number) => {
+    const close = input.indexOf('"', quoteAt + 1);
+    if (close === -1) throw new QueryError('Missing closing quote.', quoteAt, input.length);
+    const value = input.slice(quoteAt + 1, close).trim();
+    if (!value) throw new QueryError('Empty quotes.', quoteAt, close + 1);
+    return { value, end: close + 1 };
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i++;
+    } else if (char === '-' && i + 1 < input.length && !/[\s-]/.test(input[i + 1])) {
+      // "-junior" is shorthand for NOT junior
+      tokens.push({ kind: 'not', start: i, end: i + 1 });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readPhrase(i);
+      tokens.push({ kind: 'term', value, start: i, end });
+      i = end;
+    } else {
+      let end = i;
+      while (end < input.length && !WORD_END.test(input[end])) end++;
+      const word = input.slice(i, end);
+      const scoped = /^([a-z]+):(.*)$/i.exec(word);
+
+      const operator = OPERATORS.get(word);
+      if (operator) {
+        tokens.push({ kind: operator, start: i, end });
+      } else if (scoped) {
+        const field = scoped[1].toLowerCase() as QueryField;
+        if (!QUERY_FIELDS.includes(field)) {
+          throw new QueryError(`Unknown field "${scoped[1]}". Use ${fieldList}.`, i, i + scoped[1].length + 1);
+        }
+        if (scoped[2]) {
+          tokens.push({ kind: 'term', value: scoped[2], field, start: i, end });
+        } else if (input[end] === '"') {
+          const phrase = readPhrase(end);
+          tokens.push({ kind: 'term', value: phrase.value, field, start: i, end: phrase.end });
+          end = phrase.end;
+        } else {
+          throw new QueryError(`Add a term after "${word}".`, i, end);
+        }
+      } else {
+        tokens.push({ kind: 'term', value: word, start: i, end });
+      }
+      i = end;
+    }
+  }
+  return tokens;
+};
+
+const combine = (type: QueryOperator, nodes: QueryNode[]): QueryNode => {
+  const children = nodes.flatMap((node) => (node.type === type ? node.children : [node]));
+  return children.length === 1 ? children[0] : { type, children };
+};
+
+const parseTokens = (tokens: Token[], inputLength: number): QueryNode => {
+  let position = 0;
+  const peek = () => tokens[position];
+
+  const parseOr = (): QueryNode => {
+    const nodes = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      const operator = tokens[position++];
+      if (!peek() || peek().kind === 'rparen' || peek().kind === 'or' || peek().kind === 'and') {
+        throw new QueryError('OR needs a term on both sides.', operator.start, operator.end);
+      }
+      nodes.push(parseAnd());
+    }
+    return combine('or', nodes);
+  };
+
+  const parseAnd = (): QueryNode => {
+    const nodes = [parseUnary()];
+    for (let token = peek(); token && token.kind !== 'or' && token.kind !== 'rparen'; token = peek()) {
+      if (token.kind === 'and') {
+        position++;
+        const next = peek();
+        if (!next || next.kind === 'rparen' || next.kind === 'or' || next.kind === 'and') {
+          throw new QueryError('AND needs a term on both sides.', token.start, token.end);
+        }
+      }
+      nodes.push(parseUnary());
+    }
+    return combine('and', nodes);
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (token?.kind === 'not') {
+      position++;
+      const next = peek();
+      if (!next || next.kind === 'rparen' || next.kind === 'or' || next.kind === 'and') {
+        throw new QueryError('NOT needs a term after it.', token.start, token.end);
+      }
+      return { type: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[position++];
+    if (!token) throw new QueryError('The query ends too early.', inputLength, inputLength);
+    if (token.kind === 'term') {
+      return token.field ? { type: 'term', value: token.value!, field: token.field } : { type: 'term', value: token.value! };
+    }
+    if (token.kind === 'lparen') {
+      if (peek()?.kind === 'rparen') throw new QueryError('Empty parentheses.', token.start, peek().end);
+      if (!peek()) throw new QueryError('Missing closing parenthesis.', token.start, token.end);
+      const inner = parseOr();
+      if (peek()?.kind !== 'rparen') throw new QueryError('Missing closing parenthesis.', token.start, token.end);
+      position++;
+      return inner;
+    }
+    if (token.kind === 'rparen') throw new QueryError('Unmatched closing parenthesis.', token.start, token.end);
+    const name = token.kind.toUpperCase();
+    throw new QueryError(`${name} needs a term on both sides.`, token.start, token.end);
+  };
+
+  const query = parseOr();
+  const rest = peek();
+  if (rest) {
+    throw rest.kind === 'rparen'
+      ? new QueryError('Unmatched closing parenthesis.', rest.start, rest.end)
+      : new QueryError('Unexpected text.', rest.start, rest.end);
+  }
+  return query;
+};
+
+/** Parses a query, or says what's wrong with it and where. */
+export const parseQuery = (input: string): QueryParseResult => {
+  try {
+    const tokens = tokenize(input);
+    if (tokens.length === 0) return { ok: false, error: { message: 'Enter a search term.', start: 0, end: 0 } };
+    return { ok: true, query: parseTokens(tokens, input.length) };
+  } catch (err) {
+    if (!(err instanceof QueryError)) throw err;
+    return { ok: false, error: { message: err.message, start: err.start, end: err.end } };
+  }
+};
+
+const needsQuotes = (value: string) => /[\s()":]/.test(value) || value.startsWith('-') || OPERATORS.has(value);
+
+/** The query as text that parses back to the same query. */
+export const formatQuery = (node: QueryNode): string => {
+  switch (node.type) {
+    case 'term': {
+      const value = needsQuotes(node.value) ? `"${node.value.replace(/"/g, '')}"` : node.value;
+      return node.field ? `${node.field}:${value}` : value;
+    }
+    case 'not':
+      return `NOT ${node.child.type === 'and' || node.child.type === 'or' ? `(${formatQuery(node.child)})` : formatQuery(node.child)}`;
+    default:
+      // Groups inside groups are always parenthesised, to make the precedence obvious
+      return node.children
+        .map((child) => (child.type === 'and' || child.type === 'or' ? `(${formatQuery(child)})` : formatQuery(child)))
+        .join(node.type === 'and' ? ' AND ' : ' OR ');
+  }
+};
+
+/**
+ * Splits a list of queries, e.g. pasted as `React, "Node.js, Express"` or one
+ * per line, at the commas and line breaks outside quotes.
+ */
+export const splitQueryList = (input: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of input) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && (char === ',' || char === '\n' || char === '\r')) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim()).filter(Boolean);
+};
+
+/** Joins clauses with `operator`; a single clause is returned as is. */
+export const combineQueries = (clauses: QueryNode[], operator: QueryOperator): QueryNode => combine(operator, clauses);
+
+/** The reverse of `combineQueries`: the top-level clauses and how they're joined. */
+export const splitQuery = (node: QueryNode, fallback: QueryOperator): { clauses: QueryNode[]; operator: QueryOperator } =>
+  node.type === 'and' || node.type === 'or'
+    ? { clauses: node.children, operator: node.type }
+    : { clauses: [node], operator: fallback };
+
+/** Terms a matching CV must (or may) contain; the ones under NOT are left out. */
+export const positiveTerms = (node: QueryNode): string[] => {
+  const terms: string[] = [];
+  const visit = (current: QueryNode) => {
+    if (current.type === 'term') {
+      if (!terms.some((term) => term.toLowerCase() === current.value.toLowerCase())) terms.push(current.value);
+    } else if (current.type !== 'not') {
+      current.children.forEach(visit);
+    }
+  };
+  visit(node);
+  return terms;
+};
+
+/** The text a query is evaluated against. */
+export interface SearchableText {
+  /** Everything, including title and skills. */
+  all: string;
+  title: string;
+  skills: string;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ');
+
+const containsTerm = (node: Extract<QueryNode, { type: 'term' }>, text: SearchableText) =>
+  normalize(text[node.field ?? 'all']).includes(normalize(node.value));
+
+/** Whether `text` matches the query. Terms match case-insensitively anywhere in the text. */
+export const evaluateQuery = (node: QueryNode, text: SearchableText): boolean => {
+  switch (node.type) {
+    case 'term':
+      return containsTerm(node, text);
+    case 'not':
+      return !evaluateQuery(node.child, text);
+    case 'and':
+      return node.children.every((child) => evaluateQuery(child, text));
+    case 'or':
+      return node.children.some((child) => evaluateQuery(child, text));
+  }
+};
+
+/** The positive terms of the query that `text` contains. */
+export const matchingTerms = (node: QueryNode, text: SearchableText): string[] => {
+  const matched: string[] = [];
+  const visit = (current: QueryNode) => {
+    if (current.type === 'term') {
+      if (containsTerm(current, text) && !matched.includes(current.value)) matched.push(current.value);
+    } else if (current.type !== 'not') {
+      current.children.forEach(visit);
+    }
+  };
+  visit(node);
+  return matched;
+};
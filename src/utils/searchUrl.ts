@@ -0,0 +1,49 @@
+import type { SearchMode } from '../types/api';
+import { combineQueries, formatQuery, parseQuery, splitQuery, type QueryNode } from './searchQuery';
+
+// Searches live in the URL: the query (`q` and `mode`, and `fuzzy=1` for
+// typo-tolerant matching) plus the filters and sort order, see
+// `searchFilters` and `resultSort`.
+
+export const parseMode = (value: string | null): SearchMode => (value === 'and' ? 'and' : 'or');
+
+// The URL parameters sent to the backend; the others only change what's shown
+const QUERY_PARAMS = ['q', 'keywords', 'mode', 'fuzzy'];
+
+/** The query part of the URL, so changing a filter doesn't search again. */
+export const queryParamsOf = (params: URLSearchParams) =>
+  new URLSearchParams(Array.from(params).filter(([key]) => QUERY_PARAMS.includes(key))).toString();
+
+export interface UrlSearch {
+  /** The query's top-level clauses, shown as chips. */
+  clauses: string[];
+  mode: SearchMode;
+  query: QueryNode | null;
+  /** Whether terms also match words a few typos away. */
+  fuzzy: boolean;
+  error?: string;
+}
+
+/** The search in the URL: a `q` query, or the `keywords` of links from before queries existed. */
+export const readUrlSearch = (params: URLSearchParams): UrlSearch => {
+  const mode = parseMode(params.get('mode'));
+  const fuzzy = params.get('fuzzy') === '1';
+  const q = params.get('q');
+  if (q === null) {
+    const terms: QueryNode[] = params.getAll('keywords').filter(Boolean).map((value) => ({ type: 'term', value }));
+    return { clauses: terms.map(formatQuery), mode, query: terms.length > 0 ? combineQueries(terms, mode) : null, fuzzy };
+  }
+
+  const parsed = parseQuery(q);
+  if (!parsed.ok) {
+    return {
+      clauses: [],
+      mode,
+      query: null,
+      fuzzy,
+      error: `The search query in this link is invalid: ${parsed.error.message}`,
+    };
+  }
+  const { clauses, operator } = splitQuery(parsed.query, mode);
+  return { clauses: clauses.map(formatQuery), mode: operator, query: parsed.query, fuzzy };
+};
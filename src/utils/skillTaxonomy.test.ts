@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TAXONOMY, expandQuery, termVariants, validateTaxonomy, type TaxonomyEntry } from './skillTaxonomy';
+import { formatQuery, parseQuery, type QueryNode } from './searchQuery';
+
+const parse = (input: string): QueryNode => {
+  const result = parseQuery(input);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.query;
+};
+
+const entry = (name: string, change: Partial<TaxonomyEntry> = {}): TaxonomyEntry => ({
+  name,
+  synonyms: [],
+  abbreviations: [],
+  children: [],
+  ...change,
+});
+
+describe('termVariants', () => {
+  it('adds the name and synonyms for an abbreviation, but not the other way round', () => {
+    expect(termVariants('JS', DEFAULT_TAXONOMY)).toEqual(['JS', 'JavaScript', 'ECMAScript']);
+    expect(termVariants('javascript', DEFAULT_TAXONOMY)).toEqual(['javascript', 'ECMAScript']);
+  });
+
+  it('includes the children, all the way down', () => {
+    expect(termVariants('frontend', DEFAULT_TAXONOMY)).toEqual([
+      'frontend', 'Front-end', 'Front end', 'React', 'React.js', 'ReactJS', 'Vue', 'Vue.js', 'VueJS', 'Angular', 'AngularJS',
+    ]);
+  });
+
+  it('survives children that list their parent', () => {
+    const taxonomy = [entry('A', { children: ['B'] }), entry('B', { children: ['A'] })];
+    expect(termVariants('A', taxonomy)).toEqual(['A', 'B']);
+  });
+
+  it('leaves unknown terms alone', () => {
+    expect(termVariants('COBOL', DEFAULT_TAXONOMY)).toEqual(['COBOL']);
+  });
+});
+
+describe('expandQuery', () => {
+  it('replaces terms with an OR of their variants, in the same field', () => {
+    const { query, synonymOf } = expandQuery(parse('skills:k8s AND NOT Postgres'), DEFAULT_TAXONOMY);
+    expect(formatQuery(query)).toBe('(skills:k8s OR skills:Kubernetes) AND NOT (Postgres OR PostgreSQL)');
+    expect(synonymOf).toEqual(new Map([['kubernetes', 'k8s']]));
+  });
+
+  it("doesn't mark a searched term as another's synonym", () => {
+    const { synonymOf } = expandQuery(parse('JS OR JavaScript'), DEFAULT_TAXONOMY);
+    expect(synonymOf.has('javascript')).toBe(false);
+    expect(synonymOf.get('ecmascript')).toBe('JS');
+  });
+});
+
+describe('validateTaxonomy', () => {
+  it('accepts the built-in taxonomy', () => {
+    expect(validateTaxonomy(DEFAULT_TAXONOMY)).toEqual([]);
+  });
+
+  it('reports missing names and names listed twice', () => {
+    expect(
+      validateTaxonomy([
+        entry(' '),
+        entry('Go', { synonyms: ['Golang'], abbreviations: ['golang '] }),
+        entry('Python', { synonyms: ['GO'] }),
+      ])
+    ).toEqual([
+      'Every skill needs a name.',
+      '"golang" is listed twice for Go.',
+      '"GO" is listed for both Go and Python.',
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import { positiveTerms, type QueryNode } from './searchQuery';
+
+// A skill taxonomy lists the other ways CVs write a skill ("JS" for
+// JavaScript) and the skills a broader one covers ("frontend" covers React,
+// Vue and Angular). Search terms are expanded with it before searching, so
+// `JS` looks for `(JS OR JavaScript OR ECMAScript)`.
+//
+// Terms match anywhere in a word, so abbreviations only work one way:
+// searching "TS" finds "TypeScript", but searching "TypeScript" doesn't look
+// for "ts", which most CVs contain somewhere.
+
+export interface TaxonomyEntry {
+  /** The skill's usual name, e.g. "JavaScript". */
+  name: string;
+  /** Other names, searched for whichever one is typed, e.g. "ECMAScript". */
+  synonyms: string[];
+  /** Short forms that find the skill, but aren't searched for themselves, e.g. "JS". */
+  abbreviations: string[];
+  /** Narrower skills it covers, e.g. "React" for "Frontend"; they may have entries of their own. */
+  children: string[];
+}
+
+export const DEFAULT_TAXONOMY: TaxonomyEntry[] = [
+  { name: 'JavaScript', synonyms: ['ECMAScript'], abbreviations: ['JS'], children: [] },
+  { name: 'TypeScript', synonyms: [], abbreviations: ['TS'], children: [] },
+  { name: 'Kubernetes', synonyms: [], abbreviations: ['k8s'], children: [] },
+  { name: 'PostgreSQL', synonyms: ['Postgres'], abbreviations: [], children: [] },
+  { name: 'Machine Learning', synonyms: [], abbreviations: ['ML'], children: [] },
+  { name: 'React', synonyms: ['React.js', 'ReactJS'], abbreviations: [], children: [] },
+  { name: 'Vue', synonyms: ['Vue.js', 'VueJS'], abbreviations: [], children: [] },
+  { name: 'Angular', synonyms: ['AngularJS'], abbreviations: [], children: [] },
+  { name: 'Node.js', synonyms: ['NodeJS'], abbreviations: [], children: [] },
+  { name: 'Frontend', synonyms: ['Front-end', 'Front end'], abbreviations: [], children: ['React', 'Vue', 'Angular'] },
+  { name: 'Backend', synonyms: ['Back-end', 'Back end'], abbreviations: [], children: ['Node.js', 'Java', 'Python', 'Golang'] },
+  { name: 'DevOps', synonyms: [], abbreviations: [], children: ['Kubernetes', 'Docker', 'Terraform'] },
+];
+
+const key = (value: string) => value.trim().toLowerCase();
+
+const namesOf = (entry: TaxonomyEntry) => [entry.name, ...entry.synonyms];
+
+const allNamesOf = (entry: TaxonomyEntry) => [...namesOf(entry), ...entry.abbreviations];
+
+/**
+ * Every way of writing `term`: itself, then its skill's name and synonyms,
+ * then its children's, all the way down. Unknown terms have only themselves.
+ */
+export const termVariants = (term: string, taxonomy: TaxonomyEntry[]): string[] => {
+  const variants = new Map<string, string>([[key(term), term]]);
+  const visited = new Set<TaxonomyEntry>();
+
+  const visit = (name: string) => {
+    const entry = taxonomy.find((candidate) => allNamesOf(candidate).some((value) => key(value) === key(name)));
+    if (!entry) {
+      if (!variants.has(key(name))) variants.set(key(name), name);
+      return;
+    }
+    // Children that list their parent again mustn't loop
+    if (visited.has(entry)) return;
+    visited.add(entry);
+    namesOf(entry).forEach((value) => {
+      if (value.trim() && !variants.has(key(value))) variants.set(key(value), value.trim());
+    });
+    entry.children.forEach(visit);
+  };
+
+  visit(term);
+  return Array.from(variants.values());
+};
+
+export interface ExpandedQuery {
+  query: QueryNode;
+  /** For each synonym or child added, keyed in lower case, the search term it stands in for. */
+  synonymOf: Map<string, string>;
+}
+
+/** The query with each term replaced by an OR of its variants, in the same field. */
+export const expandQuery = (query: QueryNode, taxonomy: TaxonomyEntry[]): ExpandedQuery => {
+  const synonymOf = new Map<string, string>();
+
+  const expand = (node: QueryNode): QueryNode => {
+    switch (node.type) {
+      case 'term': {
+        const variants = termVariants(node.value, taxonomy);
+        if (variants.length === 1) return node;
+        return { type: 'or', children: variants.map((value) => ({ type: 'term', value, field: node.field })) };
+      }
+      case 'not':
+        return { type: 'not', child: expand(node.child) };
+      default:
+        return { type: node.type, children: node.children.map(expand) };
+    }
+  };
+
+  // Excluded terms are expanded too, but aren't highlighted, so they need no origin
+  const terms = positiveTerms(query);
+  const searched = new Set(terms.map(key));
+  terms.forEach((term) => {
+    termVariants(term, taxonomy)
+      .slice(1)
+      .forEach((variant) => {
+        if (!searched.has(key(variant)) && !synonymOf.has(key(variant))) synonymOf.set(key(variant), term);
+      });
+  });
+  return { query: expand(query), synonymOf };
+};
+
+/** Problems that would make the taxonomy ambiguous, e.g. one synonym for two skills. */
+export const validateTaxonomy = (taxonomy: TaxonomyEntry[]): string[] => {
+  const errors: string[] = [];
+  const owners = new Map<string, number>();
+  taxonomy.forEach((entry, index) => {
+    if (!entry.name.trim()) {
+      errors.push('Every skill needs a name.');
+      return;
+    }
+    allNamesOf(entry).forEach((value) => {
+      const owner = owners.get(key(value));
+      if (owner === undefined) {
+        owners.set(key(value), index);
+      } else if (owner === index) {
+        errors.push(`"${value.trim()}" is listed twice for ${entry.name}.`);
+      } else {
+        errors.push(`"${value.trim()}" is listed for both ${taxonomy[owner].name} and ${entry.name}.`);
+      }
+    });
+  });
+  return errors;
+};
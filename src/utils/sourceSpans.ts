@@ -0,0 +1,32 @@
+import type { ParsedResume } from '../types/api';
+
+export interface SourceSnippet {
+  text: string;
+  page?: number;
+}
+
+/** Whether `field` is `path` itself or one of its parts, e.g. "experience.0.title" for "experience.0". */
+const isWithin = (field: string, path: string) => field === path || field.startsWith(`${path}.`);
+
+/** The text each span of `path` points to. Spans outside `source_text` are ignored. */
+export const sourceSnippets = ({ source_text, source_spans }: ParsedResume, path: string): SourceSnippet[] => {
+  if (!source_text || !source_spans) return [];
+  return source_spans
+    .filter((span) => isWithin(span.field, path) && span.start >= 0 && span.end > span.start && span.end <= source_text.length)
+    .map((span) => ({ text: source_text.slice(span.start, span.end).trim(), page: span.page }))
+    .filter((snippet) => snippet.text.length > 0);
+};
+
+/**
+ * Every path with a usable span, including its parents, so a span for
+ * "experience.0.company" also traces the entry "experience.0".
+ */
+export const tracedFields = (data: ParsedResume): Set<string> => {
+  const fields = new Set<string>();
+  for (const span of data.source_spans ?? []) {
+    if (sourceSnippets(data, span.field).length === 0) continue;
+    const parts = span.field.split('.');
+    parts.forEach((_, index) => fields.add(parts.slice(0, index + 1).join('.')));
+  }
+  return fields;
+};
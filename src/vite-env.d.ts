@@ -1 +1,19 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BACKEND_URL?: string;
+  readonly VITE_REQUEST_TIMEOUT_MS?: string;
+  readonly VITE_SEARCH_TIMEOUT_MS?: string;
+  readonly VITE_UPLOAD_TIMEOUT_MS?: string;
+  readonly VITE_MOCK_BACKEND?: string;
+  readonly VITE_MOCK_LATENCY_MS?: string;
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string;
+  readonly VITE_IDLE_WARNING_SECONDS?: string;
+  readonly VITE_SESSION_MAX_AGE_HOURS?: string;
+  readonly VITE_UPLOAD_CONCURRENCY?: string;
+  readonly VITE_UPLOAD_MAX_RETRIES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}